@@ -1,9 +1,18 @@
 
-import React, { useState, useCallback } from 'react';
+import React, { useState, useCallback, useEffect, useRef } from 'react';
 import { Sidebar } from './components/Sidebar';
 import { MainPanel } from './components/MainPanel';
-import { type VisualizationConfig } from './types';
+import { type VisualizationConfig, type ColumnSpec } from './types';
 import { generatePathwayMap } from './services/pathwayRenderer';
+import { pathwayKey } from './services/pathwayCache';
+import { type LegendModel, type OverlayColumns } from './services/overlay';
+import { type GseaResult } from './services/gsea';
+import { type ImpactReport } from './services/impact';
+import { type SbgnExport } from './services/sbgnExport';
+import { type SbgnMapRef } from './services/pathwayModel';
+import { type ConversionReport, asGeneIdType } from './services/idCrosswalk';
+import { type MappingReport } from './services/mappingReport';
+import { DEFAULT_SCALE_SETTINGS } from './services/colorScales';
 import { SAMPLE_GENE_CSV, SAMPLE_COMPOUND_CSV, SAMPLE_ARABIDOPSIS_KEGG } from './services/sampleData';
 import { HelpModal } from './components/HelpModal';
 import { HelpIcon } from './components/icons/HelpIcon';
@@ -11,6 +20,9 @@ import { type OsdrImportPayload } from './components/OsdrPanel';
 
 export type ParsedData = Map<string, Record<string, string>>;
 
+// Quiet time after the last slider / picker change before the map is redrawn.
+const LIVE_RENDER_DELAY_MS = 120;
+
 const App: React.FC = () => {
   const [config, setConfig] = useState<VisualizationConfig>({
     pathwayDatabase: 'Reactome',
@@ -24,13 +36,45 @@ const App: React.FC = () => {
     arcLineColor: '#94a3b8',
     compoundDataType: 'abundance',
     compoundIdType: 'kegg',
-    keggRenderMode: 'image'
+    keggRenderMode: 'image',
+    significanceCutoff: 0.05,
+    minAbsLog2FC: 0,
+    significanceEncoding: 'border',
+    duplicateAggregation: 'first',
+    labelFallback: true,
+    matchingPolicy: 'token',
+    memberAggregation: 'mean',
+    geneColorScale: DEFAULT_SCALE_SETTINGS,
+    compoundColorScale: DEFAULT_SCALE_SETTINGS,
+    secondaryChannel: 'none',
+    secondaryTransform: 'linear',
+    overlayMode: 'values',
+    mapStyles: true
   });
   const [geneData, setGeneData] = useState<string | null>(null);
   const [compoundData, setCompoundData] = useState<string | null>(null);
+  const [geneColumns, setGeneColumns] = useState<ColumnSpec | null>(null);
+  const [compoundColumns, setCompoundColumns] = useState<ColumnSpec | null>(null);
   const [customSbgnFile, setCustomSbgnFile] = useState<string | null>(null);
+  const [synonymFile, setSynonymFile] = useState<string | null>(null);
   const [parsedGeneData, setParsedGeneData] = useState<ParsedData>(new Map());
   const [parsedCompoundData, setParsedCompoundData] = useState<ParsedData>(new Map());
+  const [overlayColumns, setOverlayColumns] = useState<OverlayColumns>({});
+  const [idConversion, setIdConversion] = useState<ConversionReport | null>(null);
+  const [mappingReport, setMappingReport] = useState<MappingReport | null>(null);
+  const [legendModel, setLegendModel] = useState<LegendModel | null>(null);
+  const [impactReport, setImpactReport] = useState<ImpactReport | null>(null);
+  const [sbgnExport, setSbgnExport] = useState<SbgnExport | null>(null);
+  const [gseaResult, setGseaResult] = useState<GseaResult | null>(null);
+  const [mapPathwayId, setMapPathwayId] = useState<string | null>(null);
+  // Which pathway (see pathwayKey) and map of it is on screen; the viewer keeps its zoom while it stays the same.
+  const [mapKey, setMapKey] = useState<string | null>(null);
+  const shownRef = useRef<{ key: string; useDemo: boolean; mapId: string | null } | null>(null);
+  // Multi-map SBGN-ML: the file's maps, and the trail from the picked map to the submap on screen.
+  const [sbgnMaps, setSbgnMaps] = useState<SbgnMapRef[]>([]);
+  const [mapTrail, setMapTrail] = useState<string[]>([]);
+  // Bumped per generation, so a slow render can't overwrite a newer one.
+  const generationRef = useRef(0);
   const [isLoading, setIsLoading] = useState<boolean>(false);
   const [error, setError] = useState<string | null>(null);
   const [pathwaySvg, setPathwaySvg] = useState<string | null>(null);
@@ -42,6 +86,12 @@ const App: React.FC = () => {
       geneOverride?: string;
       compoundOverride?: string;
       configOverride?: VisualizationConfig;
+      /** Refetch the pathway instead of using the session cache. */
+      reload?: boolean;
+      /** Redraw the map on screen in place: no spinner, and the old map stays up until the new one is ready. */
+      live?: boolean;
+      /** Multi-map files: draw the last map of this trail (otherwise the map on screen, or the file's first). */
+      mapTrail?: string[];
     } = {}) => {
       const gd = opts.geneOverride ?? geneData;
       const cd = opts.compoundOverride ?? compoundData;
@@ -64,33 +114,89 @@ const App: React.FC = () => {
         }
       }
 
-      setIsLoading(true);
+      const generation = ++generationRef.current;
+      if (!opts.live) {
+        setIsLoading(true);
+        setPathwaySvg(null);
+      }
       setError(null);
-      setPathwaySvg(null);
+      const key = pathwayKey({ config: cfg, customSbgnFile, useDemo: opts.useDemo });
+      const shown = shownRef.current;
+      const sameFile = shown?.key === key;
 
       try {
-        const { svg, geneMap, compoundMap } = await generatePathwayMap({
+        const { svg, geneMap, compoundMap, columns, idConversion, mapping, legend, impact, sbgnExport, model, maps } = await generatePathwayMap({
           geneData: gd ?? '',
           compoundData: cd,
           config: cfg,
           customSbgnFile,
+          synonymFile,
           useDemo: opts.useDemo,
+          geneColumns,
+          compoundColumns,
+          reload: opts.reload,
+          mapId: opts.mapTrail?.[opts.mapTrail.length - 1] ?? (sameFile ? shown.mapId : null),
         });
+        if (generation !== generationRef.current) return;
+        const mapId = model.mapId ?? null;
+        shownRef.current = { key, useDemo: !!opts.useDemo, mapId };
+        setMapKey(mapId ? `${key}#${mapId}` : key);
+        setSbgnMaps(maps);
+        setMapTrail((prev) => opts.mapTrail ?? (sameFile && prev[prev.length - 1] === mapId ? prev : mapId ? [mapId] : []));
         setParsedGeneData(geneMap);
         setParsedCompoundData(compoundMap);
+        setOverlayColumns(columns);
+        setIdConversion(idConversion);
+        setMappingReport(mapping);
+        setLegendModel(legend);
+        setImpactReport(impact);
+        setSbgnExport(sbgnExport);
+        setMapPathwayId(opts.useDemo || cfg.pathwayDatabase === 'Custom SBGN File' ? null : cfg.pathwayId);
         setPathwaySvg(svg);
       } catch (err) {
+        if (generation !== generationRef.current) return;
         console.error(err);
         setError(err instanceof Error ? err.message : 'An unknown error occurred.');
       } finally {
-        setIsLoading(false);
+        if (generation === generationRef.current) setIsLoading(false);
       }
     },
-    [geneData, compoundData, config, customSbgnFile]
+    [geneData, compoundData, config, customSbgnFile, synonymFile, geneColumns, compoundColumns]
   );
 
   const handleGenerate = useCallback(() => runGeneration(), [runGeneration]);
 
+  const handleReload = useCallback(() => runGeneration({ reload: true }), [runGeneration]);
+
+  // While the selected pathway is the one on screen, any other settings or data
+  // change redraws it from the cached source (runGeneration changes with them).
+  useEffect(() => {
+    const shown = shownRef.current;
+    if (!shown || shown.key !== pathwayKey({ config, customSbgnFile, useDemo: shown.useDemo })) return;
+    const timer = setTimeout(() => runGeneration({ live: true, useDemo: shown.useDemo }), LIVE_RENDER_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [runGeneration, config, customSbgnFile]);
+
+  // The map picker, a submap glyph or a breadcrumb: draw another map of the file on screen.
+  const handleOpenMap = useCallback((trail: string[]) => {
+    const shown = shownRef.current;
+    if (!shown || shown.key !== pathwayKey({ config, customSbgnFile, useDemo: shown.useDemo })) return;
+    runGeneration({ live: true, useDemo: shown.useDemo, mapTrail: trail });
+  }, [config, customSbgnFile, runGeneration]);
+
+  // One click in the enrichment table: select the pathway and render it.
+  const handleOpenPathway = useCallback((pathwayId: string) => {
+    const cfg: VisualizationConfig = { ...config, pathwayId };
+    setConfig(cfg);
+    runGeneration({ configOverride: cfg });
+  }, [config, runGeneration]);
+
+  // A range dragged in the map legend becomes that scale's fixed domain for the next render.
+  const handleApplyDomain = useCallback((kind: 'gene' | 'compound', [domainMin, domainMax]: [number, number]) => {
+    const key = kind === 'gene' ? 'geneColorScale' : 'compoundColorScale';
+    setConfig((prev) => ({ ...prev, [key]: { ...prev[key], domain: 'fixed', domainMin, domainMax } }));
+  }, []);
+
   // Offline demo: loads the bundled sample data and renders the bundled SBGN map
   // with zero network access — proves the app runs fully standalone.
   const handleLoadDemo = useCallback(() => {
@@ -135,6 +241,7 @@ const App: React.FC = () => {
     const cfg: VisualizationConfig = {
       ...config,
       dataType: 'deseq2',
+      ...(p.geneIdType ? { geneIdType: asGeneIdType(p.geneIdType) ?? config.geneIdType } : {}),
       ...(p.keggOrg ? { pathwayDatabase: 'KEGG' as const, speciesId: p.keggOrg } : {}),
       ...(p.pathwayId ? { pathwayId: p.pathwayId } : {}),
     };
@@ -173,13 +280,22 @@ const App: React.FC = () => {
           setGeneData={setGeneData}
           compoundData={compoundData}
           setCompoundData={setCompoundData}
+          geneColumns={geneColumns}
+          setGeneColumns={setGeneColumns}
+          compoundColumns={compoundColumns}
+          setCompoundColumns={setCompoundColumns}
           onGenerate={handleGenerate}
+          onReload={handleReload}
+          onOpenPathway={handleOpenPathway}
+          onGseaResult={setGseaResult}
           onLoadDemo={handleLoadDemo}
           onLoadArabidopsis={handleLoadArabidopsis}
           onOsdrImport={handleOsdrImport}
           isLoading={isLoading}
           customSbgnFile={customSbgnFile}
           setCustomSbgnFile={setCustomSbgnFile}
+          synonymFile={synonymFile}
+          setSynonymFile={setSynonymFile}
         />
         <MainPanel
           isLoading={isLoading}
@@ -187,6 +303,19 @@ const App: React.FC = () => {
           pathwaySvg={pathwaySvg}
           parsedGeneData={parsedGeneData}
           parsedCompoundData={parsedCompoundData}
+          overlayColumns={overlayColumns}
+          idConversion={idConversion}
+          mappingReport={mappingReport}
+          legend={legendModel}
+          onApplyDomain={handleApplyDomain}
+          impact={impactReport}
+          sbgnExport={sbgnExport}
+          gsea={gseaResult}
+          pathwayId={mapPathwayId}
+          mapKey={mapKey}
+          maps={sbgnMaps}
+          mapTrail={mapTrail}
+          onOpenMap={handleOpenMap}
         />
       </div>
       <footer className="bg-gray-800 border-t border-gray-700 px-4 py-3 text-xs text-gray-400 flex flex-wrap items-center justify-center gap-x-4 gap-y-1">
@@ -0,0 +1,138 @@
+import React, { useMemo } from 'react';
+import { type ColumnSpec } from '../types';
+import { type ParsedTable } from '../services/tableParser';
+import { numericColumns } from '../services/columnMapping';
+
+interface Props {
+  /** e.g. "gene" / "compound" — used for ids and labels. */
+  kind: string;
+  table: ParsedTable;
+  spec: ColumnSpec | null;
+  onChange: (spec: ColumnSpec) => void;
+}
+
+const PREVIEW_ROWS = 4;
+const SELECT = 'mt-1 block w-full pl-3 pr-8 py-1.5 text-sm bg-gray-700 border-gray-600 rounded-md focus:outline-none focus:ring-cyan-500 focus:border-cyan-500';
+
+/**
+ * Post-upload column mapping: previews the first rows and lets the user pick the
+ * identifier, value and significance columns explicitly instead of relying on
+ * header-name guessing.
+ */
+export const ColumnMappingPanel: React.FC<Props> = ({ kind, table, spec, onChange }) => {
+  const { headers, rows } = table;
+  const numeric = useMemo(() => new Set(numericColumns(headers, rows)), [headers, rows]);
+
+  if (!spec || headers.length === 0) return null;
+
+  const toggleValue = (col: string) => {
+    const has = spec.valueColumns.includes(col);
+    const next = has ? spec.valueColumns.filter((c) => c !== col) : headers.filter((h) => h === col || spec.valueColumns.includes(h));
+    if (next.length === 0) return; // at least one value column is required
+    onChange({ ...spec, valueColumns: next });
+  };
+
+  const setIdColumn = (col: string) => {
+    // The identifier can't also be a value column (unless it is the only one).
+    const rest = spec.valueColumns.filter((c) => c !== col);
+    onChange({ ...spec, idColumn: col, valueColumns: rest.length ? rest : spec.valueColumns });
+  };
+
+  // Leaving categorical mode drops text columns; keep at least one value column.
+  const setCategorical = (categorical: boolean) => {
+    const kept = categorical ? spec.valueColumns : spec.valueColumns.filter((c) => numeric.has(c));
+    const fallback = headers.find((h) => h !== spec.idColumn && numeric.has(h));
+    onChange({ ...spec, categorical, valueColumns: kept.length ? kept : fallback ? [fallback] : spec.valueColumns });
+  };
+
+  const label = (h: string) => h || '(row names)';
+
+  return (
+    <details className="bg-gray-900/50 rounded-lg text-xs text-gray-300" open>
+      <summary className="cursor-pointer px-3 py-2 font-medium text-gray-200">Map {kind} columns</summary>
+      <div className="px-3 pb-3 space-y-3">
+        <div className="overflow-x-auto border border-gray-700 rounded">
+          <table className="min-w-full text-[11px]">
+            <thead className="bg-gray-800 text-gray-400">
+              <tr>
+                {headers.map((h, i) => (
+                  <th
+                    key={i}
+                    scope="col"
+                    className={`px-2 py-1 text-left whitespace-nowrap ${h === spec.idColumn ? 'text-cyan-300' : spec.valueColumns.includes(h) ? 'text-emerald-300' : h === spec.significanceColumn ? 'text-amber-300' : ''}`}
+                  >
+                    {label(h)}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {rows.slice(0, PREVIEW_ROWS).map((row, r) => (
+                <tr key={r} className="border-t border-gray-800">
+                  {row.map((cell, c) => <td key={c} className="px-2 py-0.5 whitespace-nowrap text-gray-400">{cell}</td>)}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        <div>
+          <label htmlFor={`${kind}-id-column`} className="block font-medium text-gray-300">Identifier column</label>
+          <select id={`${kind}-id-column`} className={SELECT} value={spec.idColumn}
+            onChange={(e) => setIdColumn(e.target.value)}>
+            {headers.map((h, i) => <option key={i} value={h}>{label(h)}</option>)}
+          </select>
+        </div>
+
+        <fieldset>
+          <legend className="font-medium text-gray-300">Value column(s)</legend>
+          <label className="mt-1 flex items-center gap-1">
+            <input type="checkbox" className="accent-cyan-500" checked={spec.categorical} onChange={(e) => setCategorical(e.target.checked)} />
+            Categorical (up/down calls, cluster ids, present/absent)
+          </label>
+          {spec.valueColumns.length > 1 ? (
+            <div className="mt-1 flex gap-3">
+              <label className="flex items-center gap-1">
+                <input type="radio" className="accent-cyan-500" name={`${kind}-combine`} checked={!spec.sliced} onChange={() => onChange({ ...spec, sliced: false })} />
+                {spec.categorical ? 'Most frequent' : 'Average'}
+              </label>
+              <label className="flex items-center gap-1">
+                <input type="radio" className="accent-cyan-500" name={`${kind}-combine`} checked={spec.sliced} onChange={() => onChange({ ...spec, sliced: true })} />
+                One slice per column
+              </label>
+            </div>
+          ) : (
+            <p className="text-gray-500">Pick several to average them or split glyphs into per-sample slices.</p>
+          )}
+          <div className="mt-1 grid grid-cols-2 gap-x-2">
+            {headers.filter((h) => h !== spec.idColumn).map((h, i) => (
+              <label key={i} className={`flex items-center gap-1 ${spec.categorical || numeric.has(h) ? '' : 'text-gray-500'}`}>
+                <input type="checkbox" className="accent-cyan-500" checked={spec.valueColumns.includes(h)} disabled={!spec.categorical && !numeric.has(h)} onChange={() => toggleValue(h)} />
+                <span className="truncate" title={h}>{label(h)}</span>
+              </label>
+            ))}
+          </div>
+        </fieldset>
+
+        <div>
+          <label htmlFor={`${kind}-sig-column`} className="block font-medium text-gray-300">Significance column</label>
+          <select id={`${kind}-sig-column`} className={SELECT} value={spec.significanceColumn ?? ''}
+            onChange={(e) => onChange({ ...spec, significanceColumn: e.target.value || null })}>
+            <option value="">None</option>
+            {headers.filter((h) => numeric.has(h) && h !== spec.idColumn).map((h, i) => <option key={i} value={h}>{label(h)}</option>)}
+          </select>
+        </div>
+
+        <div>
+          <label htmlFor={`${kind}-secondary-column`} className="block font-medium text-gray-300">Secondary column</label>
+          <select id={`${kind}-secondary-column`} className={SELECT} value={spec.secondaryColumn ?? ''}
+            onChange={(e) => onChange({ ...spec, secondaryColumn: e.target.value || null })}>
+            <option value="">None</option>
+            {headers.filter((h) => numeric.has(h) && h !== spec.idColumn).map((h, i) => <option key={i} value={h}>{label(h)}</option>)}
+          </select>
+          <p className="mt-1 text-gray-500">Drawn through the "Second Channel" chosen in step 3 (e.g. padj, variance).</p>
+        </div>
+      </div>
+    </details>
+  );
+};
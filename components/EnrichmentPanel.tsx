@@ -0,0 +1,188 @@
+import React, { useState, useEffect, useMemo, useCallback } from 'react';
+import { type ColumnSpec, type Pathway, type PathwayDatabase, type VisualizationConfig } from '../types';
+import { type ParsedTable } from '../services/tableParser';
+import { type EnrichmentResult, type EnrichmentRow, runEnrichment, splitQuery, parseIdList } from '../services/enrichment';
+import { fetchGeneSets } from '../services/pathwayService';
+import { fmtNum } from '../services/overlay';
+
+interface Props {
+  database: PathwayDatabase;
+  speciesId: string;
+  /** The species' pathways as listed in the pathway dropdown; the ones tested. */
+  pathways: Pathway[];
+  table: ParsedTable;
+  spec: ColumnSpec;
+  /** Supplies the significance cutoff and |log2FC| minimum that pick the query genes. */
+  config: VisualizationConfig;
+  /** Select a pathway and render it. */
+  onOpenPathway: (pathwayId: string) => void;
+}
+
+type Background = 'table' | 'custom';
+type SortKey = 'name' | 'hits' | 'size' | 'p' | 'fdr';
+
+const COLUMNS: { key: SortKey; label: string }[] = [
+  { key: 'name', label: 'Pathway' },
+  { key: 'hits', label: 'Hits' },
+  { key: 'size', label: 'Size' },
+  { key: 'p', label: 'p' },
+  { key: 'fdr', label: 'FDR' },
+];
+
+const compare = (key: SortKey) => (a: EnrichmentRow, b: EnrichmentRow): number =>
+  key === 'name' ? a.name.localeCompare(b.name) : a[key] - b[key];
+
+/**
+ * "Pathway enrichment" under the pathway picker: a hypergeometric test of the
+ * significant genes against the uploaded table (or a custom background) for
+ * every pathway of the species, BH-corrected, as a sortable table whose rows
+ * open their pathway.
+ */
+export const EnrichmentPanel: React.FC<Props> = ({ database, speciesId, pathways, table, spec, config, onOpenPathway }) => {
+  const [background, setBackground] = useState<Background>('table');
+  const [customIds, setCustomIds] = useState<Set<string> | null>(null);
+  const [customName, setCustomName] = useState('');
+  const [running, setRunning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [result, setResult] = useState<EnrichmentResult | null>(null);
+  const [sort, setSort] = useState<{ key: SortKey; desc: boolean }>({ key: 'p', desc: false });
+  const [showAll, setShowAll] = useState(false);
+
+  const { dataType, significanceCutoff, minAbsLog2FC } = config;
+  const split = useMemo(
+    () => splitQuery(table.headers, table.rows, spec, { dataType, significanceCutoff, minAbsLog2FC }),
+    [table, spec, dataType, significanceCutoff, minAbsLog2FC]
+  );
+  const universe = background === 'custom' && customIds ? customIds : split.background;
+
+  // Results describe one species, table and background; drop them when any changes.
+  useEffect(() => {
+    setResult(null);
+    setError(null);
+  }, [database, speciesId, split, universe]);
+
+  const handleBackgroundFile = useCallback((event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) {
+      setCustomIds(null);
+      setCustomName('');
+      return;
+    }
+    const reader = new FileReader();
+    reader.onload = (e) => {
+      setCustomIds(parseIdList(e.target?.result as string));
+      setCustomName(file.name);
+    };
+    reader.readAsText(file);
+  }, []);
+
+  const run = useCallback(async () => {
+    setRunning(true);
+    setError(null);
+    try {
+      const ids = Array.from(new Set([...split.query, ...universe]));
+      const sets = await fetchGeneSets(database, speciesId, pathways, ids);
+      setResult(runEnrichment(sets, split.query, universe));
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Enrichment failed.');
+    } finally {
+      setRunning(false);
+    }
+  }, [database, speciesId, pathways, split, universe]);
+
+  const rows = useMemo(() => {
+    if (!result) return [];
+    const shown = showAll ? result.rows : result.rows.filter((r) => r.hits > 0);
+    const cmp = compare(sort.key);
+    return [...shown].sort((a, b) => (sort.desc ? -cmp(a, b) : cmp(a, b)));
+  }, [result, sort, showAll]);
+
+  const everyRowPasses = split.query.size === split.background.size && background === 'table';
+  const cutoffs = [
+    spec.significanceColumn ? `${spec.significanceColumn} ≤ ${fmtNum(config.significanceCutoff)}` : '',
+    config.dataType === 'deseq2' && !spec.categorical && config.minAbsLog2FC > 0 ? `|log2FC| ≥ ${fmtNum(config.minAbsLog2FC)}` : '',
+  ].filter(Boolean).join(', ');
+
+  return (
+    <details className="bg-gray-800/60 rounded-lg text-xs text-gray-300">
+      <summary className="cursor-pointer px-3 py-2 font-medium text-gray-200">Pathway enrichment</summary>
+      <div className="px-3 pb-3 space-y-2">
+        <p className="text-gray-400">
+          Query: {split.query.size.toLocaleString()} of {split.background.size.toLocaleString()} genes{cutoffs ? ` (${cutoffs})` : ''}.
+        </p>
+        <div className="flex items-center gap-3" role="radiogroup" aria-label="Enrichment background">
+          <span className="text-gray-400">Background</span>
+          <label className="flex items-center gap-1">
+            <input type="radio" name="enrichment-background" className="accent-cyan-500" checked={background === 'table'} onChange={() => setBackground('table')} />
+            Uploaded table
+          </label>
+          <label className="flex items-center gap-1">
+            <input type="radio" name="enrichment-background" className="accent-cyan-500" checked={background === 'custom'} onChange={() => setBackground('custom')} />
+            Gene list
+          </label>
+        </div>
+        {background === 'custom' && (
+          <div>
+            <input type="file" accept=".txt,.csv,.tsv" aria-label="Background gene list" onChange={handleBackgroundFile} className="block w-full text-xs text-gray-400 file:mr-2 file:py-1 file:px-2 file:rounded file:border-0 file:bg-gray-700 file:text-gray-200 hover:file:bg-gray-600" />
+            <p className="mt-1 text-gray-500">
+              {customIds ? `${customName}: ${customIds.size.toLocaleString()} ids.` : 'One id per line (or comma / tab separated), e.g. every gene detected in the experiment.'}
+            </p>
+          </div>
+        )}
+        {everyRowPasses && (
+          <p className="text-amber-300">Every row passes the cutoffs, so the query equals the background; tighten the cutoffs or use a gene list as background.</p>
+        )}
+        <button
+          type="button"
+          onClick={run}
+          disabled={running || !pathways.length || (background === 'custom' && !customIds)}
+          className="px-3 py-1 rounded bg-cyan-700 hover:bg-cyan-600 text-white disabled:bg-gray-600 disabled:cursor-not-allowed"
+        >
+          {running ? 'Testing pathways…' : 'Run enrichment'}
+        </button>
+        {error && <p className="text-red-400" role="alert">{error}</p>}
+        {result && (
+          <>
+            <p className="text-gray-400" aria-live="polite">
+              {result.rows.length.toLocaleString()} pathways tested · {result.query.toLocaleString()} query of {result.background.toLocaleString()} background genes in any pathway.
+            </p>
+            <label className="flex items-center gap-2">
+              <input type="checkbox" className="accent-cyan-500" checked={showAll} onChange={(e) => setShowAll(e.target.checked)} />
+              Include pathways without hits
+            </label>
+            <div className="max-h-72 overflow-auto border border-gray-700 rounded">
+              <table className="min-w-full text-[11px]">
+                <thead className="bg-gray-800 text-gray-400 sticky top-0">
+                  <tr>
+                    {COLUMNS.map(({ key, label }) => (
+                      <th key={key} scope="col" aria-sort={sort.key === key ? (sort.desc ? 'descending' : 'ascending') : 'none'} className={`px-2 py-1 whitespace-nowrap ${key === 'name' ? 'text-left' : 'text-right'}`}>
+                        <button type="button" onClick={() => setSort((s) => ({ key, desc: s.key === key ? !s.desc : key === 'hits' }))} className="hover:text-gray-200">
+                          {label}{sort.key === key ? (sort.desc ? ' ↓' : ' ↑') : ''}
+                        </button>
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {rows.map((r) => (
+                    <tr key={r.id} className={`border-t border-gray-800 ${r.fdr <= 0.05 ? 'text-gray-100' : 'text-gray-400'}`}>
+                      <td className="px-2 py-0.5 max-w-[11rem]">
+                        <button type="button" onClick={() => onOpenPathway(r.id)} title={`Open ${r.name}\nHits: ${r.hitIds.join(', ')}`} className="block w-full truncate text-left text-cyan-300 hover:text-cyan-200 hover:underline">
+                          {r.name}
+                        </button>
+                      </td>
+                      <td className="px-2 py-0.5 text-right">{r.hits}</td>
+                      <td className="px-2 py-0.5 text-right">{r.size}</td>
+                      <td className="px-2 py-0.5 text-right whitespace-nowrap">{fmtNum(r.p)}</td>
+                      <td className="px-2 py-0.5 text-right whitespace-nowrap">{fmtNum(r.fdr)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </>
+        )}
+      </div>
+    </details>
+  );
+};
@@ -0,0 +1,102 @@
+import React, { useMemo, useState } from 'react';
+import { type GseaResult, type GseaRow, enrichmentCurve } from '../services/gsea';
+import { fmtNum } from '../services/overlay';
+
+interface Props {
+  result: GseaResult;
+  /** The scores of the pathway on the map. */
+  row: GseaRow;
+}
+
+const WIDTH = 300;
+const PAD = 28;
+const CURVE_H = 110;
+const TICKS_H = 18;
+const METRIC_H = 40;
+const HEIGHT = CURVE_H + TICKS_H + METRIC_H + 14;
+// The ranked-metric strip is binned to about one bar per pixel.
+const METRIC_BINS = WIDTH - PAD - 8;
+
+/**
+ * The classic three-panel enrichment plot for the pathway on the map: the
+ * running sum with its peak marked, one tick per pathway gene at its rank, and
+ * the ranking metric over all genes. Collapsible, so it can stay out of the way.
+ */
+export const EnrichmentPlot: React.FC<Props> = ({ result, row }) => {
+  const [open, setOpen] = useState(true);
+  const { ranked } = result;
+  const n = ranked.length;
+  const plotW = WIDTH - PAD - 8;
+  const x = (rank: number) => PAD + ((rank + 1) / Math.max(1, n)) * plotW;
+
+  const curve = useMemo(() => enrichmentCurve(ranked, row.positions), [ranked, row.positions]);
+  const [lo, hi] = useMemo(() => {
+    const ys = curve.map(([, y]) => y);
+    return [Math.min(0, ...ys), Math.max(0, ...ys)];
+  }, [curve]);
+  // Axis labels closer to zero than this would collide with the 0 label.
+  const tick = (hi - lo) * 0.1;
+  const y = (v: number) => 6 + ((hi - v) / (hi - lo || 1)) * (CURVE_H - 12);
+  const path = curve.map(([r, v], i) => `${i ? 'L' : 'M'}${x(r).toFixed(1)},${y(v).toFixed(1)}`).join('');
+  const peak = curve.reduce((best, p) => (Math.abs(p[1]) > Math.abs(best[1]) ? p : best), curve[0]);
+
+  const bins = useMemo(() => {
+    const count = Math.min(METRIC_BINS, n);
+    return Array.from({ length: count }, (_, b) => {
+      const from = Math.floor((b * n) / count);
+      const to = Math.max(from + 1, Math.floor(((b + 1) * n) / count));
+      let sum = 0;
+      for (let i = from; i < to; i++) sum += ranked[i].score;
+      return { from, to, mean: sum / (to - from) };
+    });
+  }, [ranked, n]);
+  const maxAbs = Math.max(1e-9, ...bins.map((b) => Math.abs(b.mean)));
+  const metricTop = CURVE_H + TICKS_H;
+  const metricZero = metricTop + METRIC_H / 2;
+
+  return (
+    <div className="bg-gray-900/90 border border-gray-700 rounded-lg text-xs text-gray-300 shadow-lg">
+      <button type="button" onClick={() => setOpen((o) => !o)} aria-expanded={open} className="w-full flex items-center justify-between gap-2 px-3 py-1.5 text-left">
+        <span className="font-medium text-gray-200 truncate max-w-[16rem]" title={row.name}>Enrichment: {row.name}</span>
+        <span className="text-gray-500">{open ? '▾' : '▸'}</span>
+      </button>
+      {open && (
+        <div className="px-3 pb-2">
+          <svg width={WIDTH} height={HEIGHT} role="img" aria-label={`Enrichment plot for ${row.name}: ES ${fmtNum(row.es)}, NES ${fmtNum(row.nes)}`}>
+            <line x1={PAD} x2={PAD + plotW} y1={y(0)} y2={y(0)} stroke="#4b5563" strokeWidth={1} />
+            <line x1={x(peak[0])} x2={x(peak[0])} y1={y(0)} y2={y(peak[1])} stroke="#ef4444" strokeDasharray="3 2" strokeWidth={1} />
+            <path d={path} fill="none" stroke="#22d3ee" strokeWidth={1.5} />
+            {hi > tick && <text x={PAD - 4} y={y(hi) + 3} textAnchor="end" fontSize={9} fill="#9ca3af">{fmtNum(hi)}</text>}
+            <text x={PAD - 4} y={y(0) + 3} textAnchor="end" fontSize={9} fill="#9ca3af">0</text>
+            {lo < -tick && <text x={PAD - 4} y={y(lo) + 3} textAnchor="end" fontSize={9} fill="#9ca3af">{fmtNum(lo)}</text>}
+            <g stroke="#e5e7eb" strokeWidth={1}>
+              {row.positions.map((p) => (
+                <line key={p} x1={x(p)} x2={x(p)} y1={CURVE_H + 2} y2={CURVE_H + TICKS_H - 2} />
+              ))}
+            </g>
+            <line x1={PAD} x2={PAD + plotW} y1={metricZero} y2={metricZero} stroke="#4b5563" strokeWidth={1} />
+            {bins.map((b) => {
+              const h = (Math.abs(b.mean) / maxAbs) * (METRIC_H / 2);
+              return (
+                <rect
+                  key={b.from}
+                  x={x(b.from - 1)}
+                  width={Math.max(0.5, x(b.to - 1) - x(b.from - 1))}
+                  y={b.mean >= 0 ? metricZero - h : metricZero}
+                  height={h}
+                  fill={b.mean >= 0 ? '#f87171' : '#60a5fa'}
+                />
+              );
+            })}
+            <text x={PAD} y={HEIGHT - 2} fontSize={9} fill="#9ca3af">1</text>
+            <text x={PAD + plotW / 2} y={HEIGHT - 2} textAnchor="middle" fontSize={9} fill="#9ca3af">rank by {result.metric}</text>
+            <text x={PAD + plotW} y={HEIGHT - 2} textAnchor="end" fontSize={9} fill="#9ca3af">{n.toLocaleString()}</text>
+          </svg>
+          <p className="mt-1 text-gray-400">
+            ES {fmtNum(row.es)} · NES {fmtNum(row.nes)} · p {fmtNum(row.p)} · FDR {fmtNum(row.fdr)} · {row.size} genes, {row.leadingEdge.length} in the leading edge
+          </p>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,211 @@
+import React, { useState, useEffect, useMemo, useCallback, useRef } from 'react';
+import { type ColumnSpec, type Pathway, type PathwayDatabase } from '../types';
+import { type ParsedTable } from '../services/tableParser';
+import { numericColumns } from '../services/columnMapping';
+import { type GseaResult, type GseaRow, rankGenes, runGseaInWorker } from '../services/gsea';
+import { fetchGeneSets } from '../services/pathwayService';
+import { fmtNum } from '../services/overlay';
+
+interface Props {
+  database: PathwayDatabase;
+  speciesId: string;
+  /** The species' pathways as listed in the pathway dropdown; the ones scored. */
+  pathways: Pathway[];
+  table: ParsedTable;
+  spec: ColumnSpec;
+  /** Select a pathway and render it. */
+  onOpenPathway: (pathwayId: string) => void;
+  /** The latest scores (null when cleared), for the enrichment plot beside the map. */
+  onResult: (result: GseaResult | null) => void;
+}
+
+type SortKey = 'name' | 'size' | 'nes' | 'p' | 'fdr';
+
+const COLUMNS: { key: SortKey; label: string }[] = [
+  { key: 'name', label: 'Pathway' },
+  { key: 'size', label: 'Size' },
+  { key: 'nes', label: 'NES' },
+  { key: 'p', label: 'p' },
+  { key: 'fdr', label: 'FDR' },
+];
+
+const PERMUTATION_CHOICES = [100, 1000, 10000];
+// Sets outside this many ranked genes are too small to score or too broad to mean much.
+const MIN_SET_SIZE = 5;
+const MAX_SET_SIZE = 500;
+// Fixed so that rerunning the same table gives the same p-values.
+const SEED = 1;
+
+const compare = (key: SortKey) => (a: GseaRow, b: GseaRow): number =>
+  key === 'name' ? a.name.localeCompare(b.name) : key === 'nes' ? Math.abs(a.nes) - Math.abs(b.nes) : a[key] - b[key];
+
+// DESeq2's Wald statistic ranks better than log2FC (it folds in the standard error), so prefer it.
+const defaultMetric = (columns: string[], spec: ColumnSpec): string =>
+  columns.find((c) => c.toLowerCase() === 'stat') ?? spec.valueColumns.find((c) => columns.includes(c)) ?? columns[0] ?? '';
+
+/**
+ * "Rank-based scoring" under the enrichment panel: every uploaded gene ranked
+ * by one numeric column, a GSEA-style running-sum score per pathway of the
+ * species with permutation p-values, computed in a Web Worker. Rows open their
+ * pathway, whose enrichment plot then appears beside the map.
+ */
+export const GseaPanel: React.FC<Props> = ({ database, speciesId, pathways, table, spec, onOpenPathway, onResult }) => {
+  const columns = useMemo(() => numericColumns(table.headers, table.rows).filter((c) => c !== spec.idColumn), [table, spec.idColumn]);
+  const [metric, setMetric] = useState(() => defaultMetric(columns, spec));
+  const [permutations, setPermutations] = useState(1000);
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+  const [phase, setPhase] = useState<'idle' | 'fetching' | 'scoring'>('idle');
+  const [error, setError] = useState<string | null>(null);
+  const [result, setResult] = useState<GseaResult | null>(null);
+  const [sort, setSort] = useState<{ key: SortKey; desc: boolean }>({ key: 'p', desc: false });
+  const cancelRef = useRef<(() => void) | null>(null);
+
+  useEffect(() => {
+    if (!columns.includes(metric)) setMetric(defaultMetric(columns, spec));
+  }, [columns, spec, metric]);
+
+  const ranked = useMemo(() => rankGenes(table.headers, table.rows, spec.idColumn, metric), [table, spec.idColumn, metric]);
+
+  // Scores describe one species, table and ranking; drop them (and any run in flight) when one changes.
+  useEffect(() => {
+    cancelRef.current?.();
+    cancelRef.current = null;
+    setPhase('idle');
+    setProgress(null);
+    setResult(null);
+    setError(null);
+    onResult(null);
+  }, [database, speciesId, ranked, onResult]);
+
+  useEffect(() => () => cancelRef.current?.(), []);
+
+  const run = useCallback(async () => {
+    setError(null);
+    setProgress(null);
+    setPhase('fetching');
+    let cancelled = false;
+    cancelRef.current = () => { cancelled = true; };
+    try {
+      const sets = await fetchGeneSets(database, speciesId, pathways, ranked.map((g) => g.id));
+      if (cancelled) return;
+      setPhase('scoring');
+      const job = runGseaInWorker(
+        {
+          ranked,
+          sets: sets.map((s) => ({ id: s.id, name: s.name, members: Array.from(s.members) })),
+          permutations,
+          minSize: MIN_SET_SIZE,
+          maxSize: MAX_SET_SIZE,
+          seed: SEED,
+        },
+        metric,
+        (done, total) => setProgress({ done, total })
+      );
+      cancelRef.current = () => { cancelled = true; job.cancel(); };
+      const scored = await job.promise;
+      setResult(scored);
+      onResult(scored);
+    } catch (e) {
+      if (!cancelled) setError(e instanceof Error ? e.message : 'Gene-set scoring failed.');
+    } finally {
+      if (!cancelled) {
+        cancelRef.current = null;
+        setPhase('idle');
+      }
+    }
+  }, [database, speciesId, pathways, ranked, permutations, metric, onResult]);
+
+  const cancel = useCallback(() => {
+    cancelRef.current?.();
+    cancelRef.current = null;
+    setPhase('idle');
+    setProgress(null);
+  }, []);
+
+  const rows = useMemo(() => {
+    if (!result) return [];
+    const cmp = compare(sort.key);
+    return [...result.rows].sort((a, b) => (sort.desc ? -cmp(a, b) : cmp(a, b)));
+  }, [result, sort]);
+
+  const running = phase !== 'idle';
+
+  return (
+    <details className="bg-gray-800/60 rounded-lg text-xs text-gray-300">
+      <summary className="cursor-pointer px-3 py-2 font-medium text-gray-200">Rank-based scoring (GSEA)</summary>
+      <div className="px-3 pb-3 space-y-2">
+        <div className="grid grid-cols-2 gap-2">
+          <label className="block">
+            <span className="text-gray-400">Rank by</span>
+            <select value={metric} onChange={(e) => setMetric(e.target.value)} disabled={running} className="mt-1 block w-full bg-gray-700 border-gray-600 rounded-md py-1 px-2 text-xs">
+              {columns.map((c) => <option key={c} value={c}>{c}</option>)}
+            </select>
+          </label>
+          <label className="block">
+            <span className="text-gray-400">Permutations</span>
+            <select value={permutations} onChange={(e) => setPermutations(Number(e.target.value))} disabled={running} className="mt-1 block w-full bg-gray-700 border-gray-600 rounded-md py-1 px-2 text-xs">
+              {PERMUTATION_CHOICES.map((n) => <option key={n} value={n}>{n.toLocaleString()}</option>)}
+            </select>
+          </label>
+        </div>
+        <p className="text-gray-400">
+          {ranked.length.toLocaleString()} genes ranked by {metric || '—'}; pathways with {MIN_SET_SIZE}–{MAX_SET_SIZE} of them are scored.
+        </p>
+        <div className="flex items-center gap-2">
+          <button
+            type="button"
+            onClick={run}
+            disabled={running || !pathways.length || ranked.length <= MIN_SET_SIZE}
+            className="px-3 py-1 rounded bg-cyan-700 hover:bg-cyan-600 text-white disabled:bg-gray-600 disabled:cursor-not-allowed"
+          >
+            {phase === 'fetching' ? 'Fetching gene sets…' : phase === 'scoring' ? 'Scoring…' : 'Run scoring'}
+          </button>
+          {running && (
+            <button type="button" onClick={cancel} className="px-3 py-1 rounded bg-gray-700 hover:bg-gray-600 text-gray-200">Cancel</button>
+          )}
+        </div>
+        {phase === 'scoring' && progress && progress.total > 0 && (
+          <progress className="w-full h-1.5 accent-cyan-500" value={progress.done} max={progress.total} aria-label="Scoring progress" />
+        )}
+        {error && <p className="text-red-400" role="alert">{error}</p>}
+        {result && (
+          <>
+            <p className="text-gray-400" aria-live="polite">
+              {result.rows.length.toLocaleString()} pathways scored · {result.permutations.toLocaleString()} permutations · ranked by {result.metric}.
+            </p>
+            <div className="max-h-72 overflow-auto border border-gray-700 rounded">
+              <table className="min-w-full text-[11px]">
+                <thead className="bg-gray-800 text-gray-400 sticky top-0">
+                  <tr>
+                    {COLUMNS.map(({ key, label }) => (
+                      <th key={key} scope="col" aria-sort={sort.key === key ? (sort.desc ? 'descending' : 'ascending') : 'none'} className={`px-2 py-1 whitespace-nowrap ${key === 'name' ? 'text-left' : 'text-right'}`}>
+                        <button type="button" onClick={() => setSort((s) => ({ key, desc: s.key === key ? !s.desc : key === 'nes' || key === 'size' }))} className="hover:text-gray-200">
+                          {label}{sort.key === key ? (sort.desc ? ' ↓' : ' ↑') : ''}
+                        </button>
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {rows.map((r) => (
+                    <tr key={r.id} className={`border-t border-gray-800 ${r.fdr <= 0.25 ? 'text-gray-100' : 'text-gray-400'}`}>
+                      <td className="px-2 py-0.5 max-w-[11rem]">
+                        <button type="button" onClick={() => onOpenPathway(r.id)} title={`Open ${r.name}\nLeading edge: ${r.leadingEdge.join(', ')}`} className="block w-full truncate text-left text-cyan-300 hover:text-cyan-200 hover:underline">
+                          {r.name}
+                        </button>
+                      </td>
+                      <td className="px-2 py-0.5 text-right">{r.size}</td>
+                      <td className={`px-2 py-0.5 text-right ${r.nes > 0 ? 'text-red-300' : 'text-blue-300'}`}>{fmtNum(r.nes)}</td>
+                      <td className="px-2 py-0.5 text-right whitespace-nowrap">{fmtNum(r.p)}</td>
+                      <td className="px-2 py-0.5 text-right whitespace-nowrap">{fmtNum(r.fdr)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </>
+        )}
+      </div>
+    </details>
+  );
+};
@@ -35,12 +35,12 @@ export const HelpModal: React.FC<HelpModalProps> = ({ isVisible, onClose }) => {
                 <h3 className="text-xl font-semibold text-cyan-500 mb-2">Step-by-Step Guide</h3>
                 <ol className="list-decimal list-inside space-y-2">
                     <li><strong>Upload Data:</strong> Click "Upload a file" to provide your gene and optional compound data. You can also load a sample dataset to get started quickly.</li>
-                    <li><strong>Select Pathway Source:</strong> Choose <strong>Reactome</strong> (real SBGN export) or <strong>KEGG</strong> (the pathway's KGML, rendered directly) and the app fetches the map for you, or choose <strong>Custom SBGN File</strong> to upload your own <code>.sbgn</code> map (exported from Newt, Reactome, VANTED, CySBGN, etc.).</li>
+                    <li><strong>Select Pathway Source:</strong> Choose <strong>Reactome</strong> (real SBGN export) or <strong>KEGG</strong> (the pathway's KGML, rendered directly) and the app fetches the map for you, or choose <strong>Custom SBGN File</strong> to upload your own <code>.sbgn</code> map (exported from Newt, Reactome, VANTED, CySBGN, etc.) or open a bundled PD, AF or ER example map.</li>
                     <li><strong>Select Species & Pathway:</strong> For Reactome and KEGG, select the species and then the specific pathway. Pathways that contain genes from your uploaded data are grouped at the top of the list for easy identification.</li>
                     <li><strong>Configure Data Type:</strong> Specify whether your data represents 'Normalized Counts' / 'Abundance' or 'Log2 Fold Change' to choose the correct color scale (sequential vs. divergent).</li>
                     <li><strong>Customize Appearance:</strong> Adjust the font size, default glyph color, and arc styling to fine-tune the map.</li>
                     <li><strong>Generate:</strong> Click <strong>Generate Pathway Map</strong>. The map is rendered deterministically in your browser from the SBGN/KGML geometry — no API key, no AI service. Your values are matched to node labels and colored by the legend's scale. Or click <strong>Try offline demo</strong> to render a bundled example with no network at all.</li>
-                    <li><strong>Explore & Download:</strong> Pan, zoom, and hover over colored nodes to see their data. Use the search box to highlight a node, and click "Download SVG" to save a publication-ready, fully vector map.</li>
+                    <li><strong>Explore & Download:</strong> Pan, zoom, and hover over colored nodes to see their data. In SBGN files with several maps, pick one from the <strong>Map</strong> selector above the viewer, or click a submap to open it (the breadcrumb leads back). Use the search box to highlight a node, and click "Download SVG" to save a publication-ready, fully vector map. For SBGN maps, "Download SBGN-ML" saves the map with your data's colors and values written in, to keep editing in Newt or SBGNViz.</li>
                 </ol>
             </section>
             
@@ -0,0 +1,40 @@
+import React from 'react';
+import { type ImpactReport } from '../services/impact';
+import { fmtNum } from '../services/overlay';
+
+interface Props {
+  report: ImpactReport;
+}
+
+// Genes listed under the score; the rest are in the tooltips.
+const TOP_GENES = 5;
+
+/**
+ * One line under the map in impact mode: the pathway's net accumulated
+ * perturbation and its permutation p-value, what the propagation ran on, and
+ * the genes most perturbed from upstream. Shows the reason instead when the
+ * analysis could not run.
+ */
+export const ImpactSummary: React.FC<Props> = ({ report }) => {
+  if (report.reason) {
+    return <p className="mt-2 text-xs text-amber-300" role="status">Pathway impact: {report.reason}</p>;
+  }
+  const top = report.nodes.filter((n) => n.acc !== 0).slice(0, TOP_GENES);
+  const direction = report.total > 0 ? 'activated' : report.total < 0 ? 'inhibited' : 'unchanged';
+  return (
+    <div className="mt-2 text-xs text-gray-400" role="status">
+      <p>
+        <span className="font-medium text-gray-200">Pathway impact:</span>{' '}
+        tA {fmtNum(report.total)} (<span className={report.total > 0 ? 'text-red-300' : report.total < 0 ? 'text-blue-300' : ''}>{direction}</span>)
+        {report.measured > 0 && <> · p {fmtNum(report.p)} over {report.permutations.toLocaleString()} permutations</>}
+        {' '}· {report.measured} significant of {report.nodes.length} genes · {report.edges} signed edges
+      </p>
+      {top.length > 0 && (
+        <p className="mt-0.5">
+          Most perturbed from upstream: {top.map((n) => `${n.label} ${n.acc > 0 ? '+' : ''}${fmtNum(n.acc)}`).join(', ')}
+        </p>
+      )}
+      {report.measured === 0 && <p className="mt-0.5">No gene on this map passes the significance cutoffs, so nothing propagates.</p>}
+    </div>
+  );
+};
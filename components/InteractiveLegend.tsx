@@ -0,0 +1,181 @@
+import React, { useRef } from 'react';
+import { type LegendLayer, type LegendModel, fmtNum } from '../services/overlay';
+import { type LayerView, DEFAULT_LAYER_VIEW } from '../services/legendView';
+import { rescaleColorScale } from '../services/colorScales';
+import { type MappingReport } from '../services/mappingReport';
+
+type LayerKind = LegendLayer['kind'];
+
+interface Props {
+  model: LegendModel;
+  /** For the "M of N uploaded ids" count. */
+  report: MappingReport | null;
+  views: Partial<Record<LayerKind, LayerView>>;
+  onViewChange: (kind: LayerKind, view: LayerView) => void;
+  /** Store a dragged domain as the scale's fixed domain, so the next render (and export) uses it. */
+  onApplyDomain: (kind: LayerKind, domain: [number, number]) => void;
+}
+
+const BAR_W = 220;
+const BAR_H = 36;
+const BINS = 24;
+const LAYER_NAMES: Record<LayerKind, string> = { gene: 'Genes', compound: 'Compounds' };
+
+// Three significant digits keep dragged ends readable in the legend and the scale settings.
+const tidy = (v: number): number => Number(v.toPrecision(3));
+
+// Distinct uploaded ids some glyph matched, and all uploaded ids, of one kind.
+const uploadCounts = (report: MappingReport | null, kind: LayerKind): { mapped: number; uploaded: number } | null => {
+  if (!report) return null;
+  const mapped = new Set(report.rows.filter((r) => r.kind === kind).flatMap((r) => r.uploaded));
+  const unmatched = new Set(report.unmatched.filter((u) => u.kind === kind && !mapped.has(u.uploaded)).map((u) => u.uploaded));
+  return { mapped: mapped.size, uploaded: mapped.size + unmatched.size };
+};
+
+interface ScaleBarProps {
+  layer: LegendLayer;
+  domain: [number, number];
+  onDomain: (domain: [number, number]) => void;
+}
+
+/**
+ * The gradient of one numeric layer with a histogram of its mapped values in
+ * front and a handle at each domain end. The axis spans the data and the
+ * rendered domain, so either end can be dragged inward to re-saturate colors or
+ * outward to soften them.
+ */
+const ScaleBar: React.FC<ScaleBarProps> = ({ layer, domain, onDomain }) => {
+  const svgRef = useRef<SVGSVGElement>(null);
+  const { scale, values } = layer;
+  const lo = values.reduce((m, v) => Math.min(m, v), scale.domainMin);
+  const hi = values.reduce((m, v) => Math.max(m, v), scale.domainMax);
+  const span = hi > lo ? hi - lo : 1;
+  const xOf = (v: number) => ((v - lo) / span) * BAR_W;
+  const valueAt = (clientX: number): number => {
+    const box = svgRef.current?.getBoundingClientRect();
+    const t = box && box.width > 0 ? (clientX - box.left) / box.width : 0;
+    return tidy(lo + Math.max(0, Math.min(1, t)) * span);
+  };
+  const live = rescaleColorScale(scale, domain[0], domain[1]);
+
+  const counts = new Array<number>(BINS).fill(0);
+  values.forEach((v) => { counts[Math.min(BINS - 1, Math.floor(((v - lo) / span) * BINS))]++; });
+  const peak = counts.reduce((m, c) => Math.max(m, c), 1);
+  const binW = BAR_W / BINS;
+
+  // Each end stays on its side of the other, a hair apart.
+  const setEnd = (end: 0 | 1, v: number) => {
+    const gap = span / 200;
+    onDomain(end === 0 ? [Math.min(v, domain[1] - gap), domain[1]] : [domain[0], Math.max(v, domain[0] + gap)]);
+  };
+  const drag = (end: 0 | 1) => (e: React.PointerEvent) => {
+    e.preventDefault();
+    const move = (ev: PointerEvent) => setEnd(end, valueAt(ev.clientX));
+    const up = () => {
+      window.removeEventListener('pointermove', move);
+      window.removeEventListener('pointerup', up);
+    };
+    window.addEventListener('pointermove', move);
+    window.addEventListener('pointerup', up);
+  };
+  // Arrow keys nudge an end by 1% of the axis, 10% with Shift.
+  const keys = (end: 0 | 1) => (e: React.KeyboardEvent) => {
+    const dir = e.key === 'ArrowLeft' || e.key === 'ArrowDown' ? -1 : e.key === 'ArrowRight' || e.key === 'ArrowUp' ? 1 : 0;
+    if (!dir) return;
+    e.preventDefault();
+    setEnd(end, tidy(domain[end] + dir * (e.shiftKey ? span / 10 : span / 100)));
+  };
+
+  return (
+    <div>
+      <svg ref={svgRef} viewBox={`-6 0 ${BAR_W + 12} ${BAR_H + 10}`} className="w-full select-none touch-none">
+        {counts.map((_, i) => {
+          const mid = lo + ((i + 0.5) / BINS) * span;
+          return <rect key={`g${i}`} x={i * binW} y={0} width={binW + 0.5} height={BAR_H} fill={live.color(mid) ?? '#6b7280'} opacity={0.35} />;
+        })}
+        {counts.map((c, i) => {
+          const h = (c / peak) * (BAR_H - 4);
+          const mid = lo + ((i + 0.5) / BINS) * span;
+          return c > 0 && <rect key={`h${i}`} x={i * binW + 0.5} y={BAR_H - h} width={binW - 1} height={h} fill={live.color(mid) ?? '#6b7280'} stroke="#111827" strokeWidth={0.5} />;
+        })}
+        {([0, 1] as const).map((end) => {
+          const x = xOf(domain[end]);
+          return (
+            <g
+              key={end}
+              role="slider"
+              tabIndex={0}
+              aria-label={`${LAYER_NAMES[layer.kind]} color range ${end === 0 ? 'minimum' : 'maximum'}`}
+              aria-valuemin={tidy(lo)}
+              aria-valuemax={tidy(hi)}
+              aria-valuenow={domain[end]}
+              onPointerDown={drag(end)}
+              onKeyDown={keys(end)}
+              className="cursor-ew-resize"
+            >
+              <line x1={x} x2={x} y1={0} y2={BAR_H} stroke="#f9fafb" strokeWidth={1.5} />
+              <path d={`M${x - 5},${BAR_H + 9} L${x + 5},${BAR_H + 9} L${x},${BAR_H + 1} Z`} fill="#f9fafb" stroke="#111827" strokeWidth={1} />
+              <rect x={x - 7} y={0} width={14} height={BAR_H + 10} fill="transparent" />
+            </g>
+          );
+        })}
+      </svg>
+      <div className="flex justify-between text-[11px] text-gray-400">
+        <span>{fmtNum(domain[0])}</span>
+        <span className="text-gray-500">{values.length} values</span>
+        <span>{fmtNum(domain[1])}</span>
+      </div>
+    </div>
+  );
+};
+
+/**
+ * Legend over the map viewer: toggle the gene and compound layers, drag each
+ * numeric scale's ends to re-saturate the colors live over a histogram of the
+ * mapped values, and see how many uploaded ids landed on the map. The map's
+ * own SVG legend stays in downloads.
+ */
+export const InteractiveLegend: React.FC<Props> = ({ model, report, views, onViewChange, onApplyDomain }) => (
+  <div className="w-64 p-3 space-y-3 bg-gray-800/90 border border-gray-600 rounded-lg shadow-lg text-xs text-gray-300" aria-label="Map legend">
+    {model.layers.map((layer) => {
+      const view = views[layer.kind] ?? DEFAULT_LAYER_VIEW;
+      const { scale } = layer;
+      const domain: [number, number] = view.domain ?? [scale.domainMin, scale.domainMax];
+      const ids = uploadCounts(report, layer.kind);
+      const set = (patch: Partial<LayerView>) => onViewChange(layer.kind, { ...view, ...patch });
+      return (
+        <section key={layer.kind} className="space-y-1">
+          <label className="flex items-center gap-2 font-medium text-gray-200">
+            <input type="checkbox" className="accent-cyan-500" checked={view.visible} onChange={(e) => set({ visible: e.target.checked })} />
+            {LAYER_NAMES[layer.kind]} <span className="font-normal text-gray-400 truncate">— {scale.label}</span>
+          </label>
+          <p className="text-gray-400">
+            {layer.glyphs.toLocaleString()} glyphs colored
+            {ids && ` · ${ids.mapped.toLocaleString()} of ${ids.uploaded.toLocaleString()} uploaded ids on this map`}
+          </p>
+          {view.visible && (scale.categories ? (
+            <ul className="space-y-0.5">
+              {scale.categories.map((c, i) => (
+                <li key={c.name} className="flex items-center gap-2">
+                  <span className="inline-block w-4 h-2.5 rounded-sm border border-gray-500" style={{ background: c.color }} />
+                  <span className="truncate" title={c.name}>{c.name}</span>
+                  <span className="ml-auto text-gray-500">{layer.values.filter((v) => v === i).length}</span>
+                </li>
+              ))}
+            </ul>
+          ) : (
+            <>
+              <ScaleBar layer={layer} domain={domain} onDomain={(d) => set({ domain: d })} />
+              {view.domain && (
+                <div className="flex gap-2">
+                  <button type="button" onClick={() => set({ domain: null })} className="px-2 py-0.5 rounded bg-gray-700 hover:bg-gray-600 text-gray-200">Reset</button>
+                  <button type="button" onClick={() => onApplyDomain(layer.kind, domain)} title="Apply as the fixed color domain now; the map redraws with it and downloads keep it" className="px-2 py-0.5 rounded bg-cyan-700 hover:bg-cyan-600 text-white">Keep range</button>
+                </div>
+              )}
+            </>
+          ))}
+        </section>
+      );
+    })}
+  </div>
+);
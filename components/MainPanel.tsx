@@ -5,6 +5,21 @@ import { ZoomOutIcon } from './icons/ZoomOutIcon';
 import { ResetIcon } from './icons/ResetIcon';
 import { SearchIcon } from './icons/SearchIcon';
 import type { ParsedData } from '../App';
+import { type LegendModel, type OverlayColumns, fmtNum, xmlEscape } from '../services/overlay';
+import { type ConversionReport, describeConversion } from '../services/idCrosswalk';
+import { type MappingReport } from '../services/mappingReport';
+import { MEMBER_AGGREGATION_LABELS } from '../services/aggregation';
+import { type MemberAggregation } from '../types';
+import { type LayerView, applyLegendView } from '../services/legendView';
+import { type GseaResult } from '../services/gsea';
+import { type ImpactReport } from '../services/impact';
+import { type SbgnExport, exportSbgnMl } from '../services/sbgnExport';
+import { type SbgnMapRef } from '../services/pathwayModel';
+import { MappingReportPanel } from './MappingReportPanel';
+import { InteractiveLegend } from './InteractiveLegend';
+import { EnrichmentPlot } from './EnrichmentPlot';
+import { ImpactSummary } from './ImpactSummary';
+import { MapNavigator } from './MapNavigator';
 
 interface MainPanelProps {
   isLoading: boolean;
@@ -12,6 +27,32 @@ interface MainPanelProps {
   pathwaySvg: string | null;
   parsedGeneData: ParsedData;
   parsedCompoundData: ParsedData;
+  /** Column specs the overlay used; sliced specs get a per-slice tooltip list. */
+  overlayColumns: OverlayColumns;
+  /** Gene id conversion applied before the overlay (shown under the map). */
+  idConversion: ConversionReport | null;
+  /** Per-glyph match audit for the current map (table + CSV under the map). */
+  mappingReport: MappingReport | null;
+  /** Scales and matched values behind the map, for the interactive legend. */
+  legend: LegendModel | null;
+  /** Keep a range dragged in the legend as that scale's fixed domain. */
+  onApplyDomain: (kind: 'gene' | 'compound', domain: [number, number]) => void;
+  /** Impact overlay mode's pathway score (summarized under the map); null in values mode. */
+  impact: ImpactReport | null;
+  /** SBGN maps: what "Download SBGN-ML" writes the overlay into; null for KEGG maps. */
+  sbgnExport: SbgnExport | null;
+  /** Rank-based pathway scores; the map's pathway gets an enrichment plot beside it. */
+  gsea: GseaResult | null;
+  /** Id of the pathway on the map (null for a custom file or the demo). */
+  pathwayId: string | null;
+  /** Identity of the drawn pathway; zoom and search reset when it changes, not on every redraw. */
+  mapKey: string | null;
+  /** The maps in the drawn SBGN-ML file; a picker and submap links appear when there are several. */
+  maps: SbgnMapRef[];
+  /** Map ids from the picked map down to the submap on screen. */
+  mapTrail: string[];
+  /** Draw the last map of this trail. */
+  onOpenMap: (trail: string[]) => void;
 }
 
 interface TooltipState {
@@ -43,14 +84,58 @@ const Placeholder: React.FC = () => (
 
 const SVG_VIEWER_CONTROLS_CLASS = "bg-gray-700 text-white hover:bg-cyan-600 font-bold p-2 rounded-lg shadow-lg transition-colors disabled:bg-gray-600 disabled:cursor-not-allowed";
 const HIGHLIGHT_CLASS = 'highlighted-glyph';
+// Set on the viewer while the interactive legend stands in for the map's own.
+const LIVE_LEGEND_CLASS = 'live-legend';
 
-export const MainPanel: React.FC<MainPanelProps> = ({ isLoading, error, pathwaySvg, parsedGeneData, parsedCompoundData }) => {
+const saveFile = (content: string, type: string, filename: string) => {
+    const blob = new Blob([content], { type });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = filename;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+};
+
+// Member values of a complex / multi-gene box ("KEY=value|KEY=value").
+const membersHtml = (members: string, rule: string | null): string => {
+    const items = members.split('|').map((m) => {
+        const at = m.lastIndexOf('=');
+        return `<li>${xmlEscape(m.slice(0, at))}: ${xmlEscape(m.slice(at + 1))}</li>`;
+    });
+    const how = MEMBER_AGGREGATION_LABELS[rule as MemberAggregation] ?? '';
+    return `<h3>${items.length} members</h3>${how ? `<p><em>${how}</em></p>` : ''}<ul class="list-disc list-inside">${items.join('')}</ul>`;
+};
+
+// Slice values in glyph order (left to right), ahead of the full record.
+const slicesHtml = (data: Record<string, string>, columns: string[]): string =>
+    `<p><strong>Slices (left → right):</strong></p><ol class="list-decimal list-inside">` +
+    columns.map((col) => `<li>${xmlEscape(col)}: ${xmlEscape(data[col] ?? 'NA')}</li>`).join('') +
+    `</ol>`;
+
+// Impact mode: the glyph's perturbation factor and how much of it came from upstream ("pf|acc").
+const impactHtml = (attr: string | null): string => {
+    if (!attr) return '';
+    const [pf, acc] = attr.split('|').map(Number);
+    return `<p><strong>Perturbation factor:</strong> ${fmtNum(pf)}${acc ? ` (${acc > 0 ? '+' : ''}${fmtNum(acc)} from upstream)` : ''}</p>`;
+};
+
+export const MainPanel: React.FC<MainPanelProps> = ({ isLoading, error, pathwaySvg, parsedGeneData, parsedCompoundData, overlayColumns, idConversion, mappingReport, legend, onApplyDomain, impact, sbgnExport, gsea, pathwayId, mapKey, maps, mapTrail, onOpenMap }) => {
     const svgContainerRef = useRef<HTMLDivElement>(null);
     const [transform, setTransform] = useState({ scale: 1, x: 0, y: 0 });
     const [isPanning, setIsPanning] = useState(false);
     const [startPoint, setStartPoint] = useState({ x: 0, y: 0 });
+    // Where the last press started, so a drag that ends on a submap doesn't open it.
+    const pressRef = useRef({ x: 0, y: 0 });
     const [searchTerm, setSearchTerm] = useState('');
     const [tooltip, setTooltip] = useState<TooltipState | null>(null);
+    const [layerViews, setLayerViews] = useState<Partial<Record<'gene' | 'compound', LayerView>>>({});
+    const [exportError, setExportError] = useState<string | null>(null);
+    const hasLegend = !!legend && legend.layers.length > 0;
+    const hasMapNavigator = !!pathwaySvg && maps.length > 1;
+    const gseaRow = gsea && pathwayId ? gsea.rows.find(r => r.id === pathwayId) ?? null : null;
 
     const resetTransform = useCallback(() => {
         setTransform({ scale: 1, x: 0, y: 0 });
@@ -59,7 +144,22 @@ export const MainPanel: React.FC<MainPanelProps> = ({ isLoading, error, pathwayS
     useEffect(() => {
         resetTransform();
         setSearchTerm('');
-    }, [pathwaySvg, resetTransform]);
+    }, [mapKey, resetTransform]);
+
+    useEffect(() => {
+        setLayerViews({});
+    }, [pathwaySvg]);
+
+    useEffect(() => {
+        setExportError(null);
+    }, [sbgnExport]);
+
+    // Layer toggles and dragged domains edit the displayed map in place; the
+    // SVG string behind downloads is untouched.
+    useEffect(() => {
+        if (!pathwaySvg || isLoading || !legend || !svgContainerRef.current) return;
+        applyLegendView(svgContainerRef.current, legend, layerViews);
+    }, [pathwaySvg, isLoading, legend, layerViews]);
 
     // Effect to handle highlighting based on search term
     useEffect(() => {
@@ -84,17 +184,21 @@ export const MainPanel: React.FC<MainPanelProps> = ({ isLoading, error, pathwayS
 
     const downloadSvg = useCallback(() => {
         if (!pathwaySvg) return;
-        const blob = new Blob([pathwaySvg], { type: 'image/svg+xml' });
-        const url = URL.createObjectURL(blob);
-        const a = document.createElement('a');
-        a.href = url;
-        a.download = 'pathway_visualization.svg';
-        document.body.appendChild(a);
-        a.click();
-        document.body.removeChild(a);
-        URL.revokeObjectURL(url);
+        saveFile(pathwaySvg, 'image/svg+xml', 'pathway_visualization.svg');
     }, [pathwaySvg]);
 
+    // The source map with the overlay's colors and values written in, for SBGN editors.
+    const downloadSbgnMl = useCallback(() => {
+        if (!sbgnExport) return;
+        try {
+            saveFile(exportSbgnMl(sbgnExport), 'application/xml', 'pathway_visualization.sbgn');
+            setExportError(null);
+        } catch (err) {
+            console.error('SBGN-ML export failed:', err);
+            setExportError(err instanceof Error ? err.message : 'This map could not be exported as SBGN-ML.');
+        }
+    }, [sbgnExport]);
+
     const handleWheel = (e: React.WheelEvent) => {
         e.preventDefault();
         const scaleAmount = -e.deltaY * 0.001;
@@ -106,6 +210,17 @@ export const MainPanel: React.FC<MainPanelProps> = ({ isLoading, error, pathwayS
         if ((e.target as HTMLElement).closest('.controls, .search-bar')) return;
         setIsPanning(true);
         setStartPoint({ x: e.clientX - transform.x, y: e.clientY - transform.y });
+        pressRef.current = { x: e.clientX, y: e.clientY };
+    };
+
+    // A submap glyph opens the map it stands for, one level further down the trail
+    // (or back up to it, if it is already on the trail).
+    const handleMapClick = (e: React.MouseEvent) => {
+        if (Math.hypot(e.clientX - pressRef.current.x, e.clientY - pressRef.current.y) > 4) return;
+        const id = (e.target as Element).closest('[data-sbgn-submap]')?.getAttribute('data-sbgn-submap');
+        if (!id) return;
+        const at = mapTrail.indexOf(id);
+        onOpenMap(at >= 0 ? mapTrail.slice(0, at + 1) : [...mapTrail, id]);
     };
 
     const handleMouseMove = (e: React.MouseEvent) => {
@@ -129,15 +244,27 @@ export const MainPanel: React.FC<MainPanelProps> = ({ isLoading, error, pathwayS
                 const identifier = glyphGroup.getAttribute('data-omics-id') || glyphGroup.id.split('-').slice(2).join('-');
                 const dataMap = type === 'gene' ? parsedGeneData : parsedCompoundData;
                 const data = dataMap.get(identifier);
+                const members = glyphGroup.getAttribute('data-omics-members');
+                const impactNote = impactHtml(glyphGroup.getAttribute('data-omics-impact'));
 
-                if (data) {
+                if (members) {
+                    setTooltip({ content: membersHtml(members, glyphGroup.getAttribute('data-omics-member-rule')) + impactNote, x: e.clientX, y: e.clientY });
+                } else if (data) {
+                    const spec = type === 'gene' ? overlayColumns.gene : overlayColumns.compound;
+                    const slices = spec?.sliced && spec.valueColumns.length > 1 ? slicesHtml(data, spec.valueColumns) : '';
+                    const rows = glyphGroup.getAttribute('data-omics-rows');
+                    const collapsed = rows ? `<p><em>${rows} rows aggregated by ${glyphGroup.getAttribute('data-omics-aggregation')}</em></p>` : '';
+                    const clamped = glyphGroup.getAttribute('data-omics-clamped');
+                    const clampNote = clamped ? `<p><em>${clamped === 'high' ? 'Above' : 'Below'} the color range; shown in the end color</em></p>` : '';
                     const content = Object.entries(data).map(([key, value]) => `<strong>${key}:</strong> ${value}`).join('<br />');
-                    setTooltip({ content: `<h3>${identifier}</h3>${content}`, x: e.clientX, y: e.clientY });
+                    setTooltip({ content: `<h3>${identifier}</h3>${impactNote}${collapsed}${clampNote}${slices}${content}`, x: e.clientX, y: e.clientY });
                 } else {
-                     setTooltip({ content: `<h3>${identifier}</h3><p>No data found</p>`, x: e.clientX, y: e.clientY });
+                     setTooltip({ content: `<h3>${identifier}</h3>${impactNote || '<p>No data found</p>'}`, x: e.clientX, y: e.clientY });
                 }
             } else {
-                setTooltip(null);
+                const submap = (e.target as Element).closest('[data-sbgn-submap]')?.getAttribute('data-sbgn-submap');
+                const title = submap ? maps.find(m => m.id === submap)?.title ?? submap : null;
+                setTooltip(title ? { content: `<h3>${xmlEscape(title)}</h3><p>Click to open this submap</p>`, x: e.clientX, y: e.clientY } : null);
             }
             return;
         }
@@ -158,6 +285,7 @@ export const MainPanel: React.FC<MainPanelProps> = ({ isLoading, error, pathwayS
     return (
         <main id="main-content" className="flex-1 p-6 bg-gray-900 flex flex-col relative" aria-label="Pathway map">
             <style>{`.${HIGHLIGHT_CLASS} { stroke: #fde047 !important; stroke-width: 5px !important; stroke-opacity: 0.8; }
+            .${LIVE_LEGEND_CLASS} .omics-legend { display: none; }
             @media (prefers-reduced-motion: reduce) { .spinner { animation: none !important; } }`}</style>
 
             {tooltip && (
@@ -190,6 +318,15 @@ export const MainPanel: React.FC<MainPanelProps> = ({ isLoading, error, pathwayS
                         <DownloadIcon className="w-5 h-5 mr-2"/>
                         <span>Download SVG</span>
                     </button>
+                    {sbgnExport && (
+                        <button
+                            onClick={downloadSbgnMl}
+                            title="The map as SBGN-ML with the overlay's colors and values, for Newt, SBGNViz and other SBGN editors"
+                            className="bg-cyan-600 text-white hover:bg-cyan-700 font-bold py-2 px-4 rounded-lg inline-flex items-center shadow-lg transition-colors">
+                            <DownloadIcon className="w-5 h-5 mr-2"/>
+                            <span>Download SBGN-ML</span>
+                        </button>
+                    )}
                     <div className="bg-gray-800/50 p-1 rounded-lg flex flex-col space-y-1">
                         <button onClick={() => zoom('in')} className={SVG_VIEWER_CONTROLS_CLASS} aria-label="Zoom in">
                             <ZoomInIcon className="w-5 h-5"/>
@@ -201,11 +338,35 @@ export const MainPanel: React.FC<MainPanelProps> = ({ isLoading, error, pathwayS
                              <ResetIcon className="w-5 h-5"/>
                         </button>
                     </div>
+                    {!isLoading && gsea && gseaRow && (
+                        // Hangs below the controls without widening their column.
+                        <div className="absolute right-0 top-full">
+                            <EnrichmentPlot result={gsea} row={gseaRow} />
+                        </div>
+                    )}
+                </div>
+            )}
+            {pathwaySvg && !isLoading && hasLegend && legend && (
+                <div className={`absolute left-8 z-20 overflow-y-auto ${hasMapNavigator ? 'top-20 max-h-[calc(100%-6rem)]' : 'top-8 max-h-[calc(100%-4rem)]'}`}>
+                    <InteractiveLegend
+                        model={legend}
+                        report={mappingReport}
+                        views={layerViews}
+                        onViewChange={(kind, view) => setLayerViews(prev => ({ ...prev, [kind]: view }))}
+                        onApplyDomain={onApplyDomain}
+                    />
+                </div>
+            )}
+            {hasMapNavigator && (
+                // Clear of the viewer controls in the top-right corner.
+                <div className="pr-64">
+                    <MapNavigator maps={maps} trail={mapTrail} onOpen={onOpenMap} />
                 </div>
             )}
             <div className="flex-1 w-full h-full flex items-center justify-center bg-gray-800/50 border border-gray-700 rounded-lg overflow-hidden"
                 onWheel={handleWheel}
                 onMouseDown={handleMouseDown}
+                onClick={handleMapClick}
                 onMouseMove={handleMouseMove}
                 onMouseUp={handleMouseUpOrLeave}
                 onMouseLeave={handleMouseUpOrLeave}
@@ -226,12 +387,23 @@ export const MainPanel: React.FC<MainPanelProps> = ({ isLoading, error, pathwayS
                             <p>{error}</p>
                         </div>
                     )}
+                    {exportError && !isLoading && (
+                        <div role="alert" className="text-center text-red-400 bg-red-900/50 p-4 rounded-md">
+                            <h3 className="font-bold">SBGN-ML export failed</h3>
+                            <p>{exportError}</p>
+                        </div>
+                    )}
                     {!isLoading && !error && !pathwaySvg && <Placeholder />}
                     {pathwaySvg && !isLoading && (
-                        <div role="img" aria-label="Rendered pathway map with your data overlaid" dangerouslySetInnerHTML={{ __html: pathwaySvg }} className="w-full h-full [&>svg]:w-full [&>svg]:h-full" />
+                        <div role="img" aria-label="Rendered pathway map with your data overlaid" dangerouslySetInnerHTML={{ __html: pathwaySvg }} className={`w-full h-full [&>svg]:w-full [&>svg]:h-full ${hasLegend ? LIVE_LEGEND_CLASS : ''}`} />
                     )}
                 </div>
             </div>
+            {pathwaySvg && !isLoading && idConversion && (
+                <p className="mt-2 text-xs text-gray-400" role="status">{describeConversion(idConversion)}</p>
+            )}
+            {pathwaySvg && !isLoading && impact && <ImpactSummary report={impact} />}
+            {pathwaySvg && !isLoading && mappingReport && <MappingReportPanel report={mappingReport} />}
         </main>
     );
 };
\ No newline at end of file
@@ -0,0 +1,48 @@
+import React from 'react';
+import { type SbgnMapRef } from '../services/pathwayModel';
+
+interface Props {
+  maps: SbgnMapRef[];
+  /** Map ids from the one picked in the selector down to the one on screen. */
+  trail: string[];
+  /** Show the last map of this trail. */
+  onOpen: (trail: string[]) => void;
+}
+
+/**
+ * Above the map for multi-map SBGN-ML files: a picker over the file's maps, and
+ * the trail of submaps opened from the picked one. A crumb goes back up to
+ * that map.
+ */
+export const MapNavigator: React.FC<Props> = ({ maps, trail, onOpen }) => {
+  const title = (id: string) => maps.find((m) => m.id === id)?.title ?? id;
+  return (
+    <nav className="mb-2 flex flex-wrap items-center gap-x-2 gap-y-1 text-sm text-gray-300" aria-label="Maps in this file">
+      <label htmlFor="sbgnMap" className="text-gray-400">Map</label>
+      <select
+        id="sbgnMap"
+        value={trail[0] ?? ''}
+        onChange={(e) => onOpen([e.target.value])}
+        className="bg-gray-700 border border-gray-600 rounded-md py-1 px-2 text-white focus:outline-none focus:ring-2 focus:ring-cyan-500"
+      >
+        {maps.map((m) => <option key={m.id} value={m.id}>{m.title}</option>)}
+      </select>
+      {trail.length > 1 && (
+        <ol className="flex flex-wrap items-center gap-x-1" aria-label="Submap trail">
+          {trail.map((id, i) => (
+            <li key={`${i}:${id}`} className="flex items-center gap-x-1">
+              <span aria-hidden="true" className="text-gray-500">›</span>
+              {i === trail.length - 1 ? (
+                <span aria-current="page" className="font-medium text-white">{title(id)}</span>
+              ) : (
+                <button type="button" onClick={() => onOpen(trail.slice(0, i + 1))} className="text-cyan-400 hover:text-cyan-300 underline">
+                  {title(id)}
+                </button>
+              )}
+            </li>
+          ))}
+        </ol>
+      )}
+    </nav>
+  );
+};
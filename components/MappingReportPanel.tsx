@@ -0,0 +1,85 @@
+import React, { useCallback } from 'react';
+import { type MappingReport, mappingReportCsv } from '../services/mappingReport';
+import { type MatchMethod } from '../services/overlay';
+import { DownloadIcon } from './icons/DownloadIcon';
+
+interface Props {
+  report: MappingReport;
+}
+
+const METHOD_LABELS: Record<MatchMethod, string> = {
+  exact: 'Exact id',
+  token: 'Label word',
+  annotation: 'Annotation',
+  crosswalk: 'Crosswalk',
+  synonym: 'Synonym file',
+  propagated: 'Propagated',
+};
+
+/**
+ * "Mapping report" under the map: one row per matched glyph (which data row,
+ * which string hit, how, and what else it could have matched) and the uploaded
+ * identifiers that matched nothing, downloadable as CSV.
+ */
+export const MappingReportPanel: React.FC<Props> = ({ report }) => {
+  const { rows, unmatched } = report;
+
+  const downloadCsv = useCallback(() => {
+    const blob = new Blob([mappingReportCsv(report)], { type: 'text/csv' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = 'mapping_report.csv';
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+  }, [report]);
+
+  return (
+    <details className="mt-2 bg-gray-800/50 border border-gray-700 rounded-lg text-xs text-gray-300">
+      <summary className="cursor-pointer px-3 py-2 font-medium text-gray-200">
+        Mapping report — {rows.length.toLocaleString()} glyphs matched · {unmatched.length.toLocaleString()} uploaded ids unmatched
+      </summary>
+      <div className="px-3 pb-3 space-y-3">
+        <button onClick={downloadCsv} className="bg-cyan-600 text-white hover:bg-cyan-700 font-bold py-1 px-3 rounded-lg inline-flex items-center transition-colors">
+          <DownloadIcon className="w-4 h-4 mr-1" />
+          <span>Download CSV</span>
+        </button>
+        <div className="max-h-64 overflow-auto border border-gray-700 rounded">
+          <table className="min-w-full text-[11px]">
+            <thead className="bg-gray-800 text-gray-400 sticky top-0">
+              <tr>
+                {['Kind', 'Glyph', 'Label', 'Data id', 'Uploaded id', 'Matched on', 'Method', 'Also matches'].map((h) => (
+                  <th key={h} scope="col" className="px-2 py-1 text-left whitespace-nowrap">{h}</th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map((m, i) => (
+                <tr key={i} className="border-t border-gray-800">
+                  <td className="px-2 py-0.5 whitespace-nowrap">{m.kind}</td>
+                  <td className="px-2 py-0.5 whitespace-nowrap text-gray-400">{m.glyphId}</td>
+                  <td className="px-2 py-0.5 max-w-[16rem] truncate" title={m.label}>{m.label}</td>
+                  <td className="px-2 py-0.5 whitespace-nowrap">{m.key}</td>
+                  <td className="px-2 py-0.5 whitespace-nowrap">{m.uploaded.join(', ')}</td>
+                  <td className="px-2 py-0.5 whitespace-nowrap">{m.candidate}</td>
+                  <td className="px-2 py-0.5 whitespace-nowrap">{METHOD_LABELS[m.method]}</td>
+                  <td className={`px-2 py-0.5 whitespace-nowrap ${m.alternatives.length ? 'text-amber-300' : ''}`}>{m.alternatives.join(', ')}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+        {unmatched.length > 0 && (
+          <div>
+            <p className="font-medium text-gray-300">Uploaded ids not on this map</p>
+            <p className="mt-1 max-h-24 overflow-auto text-gray-400 break-words">
+              {unmatched.map((u) => u.uploaded).join(', ')}
+            </p>
+          </div>
+        )}
+      </div>
+    </details>
+  );
+};
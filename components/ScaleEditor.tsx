@@ -0,0 +1,130 @@
+import React from 'react';
+import { type PaletteId, type ScaleDomain, type ScaleSettings } from '../types';
+import { PALETTES, categoryColors } from '../services/colorScales';
+
+interface Props {
+  /** e.g. "gene" / "compound" — used for ids and labels. */
+  kind: string;
+  /** Fold-change tables get a zero-centered scale; changes which domain inputs make sense. */
+  foldChange: boolean;
+  /** Set for categorical tables: one color picker per category replaces palette and domain. */
+  categories?: string[];
+  settings: ScaleSettings;
+  onChange: (settings: ScaleSettings) => void;
+}
+
+const SELECT = 'mt-1 block w-full pl-3 pr-8 py-1.5 text-sm bg-gray-700 border-gray-600 rounded-md focus:outline-none focus:ring-cyan-500 focus:border-cyan-500';
+const NUMBER = 'mt-1 block w-full px-2 py-1 text-sm bg-gray-700 border border-gray-600 rounded-md focus:outline-none focus:ring-cyan-500 focus:border-cyan-500';
+const MAX_STOPS = 9;
+
+const DOMAIN_LABELS: Record<ScaleDomain, string> = {
+  data: 'Data range',
+  fixed: 'Fixed min / max',
+  symmetric: 'Symmetric ± limit',
+  quantile: 'Clip outliers (quantile)',
+};
+
+/**
+ * Palette and domain of one color scale: a preset or hand-picked stops, and
+ * where the ends sit (data range, fixed numbers, ± a limit, or a quantile).
+ * Categorical tables get a color per category instead.
+ */
+export const ScaleEditor: React.FC<Props> = ({ kind, foldChange, categories, settings, onChange }) => {
+  const set = <K extends keyof ScaleSettings>(key: K, value: ScaleSettings[K]) => onChange({ ...settings, [key]: value });
+  const setStop = (i: number, color: string) => set('customStops', settings.customStops.map((c, j) => (j === i ? color : c)));
+  const id = (field: string) => `${kind}Scale-${field}`;
+
+  if (categories) {
+    const colors = categoryColors(categories, settings.categoryColors);
+    return (
+      <details className="bg-gray-800/60 rounded-lg text-xs text-gray-300">
+        <summary className="cursor-pointer px-3 py-2 font-medium text-gray-200 capitalize">{kind} category colors</summary>
+        <div className="px-3 pb-3 space-y-1">
+          {categories.length === 0 && <p className="text-gray-500">No category labels in the chosen value columns.</p>}
+          {categories.map((c, i) => (
+            <label key={c} className="flex items-center gap-2">
+              <input type="color" value={colors[i]} onChange={(e) => set('categoryColors', { ...settings.categoryColors, [c]: e.target.value })} className="w-8 h-6 p-0.5 bg-gray-700 border border-gray-600 cursor-pointer rounded" />
+              <span className="truncate" title={c}>{c}</span>
+            </label>
+          ))}
+          {Object.keys(settings.categoryColors).length > 0 && (
+            <button type="button" onClick={() => set('categoryColors', {})} className="mt-1 px-2 py-0.5 rounded bg-gray-700 hover:bg-gray-600 text-gray-200">Reset colors</button>
+          )}
+        </div>
+      </details>
+    );
+  }
+
+  return (
+    <details className="bg-gray-800/60 rounded-lg text-xs text-gray-300">
+      <summary className="cursor-pointer px-3 py-2 font-medium text-gray-200 capitalize">{kind} color scale</summary>
+      <div className="px-3 pb-3 space-y-3">
+        <div>
+          <label htmlFor={id('palette')} className="block text-gray-400">Palette</label>
+          <select id={id('palette')} value={settings.palette} onChange={(e) => set('palette', e.target.value as PaletteId)} className={SELECT}>
+            {(Object.keys(PALETTES) as PaletteId[]).map((p) => (
+              <option key={p} value={p}>{PALETTES[p].label}</option>
+            ))}
+          </select>
+        </div>
+        {settings.palette === 'custom' && (
+          <div>
+            <span className="block text-gray-400">Stops, low → high</span>
+            <div className="mt-1 flex flex-wrap items-center gap-1">
+              {settings.customStops.map((c, i) => (
+                <span key={i} className="inline-flex items-center">
+                  <input type="color" aria-label={`Stop ${i + 1}`} value={c} onChange={(e) => setStop(i, e.target.value)} className="w-8 h-7 p-0.5 bg-gray-700 border border-gray-600 cursor-pointer rounded" />
+                  {settings.customStops.length > 2 && (
+                    <button type="button" aria-label={`Remove stop ${i + 1}`} onClick={() => set('customStops', settings.customStops.filter((_, j) => j !== i))} className="ml-0.5 text-gray-500 hover:text-red-400">×</button>
+                  )}
+                </span>
+              ))}
+              {settings.customStops.length < MAX_STOPS && (
+                <button type="button" onClick={() => set('customStops', [...settings.customStops, settings.customStops[settings.customStops.length - 1] ?? '#ffffff'])} className="px-2 py-0.5 rounded bg-gray-700 hover:bg-gray-600 text-gray-200">+ stop</button>
+              )}
+            </div>
+          </div>
+        )}
+        <div>
+          <label htmlFor={id('domain')} className="block text-gray-400">Domain</label>
+          <select id={id('domain')} value={settings.domain} onChange={(e) => set('domain', e.target.value as ScaleDomain)} className={SELECT}>
+            {(Object.keys(DOMAIN_LABELS) as ScaleDomain[]).map((d) => (
+              <option key={d} value={d}>{DOMAIN_LABELS[d]}</option>
+            ))}
+          </select>
+          {settings.domain === 'data' && (
+            <p className="mt-1 text-gray-500">{foldChange ? '± the largest |log2FC| on the map.' : 'Lowest to highest value.'}</p>
+          )}
+        </div>
+        {settings.domain === 'fixed' && (
+          <div className="grid grid-cols-2 gap-2">
+            <div>
+              <label htmlFor={id('min')} className="block text-gray-400">Min</label>
+              <input type="number" id={id('min')} step="any" value={settings.domainMin} onChange={(e) => set('domainMin', Number(e.target.value))} className={NUMBER} />
+            </div>
+            <div>
+              <label htmlFor={id('max')} className="block text-gray-400">Max</label>
+              <input type="number" id={id('max')} step="any" value={settings.domainMax} onChange={(e) => set('domainMax', Number(e.target.value))} className={NUMBER} />
+            </div>
+          </div>
+        )}
+        {settings.domain === 'symmetric' && (
+          <div>
+            <label htmlFor={id('limit')} className="block text-gray-400">Limit (±)</label>
+            <input type="number" id={id('limit')} min="0" step="any" value={settings.domainMax} onChange={(e) => set('domainMax', Number(e.target.value))} className={NUMBER} />
+          </div>
+        )}
+        {settings.domain === 'quantile' && (
+          <div>
+            <label htmlFor={id('quantile')} className="block text-gray-400">Clip beyond the {Math.round(settings.quantile * 100)}th percentile{foldChange ? ' of |log2FC|' : ` (low end: ${Math.round((1 - settings.quantile) * 100)}th)`}</label>
+            <input type="range" id={id('quantile')} min="0.5" max="1" step="0.01" value={settings.quantile} onChange={(e) => set('quantile', Number(e.target.value))} className="w-full h-2 bg-gray-600 rounded-lg appearance-none cursor-pointer accent-cyan-500" />
+          </div>
+        )}
+        <label htmlFor={id('clamp')} className="flex items-center gap-2 text-gray-300">
+          <input type="checkbox" id={id('clamp')} className="accent-cyan-500" checked={settings.clampMarkers} onChange={(e) => set('clampMarkers', e.target.checked)} />
+          Mark values beyond the domain (▲ / ▼)
+        </label>
+      </div>
+    </details>
+  );
+};
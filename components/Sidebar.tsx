@@ -1,11 +1,23 @@
 
 import React, { useState, useCallback, useEffect, useMemo } from 'react';
-import { type VisualizationConfig, type DataType, type Species, type Pathway, type CompoundDataType, type PathwayDatabase, type KeggRenderMode } from '../types';
+import { type VisualizationConfig, type DataType, type Species, type Pathway, type CompoundDataType, type PathwayDatabase, type KeggRenderMode, type ColumnSpec, type SignificanceEncoding, type DuplicateAggregation, type MatchingPolicy, type MemberAggregation, type SecondaryChannel, type SecondaryTransform, type OverlayMode } from '../types';
 import { UploadIcon } from './icons/UploadIcon';
 import { fetchSpecies, fetchPathways, mapGenesToPathways, mapGenesToPathwaysKegg, keggOrgForOrganism } from '../services/pathwayService';
 import { parseGeneIds } from '../services/dataProcessor';
+import { parseTable, describeReport, type ParseReport } from '../services/tableParser';
+import { resolveColumnSpec, saveColumnSpec, tableCategories, type TableKind } from '../services/columnMapping';
+import { AGGREGATION_LABELS, MEMBER_AGGREGATION_LABELS } from '../services/aggregation';
+import { MATCHING_POLICY_LABELS, SECONDARY_CHANNEL_LABELS } from '../services/overlay';
+import { GENE_ID_TYPES, MATCHED_GENE_ID_TYPES, COMPOUND_ID_TYPES, loadGeneCrosswalkEntries, type CrosswalkIndexEntry } from '../services/idCrosswalk';
 import { SAMPLE_GENE_CSV, SAMPLE_COMPOUND_CSV } from '../services/sampleData';
+import { fetchSbgnExamples, loadSbgnExample, type SbgnExample } from '../services/sbgnExamples';
 import { OsdrPanel, type OsdrImportPayload } from './OsdrPanel';
+import { ColumnMappingPanel } from './ColumnMappingPanel';
+import { ScaleEditor } from './ScaleEditor';
+import { EnrichmentPanel } from './EnrichmentPanel';
+import { GseaPanel } from './GseaPanel';
+import { type GseaResult } from '../services/gsea';
+import { OVERLAY_MODE_LABELS } from '../services/impact';
 
 interface SidebarProps {
   config: VisualizationConfig;
@@ -14,21 +26,61 @@ interface SidebarProps {
   setGeneData: (data: string | null) => void;
   compoundData: string | null;
   setCompoundData: (data: string | null) => void;
+  geneColumns: ColumnSpec | null;
+  setGeneColumns: (spec: ColumnSpec | null) => void;
+  compoundColumns: ColumnSpec | null;
+  setCompoundColumns: (spec: ColumnSpec | null) => void;
   onGenerate: () => void;
+  /** Generate again, refetching the pathway instead of reusing this session's copy. */
+  onReload: () => void;
+  /** Select a pathway and render it (from the enrichment table). */
+  onOpenPathway: (pathwayId: string) => void;
+  /** Rank-based pathway scores, for the enrichment plot beside the map. */
+  onGseaResult: (result: GseaResult | null) => void;
   onLoadDemo: () => void;
   onLoadArabidopsis: () => void;
   onOsdrImport: (p: OsdrImportPayload) => void;
   isLoading: boolean;
   customSbgnFile: string | null;
   setCustomSbgnFile: (data: string | null) => void;
+  synonymFile: string | null;
+  setSynonymFile: (data: string | null) => void;
 }
 
 const ALL_DATABASES: PathwayDatabase[] = ['KEGG', 'Plant Reactome', 'Reactome', 'MetaCyc', 'METACROP', 'PANTHER', 'SMPDB', 'Custom SBGN File'];
 
-export const Sidebar: React.FC<SidebarProps> = ({ config, setConfig, geneData, setGeneData, compoundData, setCompoundData, onGenerate, onLoadDemo, onLoadArabidopsis, onOsdrImport, isLoading, customSbgnFile, setCustomSbgnFile }) => {
+// Show at most this many skipped-row reasons; the rest are summarized as a count.
+const MAX_LISTED_ISSUES = 5;
+
+const ParseSummary: React.FC<{ report: ParseReport | null }> = ({ report }) => {
+  if (!report) return null;
+  const { skipped } = report;
+  return (
+    <div className="text-xs text-gray-500" aria-live="polite">
+      <p>{describeReport(report)}</p>
+      {skipped.length > 0 && (
+        <details className="mt-1 text-amber-400">
+          <summary className="cursor-pointer">{skipped.length} row{skipped.length === 1 ? '' : 's'} skipped</summary>
+          <ul className="mt-1 ml-4 list-disc text-amber-300/80">
+            {skipped.slice(0, MAX_LISTED_ISSUES).map((issue) => (
+              <li key={issue.line}>Line {issue.line}: {issue.reason}</li>
+            ))}
+            {skipped.length > MAX_LISTED_ISSUES && <li>…and {skipped.length - MAX_LISTED_ISSUES} more</li>}
+          </ul>
+        </details>
+      )}
+    </div>
+  );
+};
+
+export const Sidebar: React.FC<SidebarProps> = ({ config, setConfig, geneData, setGeneData, compoundData, setCompoundData, geneColumns, setGeneColumns, compoundColumns, setCompoundColumns, onGenerate, onReload, onOpenPathway, onGseaResult, onLoadDemo, onLoadArabidopsis, onOsdrImport, isLoading, customSbgnFile, setCustomSbgnFile, synonymFile, setSynonymFile }) => {
   const [geneFileName, setGeneFileName] = useState<string>('');
   const [compoundFileName, setCompoundFileName] = useState<string>('');
   const [customSbgnFileName, setCustomSbgnFileName] = useState<string>('');
+  const [synonymFileName, setSynonymFileName] = useState<string>('');
+  const [sbgnExamples, setSbgnExamples] = useState<SbgnExample[]>([]);
+  const [sbgnExample, setSbgnExample] = useState<SbgnExample | null>(null);
+  const [sbgnExampleError, setSbgnExampleError] = useState<string | null>(null);
   const [speciesList, setSpeciesList] = useState<Species[]>([]);
   const [speciesSearch, setSpeciesSearch] = useState<string>('');
   const [pathways, setPathways] = useState<Pathway[]>([]);
@@ -40,6 +92,42 @@ export const Sidebar: React.FC<SidebarProps> = ({ config, setConfig, geneData, s
   
   const [speciesError, setSpeciesError] = useState<string | null>(null);
   const [pathwayError, setPathwayError] = useState<string | null>(null);
+  const [geneCrosswalks, setGeneCrosswalks] = useState<CrosswalkIndexEntry[]>([]);
+
+  const geneTable = useMemo(() => (geneData ? parseTable(geneData) : null), [geneData]);
+  const compoundTable = useMemo(() => (compoundData ? parseTable(compoundData) : null), [compoundData]);
+
+  // Re-map columns when a new table arrives or the data type changes. A choice
+  // the user made earlier for the same header row wins over the header guess.
+  useEffect(() => {
+    setGeneColumns(geneTable ? resolveColumnSpec('gene', geneTable.headers, geneTable.rows, config.dataType === 'deseq2') : null);
+  }, [geneTable, config.dataType, setGeneColumns]);
+
+  useEffect(() => {
+    setCompoundColumns(compoundTable ? resolveColumnSpec('compound', compoundTable.headers, compoundTable.rows, config.compoundDataType === 'fold_change') : null);
+  }, [compoundTable, config.compoundDataType, setCompoundColumns]);
+
+  // Category labels of categorical uploads, for the per-category color pickers.
+  const geneCategories = useMemo(
+    () => (geneTable && geneColumns?.categorical ? tableCategories(geneTable.headers, geneTable.rows, geneColumns) : undefined),
+    [geneTable, geneColumns]
+  );
+  const compoundCategories = useMemo(
+    () => (compoundTable && compoundColumns?.categorical ? tableCategories(compoundTable.headers, compoundTable.rows, compoundColumns) : undefined),
+    [compoundTable, compoundColumns]
+  );
+
+  const handleColumnsChange = useCallback((kind: TableKind, spec: ColumnSpec) => {
+    const table = kind === 'gene' ? geneTable : compoundTable;
+    if (table) saveColumnSpec(kind, table.headers, spec);
+    (kind === 'gene' ? setGeneColumns : setCompoundColumns)(spec);
+  }, [geneTable, compoundTable, setGeneColumns, setCompoundColumns]);
+
+  // The bundled example list, once the custom SBGN panel is shown.
+  useEffect(() => {
+    if (config.pathwayDatabase !== 'Custom SBGN File' || sbgnExamples.length) return;
+    fetchSbgnExamples().then(setSbgnExamples).catch((e) => setSbgnExampleError((e as Error).message));
+  }, [config.pathwayDatabase, sbgnExamples.length]);
 
   // Fetch species when database changes. A preset speciesId (e.g. from the
   // "Load Arabidopsis sample" button) is kept if it exists in the fetched list,
@@ -101,6 +189,20 @@ export const Sidebar: React.FC<SidebarProps> = ({ config, setConfig, geneData, s
     return () => { cancelled = true; };
   }, [config.speciesId, config.pathwayDatabase, setConfig]);
 
+  // The species' gene id tables: only they make the conversion-only id types
+  // (TAIR, KEGG) worth offering.
+  useEffect(() => {
+    let cancelled = false;
+    loadGeneCrosswalkEntries({ speciesId: config.speciesId, pathwayId: config.pathwayId }).then((entries) => {
+      if (!cancelled) setGeneCrosswalks(entries);
+    });
+    return () => { cancelled = true; };
+  }, [config.speciesId, config.pathwayId]);
+  const geneIdTypes = useMemo(() => {
+    const converted = new Set(geneCrosswalks.flatMap((e) => e.types ?? []));
+    return GENE_ID_TYPES.filter((t) => MATCHED_GENE_ID_TYPES.includes(t) || converted.has(t) || t === config.geneIdType);
+  }, [geneCrosswalks, config.geneIdType]);
+
   // Highlight pathways containing user genes (Reactome and KEGG)
   useEffect(() => {
       const findHighlights = async () => {
@@ -109,7 +211,7 @@ export const Sidebar: React.FC<SidebarProps> = ({ config, setConfig, geneData, s
               return;
           }
 
-          const geneIds = parseGeneIds(geneData);
+          const geneIds = parseGeneIds(geneData, geneColumns?.idColumn);
           if (geneIds.length === 0) {
               setHighlightedPathways(new Set());
               return;
@@ -127,7 +229,7 @@ export const Sidebar: React.FC<SidebarProps> = ({ config, setConfig, geneData, s
 
       const timer = setTimeout(findHighlights, 300); // Debounce to avoid excessive API calls
       return () => clearTimeout(timer);
-  }, [geneData, pathways, config.speciesId, config.pathwayDatabase]);
+  }, [geneData, geneColumns?.idColumn, pathways, config.speciesId, config.pathwayDatabase]);
 
 
   const handleFileChange = useCallback((event: React.ChangeEvent<HTMLInputElement>, type: 'gene' | 'compound') => {
@@ -164,14 +266,44 @@ export const Sidebar: React.FC<SidebarProps> = ({ config, setConfig, geneData, s
         const text = e.target?.result as string;
         setCustomSbgnFile(text);
         setCustomSbgnFileName(file.name);
+        setSbgnExample(null);
       };
       reader.readAsText(file);
     } else {
        setCustomSbgnFileName('');
        setCustomSbgnFile(null);
+       setSbgnExample(null);
     }
   }, [setCustomSbgnFile]);
 
+  const handleSbgnExampleChange = useCallback(async (file: string) => {
+    const example = sbgnExamples.find((e) => e.file === file);
+    if (!example) return;
+    setSbgnExampleError(null);
+    try {
+      setCustomSbgnFile(await loadSbgnExample(example));
+      setCustomSbgnFileName(example.title);
+      setSbgnExample(example);
+    } catch (e) {
+      setSbgnExampleError((e as Error).message);
+    }
+  }, [sbgnExamples, setCustomSbgnFile]);
+
+  const handleSynonymFileChange = useCallback((event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (file) {
+      const reader = new FileReader();
+      reader.onload = (e) => {
+        setSynonymFile(e.target?.result as string);
+        setSynonymFileName(file.name);
+      };
+      reader.readAsText(file);
+    } else {
+      setSynonymFileName('');
+      setSynonymFile(null);
+    }
+  }, [setSynonymFile]);
+
 
   const handleConfigChange = useCallback(<K extends keyof VisualizationConfig>(key: K, value: VisualizationConfig[K]) => {
       setConfig(prev => ({ ...prev, [key]: value }));
@@ -210,8 +342,6 @@ export const Sidebar: React.FC<SidebarProps> = ({ config, setConfig, geneData, s
     return { highlighted, other };
   }, [filteredPathways, highlightedPathways]);
 
-  const commonIdTypes = ['SYMBOL', 'Ensembl', 'Entrez', 'UniProt'];
-  const commonCpdIdTypes = ['kegg', 'chebi', 'name'];
 
   return (
     <aside className="w-full md:w-96 bg-gray-800 p-6 space-y-6 overflow-y-auto border-r border-gray-700">
@@ -236,6 +366,8 @@ export const Sidebar: React.FC<SidebarProps> = ({ config, setConfig, geneData, s
             Or use sample gene data
           </button>
         </div>
+        <ParseSummary report={geneTable?.report ?? null} />
+        {geneTable && <ColumnMappingPanel kind="gene" table={geneTable} spec={geneColumns} onChange={(spec) => handleColumnsChange('gene', spec)} />}
       </div>
       
       {/* Step 2: Compound Data */}
@@ -258,6 +390,8 @@ export const Sidebar: React.FC<SidebarProps> = ({ config, setConfig, geneData, s
             Or use sample compound data
           </button>
         </div>
+        <ParseSummary report={compoundTable?.report ?? null} />
+        {compoundTable && <ColumnMappingPanel kind="compound" table={compoundTable} spec={compoundColumns} onChange={(spec) => handleColumnsChange('compound', spec)} />}
       </div>
 
       {/* Or import from NASA OSDR */}
@@ -319,6 +453,17 @@ export const Sidebar: React.FC<SidebarProps> = ({ config, setConfig, geneData, s
                       <p className="text-xs text-gray-500">{customSbgnFileName || 'SBGN, XML'}</p>
                     </div>
                   </div>
+                  {sbgnExamples.length > 0 && (
+                    <>
+                      <label htmlFor="sbgnExample" className="mt-2 block text-sm font-medium text-gray-300">Or open an example map</label>
+                      <select id="sbgnExample" value={sbgnExample?.file ?? ''} onChange={(e) => handleSbgnExampleChange(e.target.value)} className="mt-1 block w-full pl-3 pr-10 py-2 text-base bg-gray-700 border-gray-600 focus:outline-none focus:ring-cyan-500 focus:border-cyan-500 sm:text-sm rounded-md">
+                        <option value="" disabled>Select an example</option>
+                        {sbgnExamples.map((e) => <option key={e.file} value={e.file}>{e.title}</option>)}
+                      </select>
+                    </>
+                  )}
+                  {sbgnExample && <p className="mt-1 text-xs text-gray-500">{sbgnExample.source}.</p>}
+                  {sbgnExampleError && <p className="mt-1 text-xs text-red-400">{sbgnExampleError}</p>}
                 </div>
             ) : (
               <>
@@ -419,6 +564,28 @@ export const Sidebar: React.FC<SidebarProps> = ({ config, setConfig, geneData, s
                     </select>
                     {pathwayError && <p className="mt-1 text-xs text-red-400">{pathwayError}</p>}
                 </div>
+                {(config.pathwayDatabase === 'Reactome' || config.pathwayDatabase === 'KEGG') && geneTable && geneColumns && pathways.length > 0 && (
+                  <>
+                    <EnrichmentPanel
+                      database={config.pathwayDatabase}
+                      speciesId={config.speciesId}
+                      pathways={pathways}
+                      table={geneTable}
+                      spec={geneColumns}
+                      config={config}
+                      onOpenPathway={onOpenPathway}
+                    />
+                    <GseaPanel
+                      database={config.pathwayDatabase}
+                      speciesId={config.speciesId}
+                      pathways={pathways}
+                      table={geneTable}
+                      spec={geneColumns}
+                      onOpenPathway={onOpenPathway}
+                      onResult={onGseaResult}
+                    />
+                  </>
+                )}
               </>
             )}
 
@@ -432,8 +599,11 @@ export const Sidebar: React.FC<SidebarProps> = ({ config, setConfig, geneData, s
              <div>
                 <label htmlFor="geneIdType" className="block text-sm font-medium text-gray-300">Gene ID Type</label>
                  <select id="geneIdType" value={config.geneIdType} onChange={(e) => handleConfigChange('geneIdType', e.target.value)} className="mt-1 block w-full pl-3 pr-10 py-2 text-base bg-gray-700 border-gray-600 focus:outline-none focus:ring-cyan-500 focus:border-cyan-500 sm:text-sm rounded-md">
-                    {commonIdTypes.map(type => <option key={type} value={type}>{type}</option>)}
+                    {geneIdTypes.map(type => <option key={type} value={type}>{type}</option>)}
                  </select>
+                 {geneCrosswalks.length > 0 && (
+                     <p className="mt-1 text-xs text-gray-500">Converted offline to the map's gene labels with the bundled {geneCrosswalks.map(e => e.organism).join(' / ')} table ({[...new Set(geneCrosswalks.flatMap(e => e.types ?? []))].join(', ')} ids).</p>
+                 )}
             </div>
             {compoundData && (
                 <>
@@ -447,11 +617,103 @@ export const Sidebar: React.FC<SidebarProps> = ({ config, setConfig, geneData, s
                     <div>
                         <label htmlFor="compoundIdType" className="block text-sm font-medium text-gray-300">Compound ID Type</label>
                         <select id="compoundIdType" value={config.compoundIdType} onChange={(e) => handleConfigChange('compoundIdType', e.target.value)} className="mt-1 block w-full pl-3 pr-10 py-2 text-base bg-gray-700 border-gray-600 focus:outline-none focus:ring-cyan-500 focus:border-cyan-500 sm:text-sm rounded-md">
-                            {commonCpdIdTypes.map(type => <option key={type} value={type}>{type}</option>)}
+                            {COMPOUND_ID_TYPES.map(type => <option key={type} value={type}>{type}</option>)}
                         </select>
                     </div>
                 </>
             )}
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <label htmlFor="significanceCutoff" className="block text-sm font-medium text-gray-300">Significance ≤</label>
+                <input type="number" id="significanceCutoff" min="0" max="1" step="0.01" value={config.significanceCutoff} onChange={(e) => handleConfigChange('significanceCutoff', Number(e.target.value))} className="mt-1 block w-full bg-gray-700 border-gray-600 rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-cyan-500 focus:border-cyan-500 sm:text-sm" />
+              </div>
+              {(config.dataType === 'deseq2' || (compoundData && config.compoundDataType === 'fold_change')) && (
+                <div>
+                  <label htmlFor="minAbsLog2FC" className="block text-sm font-medium text-gray-300">Min |log2FC|</label>
+                  <input type="number" id="minAbsLog2FC" min="0" step="0.1" value={config.minAbsLog2FC} onChange={(e) => handleConfigChange('minAbsLog2FC', Number(e.target.value))} className="mt-1 block w-full bg-gray-700 border-gray-600 rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-cyan-500 focus:border-cyan-500 sm:text-sm" />
+                </div>
+              )}
+            </div>
+            <div>
+              <label htmlFor="significanceEncoding" className="block text-sm font-medium text-gray-300">Show Significance As</label>
+              <select id="significanceEncoding" value={config.significanceEncoding} onChange={(e) => handleConfigChange('significanceEncoding', e.target.value as SignificanceEncoding)} className="mt-1 block w-full pl-3 pr-10 py-2 text-base bg-gray-700 border-gray-600 focus:outline-none focus:ring-cyan-500 focus:border-cyan-500 sm:text-sm rounded-md">
+                <option value="border">Heavy border</option>
+                <option value="marker">Corner marker</option>
+                <option value="none">Color only</option>
+              </select>
+              <p className="mt-1 text-xs text-gray-500">Measured genes that miss the cutoffs are drawn in neutral gray.</p>
+            </div>
+            <div>
+              <label htmlFor="overlayMode" className="block text-sm font-medium text-gray-300">Gene Colors Show</label>
+              <select id="overlayMode" value={config.overlayMode} onChange={(e) => handleConfigChange('overlayMode', e.target.value as OverlayMode)} className="mt-1 block w-full pl-3 pr-10 py-2 text-base bg-gray-700 border-gray-600 focus:outline-none focus:ring-cyan-500 focus:border-cyan-500 sm:text-sm rounded-md">
+                {(Object.keys(OVERLAY_MODE_LABELS) as OverlayMode[]).map((mode) => (
+                  <option key={mode} value={mode}>{OVERLAY_MODE_LABELS[mode]}</option>
+                ))}
+              </select>
+              <p className="mt-1 text-xs text-gray-500">Impact spreads significant log2 fold changes along the map's activating and inhibiting arcs and scores the pathway as a whole.</p>
+            </div>
+            <div>
+              <label htmlFor="secondaryChannel" className="block text-sm font-medium text-gray-300">Second Channel</label>
+              <select id="secondaryChannel" value={config.secondaryChannel} onChange={(e) => handleConfigChange('secondaryChannel', e.target.value as SecondaryChannel)} className="mt-1 block w-full pl-3 pr-10 py-2 text-base bg-gray-700 border-gray-600 focus:outline-none focus:ring-cyan-500 focus:border-cyan-500 sm:text-sm rounded-md">
+                {(Object.keys(SECONDARY_CHANNEL_LABELS) as SecondaryChannel[]).map((ch) => (
+                  <option key={ch} value={ch}>{SECONDARY_CHANNEL_LABELS[ch]}</option>
+                ))}
+              </select>
+              {config.secondaryChannel !== 'none' && (
+                <select id="secondaryTransform" aria-label="Secondary value transform" value={config.secondaryTransform} onChange={(e) => handleConfigChange('secondaryTransform', e.target.value as SecondaryTransform)} className="mt-2 block w-full pl-3 pr-10 py-2 text-base bg-gray-700 border-gray-600 focus:outline-none focus:ring-cyan-500 focus:border-cyan-500 sm:text-sm rounded-md">
+                  <option value="linear">Values as uploaded</option>
+                  <option value="negLog10">−log10 (p-values)</option>
+                </select>
+              )}
+              <p className="mt-1 text-xs text-gray-500">Draws each table's secondary column (set in its column mapping) alongside the fill color.</p>
+            </div>
+            <div>
+              <label htmlFor="duplicateAggregation" className="block text-sm font-medium text-gray-300">Duplicate IDs</label>
+              <select id="duplicateAggregation" value={config.duplicateAggregation} onChange={(e) => handleConfigChange('duplicateAggregation', e.target.value as DuplicateAggregation)} className="mt-1 block w-full pl-3 pr-10 py-2 text-base bg-gray-700 border-gray-600 focus:outline-none focus:ring-cyan-500 focus:border-cyan-500 sm:text-sm rounded-md">
+                {(Object.keys(AGGREGATION_LABELS) as DuplicateAggregation[]).map((mode) => (
+                  <option key={mode} value={mode}>{AGGREGATION_LABELS[mode]}</option>
+                ))}
+              </select>
+              <p className="mt-1 text-xs text-gray-500">How several rows for the same gene or compound (probes, transcripts) are combined.</p>
+            </div>
+            <div>
+              <label htmlFor="memberAggregation" className="block text-sm font-medium text-gray-300">Complexes &amp; Multi-gene Boxes</label>
+              <select id="memberAggregation" value={config.memberAggregation} onChange={(e) => handleConfigChange('memberAggregation', e.target.value as MemberAggregation)} className="mt-1 block w-full pl-3 pr-10 py-2 text-base bg-gray-700 border-gray-600 focus:outline-none focus:ring-cyan-500 focus:border-cyan-500 sm:text-sm rounded-md">
+                {(Object.keys(MEMBER_AGGREGATION_LABELS) as MemberAggregation[]).map((how) => (
+                  <option key={how} value={how}>{MEMBER_AGGREGATION_LABELS[how]}</option>
+                ))}
+              </select>
+              <p className="mt-1 text-xs text-gray-500">How SBGN complexes and KEGG boxes listing several genes combine their members' values.</p>
+            </div>
+            <div>
+              <label htmlFor="labelFallback" className="flex items-center gap-2 text-sm font-medium text-gray-300">
+                <input type="checkbox" id="labelFallback" className="accent-cyan-500" checked={config.labelFallback} onChange={(e) => handleConfigChange('labelFallback', e.target.checked)} />
+                Fall back to label matching
+              </label>
+              <p className="mt-1 text-xs text-gray-500">Glyph annotations (UniProt, ChEBI, Ensembl, KEGG ids) are matched first. Unchecked, annotated glyphs that miss stay blank; glyphs without annotations always match by label.</p>
+            </div>
+            <div>
+              <label htmlFor="matchingPolicy" className="block text-sm font-medium text-gray-300">Label Matching</label>
+              <select id="matchingPolicy" value={config.matchingPolicy} onChange={(e) => handleConfigChange('matchingPolicy', e.target.value as MatchingPolicy)} className="mt-1 block w-full pl-3 pr-10 py-2 text-base bg-gray-700 border-gray-600 focus:outline-none focus:ring-cyan-500 focus:border-cyan-500 sm:text-sm rounded-md">
+                {(Object.keys(MATCHING_POLICY_LABELS) as MatchingPolicy[]).map((policy) => (
+                  <option key={policy} value={policy}>{MATCHING_POLICY_LABELS[policy]}</option>
+                ))}
+              </select>
+              <p className="mt-1 text-xs text-gray-500">Words catch "CDK1/2"-style labels but can hit short generic tokens; stricter settings trade recall for precision.</p>
+            </div>
+            <div>
+              <span className="block text-sm font-medium text-gray-300">Synonym File (Optional)</span>
+              <div className="mt-1 flex items-center gap-3 text-sm">
+                <label htmlFor="synonym-file-upload" className="relative cursor-pointer bg-gray-800 rounded-md font-medium text-cyan-500 hover:text-cyan-400 focus-within:outline-none">
+                  <span>Upload a file</span>
+                  <input id="synonym-file-upload" type="file" className="sr-only" accept=".csv,.tsv,.txt" onChange={handleSynonymFileChange} />
+                </label>
+                {synonymFile && (
+                  <button onClick={() => { setSynonymFile(null); setSynonymFileName(''); }} className="text-xs text-gray-400 hover:text-gray-200 underline">Remove</button>
+                )}
+              </div>
+              <p className="mt-1 text-xs text-gray-500">{synonymFileName || 'One row per id: your id, then the names the map uses ("|" separates several). Header row optional; every row counts.'}</p>
+            </div>
           </div>
       </div>
       
@@ -465,6 +727,13 @@ export const Sidebar: React.FC<SidebarProps> = ({ config, setConfig, geneData, s
               <div className="flex items-center justify-between">
                 <label htmlFor="glyphFillColor" className="block text-sm font-medium text-gray-300">Default Glyph Color</label>
                 <input type="color" id="glyphFillColor" value={config.glyphFillColor} onChange={(e) => handleConfigChange('glyphFillColor', e.target.value)} className="w-10 h-8 p-1 bg-gray-700 border border-gray-600 cursor-pointer rounded-md" />
+              </div>
+              <div>
+                <label htmlFor="mapStyles" className="flex items-center gap-2 text-sm font-medium text-gray-300">
+                  <input type="checkbox" id="mapStyles" className="accent-cyan-500" checked={config.mapStyles} onChange={(e) => handleConfigChange('mapStyles', e.target.checked)} />
+                  Use the map's own styles
+                </label>
+                <p className="mt-1 text-xs text-gray-500">SBGN files from Newt or SBGNViz carry their colors and fonts; they replace the settings here for glyphs without data.</p>
               </div>
                <div>
                 <label htmlFor="arcLineWidth" className="block text-sm font-medium text-gray-300">Arc Line Width: {config.arcLineWidth}px</label>
@@ -474,6 +743,10 @@ export const Sidebar: React.FC<SidebarProps> = ({ config, setConfig, geneData, s
                 <label htmlFor="arcLineColor" className="block text-sm font-medium text-gray-300">Arc Line Color</label>
                 <input type="color" id="arcLineColor" value={config.arcLineColor} onChange={(e) => handleConfigChange('arcLineColor', e.target.value)} className="w-10 h-8 p-1 bg-gray-700 border border-gray-600 cursor-pointer rounded-md" />
               </div>
+              <ScaleEditor kind="gene" foldChange={config.dataType === 'deseq2'} categories={geneCategories} settings={config.geneColorScale} onChange={(v) => handleConfigChange('geneColorScale', v)} />
+              {compoundData && (
+                <ScaleEditor kind="compound" foldChange={config.compoundDataType === 'fold_change'} categories={compoundCategories} settings={config.compoundColorScale} onChange={(v) => handleConfigChange('compoundColorScale', v)} />
+              )}
           </div>
       </div>
 
@@ -485,6 +758,14 @@ export const Sidebar: React.FC<SidebarProps> = ({ config, setConfig, geneData, s
         >
           {isLoading ? 'Rendering...' : 'Generate Pathway Map'}
         </button>
+        <button
+          onClick={onReload}
+          disabled={isLoading || config.pathwayDatabase === 'Custom SBGN File'}
+          className="w-full text-xs text-cyan-300 hover:text-cyan-200 hover:underline disabled:text-gray-500 disabled:no-underline disabled:cursor-not-allowed"
+          title="Pathways are fetched once per session; settings and data changes redraw from that copy. Fetch this one again from its database."
+        >
+          Reload pathway from source
+        </button>
         <button
           onClick={onLoadDemo}
           disabled={isLoading}
@@ -0,0 +1,106 @@
+/**
+ * Collapsing duplicate identifiers. Probe- or transcript-level tables carry
+ * several rows per gene; both parseDataToMap (exact ids) and the overlay lookup
+ * (normalized ids) merge them with the same rule so the color, the tooltip and
+ * the significance test all describe one value per identifier.
+ */
+
+import { type ColumnSpec, type DuplicateAggregation, type MemberAggregation } from '../types';
+import { specValue, modeCategory } from './columnMapping';
+
+/**
+ * The input rows behind each collapsed identifier (only ids with more than
+ * one), so a later merge of ids that normalize alike aggregates the rows
+ * themselves rather than their already aggregated values.
+ */
+export type RowRecords = Map<string, Record<string, string>[]>;
+
+/** Sidebar option labels. */
+export const AGGREGATION_LABELS: Record<DuplicateAggregation, string> = {
+  first: 'First row',
+  mean: 'Mean',
+  median: 'Median',
+  maxAbs: 'Max |value|',
+  mostSignificant: 'Most significant',
+};
+
+/** Sidebar option labels for complexes / multi-gene boxes. */
+export const MEMBER_AGGREGATION_LABELS: Record<MemberAggregation, string> = {
+  mean: 'Mean of members',
+  maxAbs: 'Max |value| member',
+  stripes: 'One stripe per member',
+};
+
+export const mean = (vals: number[]): number => vals.reduce((s, v) => s + v, 0) / vals.length;
+
+const median = (vals: number[]): number => {
+  const s = [...vals].sort((a, b) => a - b);
+  const mid = s.length >> 1;
+  return s.length % 2 ? s[mid] : (s[mid - 1] + s[mid]) / 2;
+};
+
+const fmt = (v: number): string => (Number.isFinite(v) ? String(Number(v.toPrecision(6))) : 'NA');
+
+/** The row with the largest score; ties and all-NaN scores keep the earliest row. */
+const pickBy = (records: Record<string, string>[], score: (r: Record<string, string>) => number): Record<string, string> => {
+  let best = records[0], bestScore = -Infinity;
+  for (const r of records) {
+    const s = score(r);
+    if (Number.isFinite(s) && s > bestScore) { best = r; bestScore = s; }
+  }
+  return best;
+};
+
+/**
+ * Merge the rows of one identifier. `first`, `maxAbs` and `mostSignificant` keep a
+ * whole row (so its p-value stays paired with its value); `mean` and `median`
+ * combine each value column plus the significance and secondary columns,
+ * taking the remaining cells from the first row. Without a significance column
+ * `mostSignificant` behaves like `first`. Category labels can't be averaged, so
+ * for categorical specs `mean`, `median` and `maxAbs` keep each value column's
+ * most frequent label instead.
+ */
+export const aggregateRecords = (
+  records: Record<string, string>[],
+  spec: ColumnSpec,
+  mode: DuplicateAggregation
+): Record<string, string> => {
+  if (records.length <= 1) return records[0];
+  const pCol = spec.significanceColumn;
+  if (spec.categorical && (mode === 'mean' || mode === 'median' || mode === 'maxAbs')) {
+    const merged = { ...records[0] };
+    for (const col of spec.valueColumns) merged[col] = modeCategory(records.map((r) => r[col])) ?? 'NA';
+    return merged;
+  }
+  switch (mode) {
+    case 'maxAbs':
+      return pickBy(records, (r) => Math.abs(specValue(r, spec)));
+    case 'mostSignificant':
+      return pCol ? pickBy(records, (r) => -parseFloat(r[pCol] ?? '')) : records[0];
+    case 'mean':
+    case 'median': {
+      const combine = mode === 'mean' ? mean : median;
+      const merged = { ...records[0] };
+      const cols = [...spec.valueColumns, pCol, spec.secondaryColumn].filter((c): c is string => !!c);
+      for (const col of cols) {
+        const vals = records.map((r) => parseFloat(r[col] ?? '')).filter(Number.isFinite);
+        merged[col] = vals.length ? fmt(combine(vals)) : 'NA';
+      }
+      return merged;
+    }
+    default:
+      return records[0];
+  }
+};
+
+/** Tooltip phrase for the rule, e.g. "max |log2FC|" or "lowest padj". */
+export const aggregationPhrase = (mode: DuplicateAggregation, spec: ColumnSpec, foldChange: boolean): string => {
+  if (spec.categorical && (mode === 'mean' || mode === 'median' || mode === 'maxAbs')) return 'most frequent category';
+  switch (mode) {
+    case 'mean': return 'mean';
+    case 'median': return 'median';
+    case 'maxAbs': return foldChange ? 'max |log2FC|' : 'max |value|';
+    case 'mostSignificant': return spec.significanceColumn ? `lowest ${spec.significanceColumn}` : 'first row';
+    default: return 'first row';
+  }
+};
@@ -3,7 +3,9 @@
  * No external dependencies — pure RGB interpolation so the app stays self-contained.
  */
 
-export type ScaleKind = 'divergent' | 'gene-sequential' | 'compound-sequential';
+import { type PaletteId, type ScaleSettings } from '../types';
+
+export type ScaleKind = 'divergent' | 'gene-sequential' | 'compound-sequential' | 'categorical';
 
 interface RGB { r: number; g: number; b: number; }
 
@@ -28,7 +30,7 @@ const lerp = (a: RGB, b: RGB, t: number): RGB => ({
 });
 
 /** Piecewise-linear interpolation across an array of color stops. */
-const rampColor = (stops: string[], t: number): string => {
+export const rampColor = (stops: string[], t: number): string => {
   const clamped = Math.max(0, Math.min(1, t));
   if (stops.length === 1) return stops[0];
   const scaled = clamped * (stops.length - 1);
@@ -42,6 +44,51 @@ const DIVERGENT_STOPS = ['#2166ac', '#67a9cf', '#d1e5f0', '#f7f7f7', '#fddbc7',
 const GENE_SEQ_STOPS = ['#ffffcc', '#c2e699', '#78c679', '#31a354', '#006837', '#54278f']; // light yellow → green → purple
 const COMPOUND_SEQ_STOPS = ['#e5f5f9', '#99d8c9', '#41ae76', '#006d6f']; // light green → dark teal
 
+export interface Palette {
+  label: string;
+  /** Low → high; empty for 'default' (per-kind stops) and 'custom' (user stops). */
+  stops: string[];
+}
+
+/**
+ * Presets offered for either scale kind. PuOr, BrBG, viridis and cividis stay
+ * distinguishable under the common color-vision deficiencies; grayscale is for
+ * black-and-white print.
+ */
+export const PALETTES: Record<PaletteId, Palette> = {
+  default: { label: 'Default', stops: [] },
+  puor: { label: 'Purple – orange (colorblind-safe)', stops: ['#542788', '#998ec3', '#d8daeb', '#f7f7f7', '#fee0b6', '#f1a340', '#b35806'] },
+  brbg: { label: 'Teal – brown (colorblind-safe)', stops: ['#01665e', '#5ab4ac', '#c7eae5', '#f5f5f5', '#f6e8c3', '#d8b365', '#8c510a'] },
+  viridis: { label: 'Viridis (colorblind-safe)', stops: ['#440154', '#414487', '#2a788e', '#22a884', '#7ad151', '#fde725'] },
+  cividis: { label: 'Cividis (colorblind-safe)', stops: ['#00204d', '#31446b', '#666970', '#958f78', '#cbba69', '#ffea46'] },
+  grays: { label: 'Grayscale (print)', stops: ['#f7f7f7', '#cccccc', '#969696', '#636363', '#252525'] },
+  custom: { label: 'Custom stops', stops: [] },
+};
+
+export const DEFAULT_SCALE_SETTINGS: ScaleSettings = {
+  palette: 'default',
+  customStops: ['#2166ac', '#f7f7f7', '#b2182b'],
+  domain: 'data',
+  domainMin: -2,
+  domainMax: 2,
+  quantile: 0.95,
+  clampMarkers: false,
+  categoryColors: {},
+};
+
+const isHex = (c: string): boolean => /^#[0-9a-f]{6}$/i.test(c);
+
+// Okabe–Ito, distinguishable under the common color-vision deficiencies; reused
+// cyclically when a table has more categories.
+const CATEGORY_STOPS = ['#e69f00', '#56b4e9', '#009e73', '#f0e442', '#0072b2', '#d55e00', '#cc79a7', '#999999'];
+// Conventional colors for common call labels (matched case-insensitively).
+const NAMED_CATEGORIES: Record<string, string> = {
+  up: '#b2182b', upregulated: '#b2182b',
+  down: '#2166ac', downregulated: '#2166ac',
+  unchanged: '#d9d9d9', ns: '#d9d9d9',
+  present: '#1b7837', absent: '#f7f7f7',
+};
+
 export interface ColorScale {
   kind: ScaleKind;
   /** Returns a fill color for a value, or null if value is non-finite. */
@@ -50,9 +97,18 @@ export interface ColorScale {
   domainMax: number;
   /** Sample colors left→right for rendering a legend gradient. */
   legendStops: string[];
+  /** The palette the scale interpolates (category colors for categorical scales). */
+  stops: string[];
   label: string;
+  /** -1 / 1 when a finite value lies below / above the domain (its color is clamped), else 0. */
+  outOfRange: (value: number) => -1 | 0 | 1;
+  /** Categorical scales only: one swatch per category; a value is the category's index. */
+  categories?: { name: string; color: string }[];
 }
 
+const outOfRange = (min: number, max: number) => (v: number): -1 | 0 | 1 =>
+  !Number.isFinite(v) ? 0 : v < min ? -1 : v > max ? 1 : 0;
+
 const sampleStops = (fn: (t: number) => string, n = 12): string[] =>
   Array.from({ length: n }, (_, i) => fn(i / (n - 1)));
 
@@ -69,7 +125,9 @@ export const divergentScale = (maxAbs: number, label = 'log2 fold change'): Colo
     domainMin: -m,
     domainMax: m,
     legendStops: sampleStops(map),
+    stops: DIVERGENT_STOPS,
     label,
+    outOfRange: outOfRange(-m, m),
   };
 };
 
@@ -78,9 +136,9 @@ export const sequentialScale = (
   min: number,
   max: number,
   kind: 'gene-sequential' | 'compound-sequential',
-  label: string
+  label: string,
+  stops = kind === 'gene-sequential' ? GENE_SEQ_STOPS : COMPOUND_SEQ_STOPS
 ): ColorScale => {
-  const stops = kind === 'gene-sequential' ? GENE_SEQ_STOPS : COMPOUND_SEQ_STOPS;
   const span = max - min;
   const map = (t: number) => rampColor(stops, t);
   return {
@@ -89,6 +147,127 @@ export const sequentialScale = (
     domainMin: min,
     domainMax: max,
     legendStops: sampleStops(map),
+    stops,
+    label,
+    outOfRange: outOfRange(min, max),
+  };
+};
+
+/**
+ * A divergent scale over [min, max] with zero pinned to the palette's midpoint,
+ * so an asymmetric fixed domain still reads "below / above zero" by hue.
+ */
+const centeredScale = (min: number, max: number, label: string, stops: string[]): ColorScale => {
+  const map = (t: number) => rampColor(stops, t);
+  const t = (v: number): number =>
+    min < 0 && max > 0 ? (v < 0 ? 0.5 * (v - min) / -min : 0.5 + 0.5 * v / max) : max > min ? (v - min) / (max - min) : 0.5;
+  return {
+    kind: 'divergent',
+    color: (v) => (Number.isFinite(v) ? map(t(v)) : null),
+    domainMin: min,
+    domainMax: max,
+    legendStops: sampleStops(map),
+    stops,
+    label,
+    outOfRange: outOfRange(min, max),
+  };
+};
+
+// Linear-interpolated quantile of an ascending array.
+const quantileOf = (sorted: number[], q: number): number => {
+  if (!sorted.length) return NaN;
+  const pos = Math.max(0, Math.min(1, q)) * (sorted.length - 1);
+  const i = Math.floor(pos);
+  return i + 1 < sorted.length ? sorted[i] + (sorted[i + 1] - sorted[i]) * (pos - i) : sorted[i];
+};
+
+/** The stops a palette setting resolves to; `fallback` for 'default' or unusable custom stops. */
+export const paletteStops = (settings: ScaleSettings, fallback: string[]): string[] => {
+  if (settings.palette === 'custom') {
+    const custom = settings.customStops.filter(isHex);
+    return custom.length >= 2 ? custom : fallback;
+  }
+  const preset = PALETTES[settings.palette]?.stops;
+  return preset && preset.length ? preset : fallback;
+};
+
+/**
+ * [min, max] of a scale under its domain setting. Fold-change scales stay
+ * centered on zero except under 'fixed'; 'quantile' clips at the `quantile`
+ * and 1 − `quantile` quantiles (at the `quantile` of |values| for fold changes).
+ */
+export const resolveDomain = (values: number[], settings: ScaleSettings, centered: boolean): [number, number] => {
+  const finite = values.filter(Number.isFinite);
+  const absMax = finite.reduce((m, v) => Math.max(m, Math.abs(v)), 0);
+  const dataDomain = (): [number, number] =>
+    centered
+      ? [-(absMax || 1), absMax || 1]
+      : [finite.reduce((m, v) => Math.min(m, v), Infinity), finite.reduce((m, v) => Math.max(m, v), -Infinity)];
+  switch (settings.domain) {
+    case 'fixed':
+      return settings.domainMin < settings.domainMax ? [settings.domainMin, settings.domainMax] : dataDomain();
+    case 'symmetric': {
+      const m = Math.abs(settings.domainMax);
+      return m > 0 ? [-m, m] : dataDomain();
+    }
+    case 'quantile': {
+      const q = Math.max(0.5, Math.min(1, settings.quantile));
+      if (centered) {
+        const m = quantileOf(finite.map(Math.abs).sort((a, b) => a - b), q);
+        return m > 0 ? [-m, m] : dataDomain();
+      }
+      const sorted = [...finite].sort((a, b) => a - b);
+      const lo = quantileOf(sorted, 1 - q), hi = quantileOf(sorted, q);
+      return hi > lo ? [lo, hi] : dataDomain();
+    }
+    default:
+      return dataDomain();
+  }
+};
+
+/** Build the scale for one table from its values and the user's palette / domain settings. */
+export const buildColorScale = (
+  values: number[],
+  foldChange: boolean,
+  kind: 'gene' | 'compound',
+  settings: ScaleSettings,
+  label: string
+): ColorScale => {
+  const [min, max] = resolveDomain(values, settings, foldChange);
+  if (foldChange) return centeredScale(min, max, label, paletteStops(settings, DIVERGENT_STOPS));
+  const seqKind = kind === 'gene' ? 'gene-sequential' : 'compound-sequential';
+  return sequentialScale(min, max, seqKind, label, paletteStops(settings, seqKind === 'gene-sequential' ? GENE_SEQ_STOPS : COMPOUND_SEQ_STOPS));
+};
+
+/**
+ * The same palette over a new [min, max], e.g. while the viewer's legend handles
+ * are dragged. Divergent scales keep zero mid-palette; categorical ones have no
+ * domain and come back unchanged.
+ */
+export const rescaleColorScale = (scale: ColorScale, min: number, max: number): ColorScale => {
+  if (scale.kind === 'categorical') return scale;
+  if (scale.kind === 'divergent') return centeredScale(min, max, scale.label, scale.stops);
+  return sequentialScale(min, max, scale.kind, scale.label, scale.stops);
+};
+
+/** Fill per category: the user's override, else a conventional color for call labels, else the next preset. */
+export const categoryColors = (categories: string[], overrides: Record<string, string>): string[] => {
+  let next = 0;
+  return categories.map((c) => overrides[c] ?? NAMED_CATEGORIES[c.toLowerCase()] ?? CATEGORY_STOPS[next++ % CATEGORY_STOPS.length]);
+};
+
+/** A categorical scale: values are indices into `categories`. */
+export const categoricalScale = (categories: string[], overrides: Record<string, string>, label: string): ColorScale => {
+  const colors = categoryColors(categories, overrides);
+  return {
+    kind: 'categorical',
+    color: (v) => colors[v] ?? null,
+    domainMin: 0,
+    domainMax: Math.max(0, categories.length - 1),
+    legendStops: colors,
+    stops: colors,
     label,
+    outOfRange: () => 0,
+    categories: categories.map((name, i) => ({ name, color: colors[i] })),
   };
 };
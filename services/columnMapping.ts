@@ -0,0 +1,157 @@
+/**
+ * Column mapping for uploaded tables: which column holds the identifier, which
+ * numeric column(s) drive the overlay, and which carries significance.
+ *
+ * Header heuristics only pre-fill the Sidebar's mapping panel; once the user
+ * picks columns explicitly the choice is remembered per header signature (in
+ * localStorage) and the overlay reads exactly those columns.
+ */
+
+import { type ColumnSpec } from '../types';
+
+export type TableKind = 'gene' | 'compound';
+
+const FC_HEADER = /(log\s*2)?\s*fold|lfc|log2fc|log2foldchange/i;
+const STAT_HEADER = /padj|p\.?adj|pvalue|p\.?value|fdr|stat|^se$|lfcse/i;
+const ADJ_P_HEADER = /padj|p\.?adj|adj\.?p|fdr|q\.?val/i;
+const RAW_P_HEADER = /p\.?val/i;
+
+// How many rows to sample when deciding whether a column is numeric.
+const SNIFF_ROWS = 50;
+const STORAGE_PREFIX = 'sbgn-viewer:columns:';
+
+/** Columns where most sampled non-empty cells parse as finite numbers. */
+export const numericColumns = (headers: string[], rows: string[][]): string[] =>
+  headers.filter((_, i) => {
+    let seen = 0, numeric = 0;
+    for (const row of rows.slice(0, SNIFF_ROWS)) {
+      const cell = (row[i] ?? '').trim();
+      if (!cell || cell.toUpperCase() === 'NA') continue;
+      seen++;
+      if (Number.isFinite(Number(cell))) numeric++;
+    }
+    return seen > 0 && numeric / seen >= 0.5;
+  });
+
+/**
+ * Best-guess mapping from header names. The identifier is the first column (as
+ * before); fold-change tables take the first log2FC-like column that is not a
+ * standard error, abundance tables average the numeric sample columns (not
+ * statistics, fold changes or DESeq2's baseMean).
+ */
+export const guessColumnSpec = (headers: string[], rows: string[][], foldChange: boolean): ColumnSpec => {
+  const idColumn = headers[0] ?? '';
+  const numeric = numericColumns(headers, rows).filter((h) => h !== idColumn);
+  const adj = headers.find((h) => ADJ_P_HEADER.test(h));
+  const raw = headers.find((h) => RAW_P_HEADER.test(h));
+  const significanceColumn = adj ?? raw ?? null;
+
+  let valueColumns: string[];
+  if (foldChange) {
+    const fc = numeric.find((h) => FC_HEADER.test(h) && !STAT_HEADER.test(h));
+    valueColumns = fc ? [fc] : numeric.slice(0, 1);
+  } else {
+    const samples = numeric.filter((h) => !STAT_HEADER.test(h) && !FC_HEADER.test(h) && !/basemean/i.test(h));
+    valueColumns = samples.length ? samples : numeric.slice(0, 1);
+  }
+  return { idColumn, valueColumns, significanceColumn, secondaryColumn: null, sliced: false, categorical: false };
+};
+
+/** Guess a spec from an already-parsed DataMap (keys of the first record are the headers). */
+export const guessColumnSpecForMap = (data: Map<string, Record<string, string>>, foldChange: boolean): ColumnSpec => {
+  const records = Array.from(data.values()).slice(0, SNIFF_ROWS);
+  const headers = records.length ? Object.keys(records[0]) : [];
+  return guessColumnSpec(headers, records.map((r) => headers.map((h) => r[h] ?? '')), foldChange);
+};
+
+/** True when every column the spec names exists in the table. */
+export const specFits = (spec: ColumnSpec | null | undefined, headers: string[]): spec is ColumnSpec =>
+  !!spec &&
+  headers.includes(spec.idColumn) &&
+  spec.valueColumns.length > 0 &&
+  spec.valueColumns.every((c) => headers.includes(c)) &&
+  (spec.significanceColumn === null || headers.includes(spec.significanceColumn)) &&
+  (spec.secondaryColumn === null || headers.includes(spec.secondaryColumn));
+
+const storageKey = (kind: TableKind, headers: string[]): string =>
+  `${STORAGE_PREFIX}${kind}:${headers.join('\u001f')}`;
+
+/** A previously saved choice for this exact header row, if any. */
+export const loadColumnSpec = (kind: TableKind, headers: string[]): ColumnSpec | null => {
+  try {
+    const raw = localStorage.getItem(storageKey(kind, headers));
+    const spec = raw ? ({ sliced: false, categorical: false, secondaryColumn: null, ...JSON.parse(raw) } as ColumnSpec) : null;
+    return specFits(spec, headers) ? spec : null;
+  } catch {
+    return null;
+  }
+};
+
+export const saveColumnSpec = (kind: TableKind, headers: string[], spec: ColumnSpec): void => {
+  try {
+    localStorage.setItem(storageKey(kind, headers), JSON.stringify(spec));
+  } catch {
+    // Private mode / storage full: the choice still applies for this session.
+  }
+};
+
+/** Remembered choice for these headers, else the heuristic guess. */
+export const resolveColumnSpec = (kind: TableKind, headers: string[], rows: string[][], foldChange: boolean): ColumnSpec =>
+  loadColumnSpec(kind, headers) ?? guessColumnSpec(headers, rows, foldChange);
+
+/** One value per value column, in column order (NaN where a cell isn't numeric). */
+export const specSlices = (record: Record<string, string>, spec: ColumnSpec): number[] =>
+  spec.valueColumns.map((col) => parseFloat(record[col] ?? ''));
+
+/** The overlay value for one record: the mean of the finite values in the spec's value columns. */
+export const specValue = (record: Record<string, string>, spec: ColumnSpec): number => {
+  let sum = 0, n = 0;
+  for (const col of spec.valueColumns) {
+    const v = parseFloat(record[col] ?? '');
+    if (Number.isFinite(v)) { sum += v; n++; }
+  }
+  return n ? sum / n : NaN;
+};
+
+/** A cell's category label, or null when it is empty or NA. */
+export const categoryOf = (cell: string | undefined): string | null => {
+  const c = (cell ?? '').trim();
+  return c && c.toUpperCase() !== 'NA' ? c : null;
+};
+
+/** The most frequent category among some cells; ties go to the one seen first. */
+export const modeCategory = (cells: (string | undefined)[]): string | null => {
+  const counts = new Map<string, number>();
+  let best: string | null = null;
+  for (const cell of cells) {
+    const c = categoryOf(cell);
+    if (c === null) continue;
+    const n = (counts.get(c) ?? 0) + 1;
+    counts.set(c, n);
+    if (best === null || n > (counts.get(best) ?? 0)) best = c;
+  }
+  return best;
+};
+
+/** The category for one record of a categorical spec: the most frequent across its value columns. */
+export const specCategory = (record: Record<string, string>, spec: ColumnSpec): string | null =>
+  modeCategory(spec.valueColumns.map((col) => record[col]));
+
+/**
+ * Distinct categories in a categorical spec's value columns, in natural sort
+ * order ("2" before "10") so preset colors don't depend on row order.
+ */
+export const specCategories = (records: Record<string, string>[], spec: ColumnSpec): string[] => {
+  const seen = new Set<string>();
+  for (const record of records) {
+    for (const col of spec.valueColumns) {
+      const c = categoryOf(record[col]);
+      if (c !== null) seen.add(c);
+    }
+  }
+  return Array.from(seen).sort((a, b) => a.localeCompare(b, undefined, { numeric: true }));
+};
+
+/** specCategories for a parsed upload (header row + cell rows), as the Sidebar's scale editor needs. */
+export const tableCategories = (headers: string[], rows: string[][], spec: ColumnSpec): string[] =>
+  specCategories(rows.map((row) => Object.fromEntries(headers.map((h, i) => [h, row[i] ?? '']))), spec);
@@ -1,33 +1,30 @@
-import { type DataType } from '../types';
+import { type DataType, type ColumnSpec, type DuplicateAggregation } from '../types';
+import { parseTable, csvCell } from './tableParser';
+import { aggregateRecords, type RowRecords } from './aggregation';
 
 const MAX_GENES_TO_SEND = 500;
 
 /**
- * Parses a CSV or TSV string into headers and rows.
+ * Parses a CSV, TSV or semicolon-separated string into headers and rows.
+ * Delimiter, quoting and decimal commas are detected by ./tableParser.
  * @param data The raw string data.
  * @returns An object with headers and rows.
  */
 const parseData = (data: string): { headers: string[], rows: string[][] } => {
-    const lines = data.trim().split('\n').filter(line => line.trim() !== '');
-    if (lines.length === 0) {
-        return { headers: [], rows: [] };
-    }
-    const delimiter = lines[0].includes(',') ? ',' : '\t';
-    const headers = lines[0].split(delimiter).map(h => h.trim());
-    const rows = lines.slice(1).map(line => line.split(delimiter).map(col => col.trim()));
+    const { headers, rows } = parseTable(data);
     return { headers, rows };
 };
 
 /**
- * Converts headers and rows back into a CSV string.
+ * Converts headers and rows back into a CSV string, quoting cells as needed.
  * @param headers The column headers.
  * @param rows The data rows.
  * @returns A CSV formatted string.
  */
 const stringifyData = (headers: string[], rows: string[][]): string => {
     if (headers.length === 0) return '';
-    const headerString = headers.join(',');
-    const rowStrings = rows.map(row => row.join(','));
+    const headerString = headers.map(csvCell).join(',');
+    const rowStrings = rows.map(row => row.map(csvCell).join(','));
     return [headerString, ...rowStrings].join('\n');
 };
 
@@ -87,39 +84,81 @@ export const summarizeGeneData = (geneData: string, dataType: DataType): string
 };
 
 /**
- * Parses the raw data string to extract a list of unique gene IDs from the first column.
+ * Index of the identifier column: the named column if present, else the first.
+ * @param headers The column headers.
+ * @param idColumn The identifier column chosen in the column-mapping panel.
+ * @returns A column index.
+ */
+const idIndex = (headers: string[], idColumn?: string): number => {
+    const index = idColumn === undefined ? -1 : headers.indexOf(idColumn);
+    return index === -1 ? 0 : index;
+};
+
+/**
+ * Parses the raw data string to extract a list of unique gene IDs from the identifier column.
  * @param geneData The raw gene expression data as a string.
+ * @param idColumn The identifier column (defaults to the first column).
  * @returns An array of unique gene ID strings.
  */
-export const parseGeneIds = (geneData: string): string[] => {
-    const { rows } = parseData(geneData);
-    const geneIds = rows.map(row => row[0]).filter(Boolean); // Get first column and filter out empty strings
+export const parseGeneIds = (geneData: string, idColumn?: string): string[] => {
+    const { headers, rows } = parseData(geneData);
+    const index = idIndex(headers, idColumn);
+    const geneIds = rows.map(row => row[index]).filter(Boolean); // Filter out empty strings
     return [...new Set(geneIds)]; // Return unique IDs
 };
 
 /**
- * Parses raw data string into a Map for easy lookup.
- * @param data The raw data string (CSV/TSV).
- * @returns A Map where the key is the identifier from the first column and the value is an object of the row data.
+ * Parses raw data string into a Map for easy lookup, collapsing rows that share an identifier.
+ * @param data The raw data string (CSV/TSV), or an already parsed table.
+ * @param idColumn The identifier column (defaults to the first column).
+ * @param aggregation How duplicate identifiers are merged (keeps the first row when omitted).
+ * @returns The Map keyed by identifier, plus the rows behind each collapsed identifier.
  */
-export const parseDataToMap = (data: string): Map<string, Record<string, string>> => {
+export const collapseDataToMap = (
+    data: string | { headers: string[], rows: string[][] },
+    idColumn?: string,
+    aggregation?: { spec: ColumnSpec; mode: DuplicateAggregation }
+): { dataMap: Map<string, Record<string, string>>; rowRecords: RowRecords } => {
     const dataMap = new Map<string, Record<string, string>>();
-    const { headers, rows } = parseData(data);
+    const rowRecords: RowRecords = new Map();
+    const { headers, rows } = typeof data === 'string' ? parseData(data) : data;
 
     if (headers.length === 0 || rows.length === 0) {
-        return dataMap;
+        return { dataMap, rowRecords };
     }
 
+    const idIdx = idIndex(headers, idColumn);
+    const groups = new Map<string, Record<string, string>[]>();
     rows.forEach(row => {
-        const identifier = row[0];
+        const identifier = row[idIdx];
         if (identifier) {
             const rowData: Record<string, string> = {};
             headers.forEach((header, index) => {
                 rowData[header] = row[index];
             });
-            dataMap.set(identifier, rowData);
+            const group = groups.get(identifier);
+            if (group) group.push(rowData);
+            else groups.set(identifier, [rowData]);
         }
     });
 
-    return dataMap;
+    groups.forEach((records, identifier) => {
+        if (records.length > 1) rowRecords.set(identifier, records);
+        dataMap.set(identifier, aggregation ? aggregateRecords(records, aggregation.spec, aggregation.mode) : records[0]);
+    });
+
+    return { dataMap, rowRecords };
 };
+
+/**
+ * Parses raw data string into a Map for easy lookup.
+ * @param data The raw data string (CSV/TSV).
+ * @param idColumn The identifier column (defaults to the first column).
+ * @param aggregation How duplicate identifiers are merged (keeps the first row when omitted).
+ * @returns A Map where the key is the identifier from the identifier column and the value is an object of the row data.
+ */
+export const parseDataToMap = (
+    data: string,
+    idColumn?: string,
+    aggregation?: { spec: ColumnSpec; mode: DuplicateAggregation }
+): Map<string, Record<string, string>> => collapseDataToMap(data, idColumn, aggregation).dataMap;
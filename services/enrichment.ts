@@ -0,0 +1,128 @@
+/**
+ * Over-representation analysis: which pathways hold more of the significant
+ * genes than chance would put there. One-sided hypergeometric (Fisher's exact)
+ * test per pathway against a background gene list, Benjamini–Hochberg FDR
+ * across every pathway tested. Pure functions; pathwayService supplies the
+ * gene sets.
+ */
+
+import { type ColumnSpec, type VisualizationConfig } from '../types';
+import { specValue } from './columnMapping';
+
+/** A pathway's members among the ids that were looked up (ids as uploaded). */
+export interface GeneSet {
+  id: string;
+  name: string;
+  members: Set<string>;
+}
+
+export interface EnrichmentRow {
+  id: string;
+  name: string;
+  /** Query genes in the pathway. */
+  hits: number;
+  /** Background genes in the pathway. */
+  size: number;
+  /** Hits expected by chance: size × query / background. */
+  expected: number;
+  p: number;
+  fdr: number;
+  hitIds: string[];
+}
+
+export interface EnrichmentResult {
+  rows: EnrichmentRow[];
+  /** Query genes that fall in at least one pathway (the n of the test). */
+  query: number;
+  /** Background genes that fall in at least one pathway (the N of the test). */
+  background: number;
+}
+
+// ln(n!) for n up to the largest background; grown on demand.
+const logFactorials: number[] = [0];
+const logFactorial = (n: number): number => {
+  for (let i = logFactorials.length; i <= n; i++) logFactorials[i] = logFactorials[i - 1] + Math.log(i);
+  return logFactorials[n];
+};
+const logChoose = (n: number, k: number): number => logFactorial(n) - logFactorial(k) - logFactorial(n - k);
+
+/**
+ * P(X ≥ k) for X ~ Hypergeometric(N, K, n): the chance of drawing at least k
+ * of the K pathway genes when n genes are drawn from N.
+ */
+export const hypergeometricUpper = (k: number, K: number, n: number, N: number): number => {
+  const hi = Math.min(K, n);
+  if (k <= Math.max(0, n - (N - K))) return 1;
+  if (k > hi) return 0;
+  const denom = logChoose(N, n);
+  let p = 0;
+  for (let i = k; i <= hi; i++) p += Math.exp(logChoose(K, i) + logChoose(N - K, n - i) - denom);
+  return Math.min(1, p);
+};
+
+/** Benjamini–Hochberg adjusted p-values, in input order. */
+export const benjaminiHochberg = (ps: number[]): number[] => {
+  const m = ps.length;
+  const order = ps.map((p, i) => [p, i] as const).sort((a, b) => b[0] - a[0]);
+  const out = new Array<number>(m);
+  let min = 1;
+  order.forEach(([p, i], r) => {
+    min = Math.min(min, (p * m) / (m - r));
+    out[i] = min;
+  });
+  return out;
+};
+
+/**
+ * Test every pathway with at least one background gene. Query genes outside
+ * the background are ignored, and both lists count only genes in some pathway,
+ * the usual "annotated universe" convention.
+ */
+export const runEnrichment = (sets: GeneSet[], query: Set<string>, background: Set<string>): EnrichmentResult => {
+  const annotated = new Set<string>();
+  sets.forEach((s) => s.members.forEach((g) => { if (background.has(g)) annotated.add(g); }));
+  const n = Array.from(query).filter((g) => annotated.has(g)).length;
+  const N = annotated.size;
+  const tested = sets
+    .map((s) => {
+      const inBackground = Array.from(s.members).filter((g) => background.has(g));
+      const hitIds = inBackground.filter((g) => query.has(g)).sort();
+      const size = inBackground.length;
+      return { id: s.id, name: s.name, hits: hitIds.length, size, expected: N ? (size * n) / N : 0, p: hypergeometricUpper(hitIds.length, size, n, N), hitIds };
+    })
+    .filter((r) => r.size > 0);
+  const fdr = benjaminiHochberg(tested.map((r) => r.p));
+  const rows = tested.map((r, i) => ({ ...r, fdr: fdr[i] })).sort((a, b) => a.p - b.p || b.hits - a.hits);
+  return { rows, query: n, background: N };
+};
+
+/**
+ * Split an uploaded table into the query (rows passing the significance cutoff
+ * and, for fold changes, the |log2FC| minimum, as on the map) and the
+ * background (every id in the table).
+ */
+export const splitQuery = (
+  headers: string[],
+  rows: string[][],
+  spec: ColumnSpec,
+  config: Pick<VisualizationConfig, 'dataType' | 'significanceCutoff' | 'minAbsLog2FC'>
+): { query: Set<string>; background: Set<string> } => {
+  const query = new Set<string>();
+  const background = new Set<string>();
+  const foldChange = config.dataType === 'deseq2' && !spec.categorical;
+  rows.forEach((row) => {
+    const record = Object.fromEntries(headers.map((h, i) => [h, row[i] ?? '']));
+    const id = record[spec.idColumn]?.trim();
+    if (!id) return;
+    background.add(id);
+    const p = spec.significanceColumn ? parseFloat(record[spec.significanceColumn]) : NaN;
+    const pOk = !spec.significanceColumn || (Number.isFinite(p) && p <= config.significanceCutoff);
+    const fcOk = !foldChange || Math.abs(specValue(record, spec)) >= config.minAbsLog2FC;
+    if (pOk && fcOk) query.add(id);
+  });
+  return { query, background };
+};
+
+/** Ids of a pasted or uploaded background list: one per line, or separated by commas, tabs or spaces. */
+export const parseIdList = (text: string): Set<string> =>
+  new Set(text.split(/[\s,;]+/).map((s) => s.trim()).filter(Boolean));
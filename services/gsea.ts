@@ -0,0 +1,227 @@
+/**
+ * Pre-ranked gene-set scoring (GSEA-style): the uploaded genes ordered by one
+ * column of the table (log2FC, DESeq2's Wald `stat`, ...), a weighted running
+ * sum per pathway, and gene-set permutation p-values. `scoreGeneSets` does the
+ * work inside gsea.worker.ts; `runGseaInWorker` is the main-thread side, and
+ * `enrichmentCurve` redraws one pathway's running sum for the plot.
+ */
+
+import { benjaminiHochberg } from './enrichment';
+
+export interface RankedGene {
+  id: string;
+  score: number;
+}
+
+export interface GseaRequest {
+  /** Genes by descending score. */
+  ranked: RankedGene[];
+  sets: { id: string; name: string; members: string[] }[];
+  permutations: number;
+  /** Sets with fewer / more ranked genes than this are not scored. */
+  minSize: number;
+  maxSize: number;
+  /** Seeds the permutations, so a rerun gives the same p-values. */
+  seed: number;
+}
+
+export interface GseaRow {
+  id: string;
+  name: string;
+  /** Ranked genes in the set. */
+  size: number;
+  /** Enrichment score: the running sum's largest deviation from zero. */
+  es: number;
+  /** ES over the mean of same-signed null ES for sets of this size. */
+  nes: number;
+  p: number;
+  fdr: number;
+  /** Ranks (indices into `ranked`) of the set's genes, ascending. */
+  positions: number[];
+  /** Set genes up to the running-sum peak (from the trough on, for a negative ES). */
+  leadingEdge: string[];
+}
+
+export interface GseaResult {
+  ranked: RankedGene[];
+  rows: GseaRow[];
+  /** The column genes were ranked by. */
+  metric: string;
+  permutations: number;
+}
+
+/** What the worker posts back. */
+export type GseaMessage =
+  | { type: 'progress'; done: number; total: number }
+  | { type: 'result'; result: Omit<GseaResult, 'metric'> }
+  | { type: 'error'; message: string };
+
+/**
+ * One score per distinct id from `column`, highest first. Rows without a
+ * finite score are dropped; a duplicated id keeps its largest |score|.
+ */
+export const rankGenes = (headers: string[], rows: string[][], idColumn: string, column: string): RankedGene[] => {
+  const idIx = headers.indexOf(idColumn);
+  const scoreIx = headers.indexOf(column);
+  if (idIx < 0 || scoreIx < 0) return [];
+  const best = new Map<string, number>();
+  rows.forEach((row) => {
+    const id = (row[idIx] ?? '').trim();
+    const score = parseFloat(row[scoreIx] ?? '');
+    if (!id || !Number.isFinite(score)) return;
+    const prev = best.get(id);
+    if (prev === undefined || Math.abs(score) > Math.abs(prev)) best.set(id, score);
+  });
+  return Array.from(best, ([id, score]) => ({ id, score })).sort((a, b) => b.score - a.score || a.id.localeCompare(b.id));
+};
+
+// The classic weighted Kolmogorov–Smirnov walk (weight |score|¹): each set gene
+// steps up by its share of the set's total weight, every other gene steps down
+// by 1 / (N − k). Set genes all weighing zero step up equally.
+const hitSteps = (positions: number[], weights: Float64Array): ((i: number) => number) => {
+  let total = 0;
+  for (const i of positions) total += weights[i];
+  return total > 0 ? (i) => weights[i] / total : () => 1 / positions.length;
+};
+
+// The walk only turns at set genes, so visiting them in rank order is enough.
+const enrichmentScore = (positions: number[], weights: Float64Array): { es: number; at: number } => {
+  const n = weights.length;
+  const miss = 1 / (n - positions.length);
+  const step = hitSteps(positions, weights);
+  let run = 0, max = 0, min = 0, maxAt = -1, minAt = -1, prev = -1;
+  for (const i of positions) {
+    run -= (i - prev - 1) * miss;
+    if (run < min) { min = run; minAt = i - 1; }
+    run += step(i);
+    if (run > max) { max = run; maxAt = i; }
+    prev = i;
+  }
+  return max >= -min ? { es: max, at: maxAt } : { es: min, at: minAt };
+};
+
+/** The running sum of one set as plot vertices [rank, sum]; it is linear in between. */
+export const enrichmentCurve = (ranked: RankedGene[], positions: number[]): [number, number][] => {
+  const weights = Float64Array.from(ranked, (g) => Math.abs(g.score));
+  const miss = 1 / (ranked.length - positions.length);
+  const step = hitSteps(positions, weights);
+  const out: [number, number][] = [[-1, 0]];
+  let run = 0, prev = -1;
+  for (const i of positions) {
+    run -= (i - prev - 1) * miss;
+    if (i - 1 > prev) out.push([i - 1, run]);
+    run += step(i);
+    out.push([i, run]);
+    prev = i;
+  }
+  out.push([ranked.length - 1, 0]);
+  return out;
+};
+
+/** mulberry32: a small, fast, seedable source of numbers in [0, 1). */
+export const randomSource = (seed: number): (() => number) => {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+/**
+ * Score every set with `minSize`…`maxSize` ranked genes. The null for a set of
+ * k genes is the ES of `permutations` random k-gene sets (shared by all sets of
+ * that size); p is the share of same-signed null scores at least as extreme,
+ * and FDR is Benjamini–Hochberg across the scored sets.
+ */
+export const scoreGeneSets = (request: GseaRequest, onProgress?: (done: number, total: number) => void): Omit<GseaResult, 'metric'> => {
+  const { ranked, permutations } = request;
+  const n = ranked.length;
+  const rankOf = new Map(ranked.map((g, i) => [g.id, i]));
+  const weights = Float64Array.from(ranked, (g) => Math.abs(g.score));
+  const maxSize = Math.min(request.maxSize, n - 1);
+  const scored = request.sets
+    .map((s) => ({ ...s, positions: Array.from(new Set(s.members.map((m) => rankOf.get(m)).filter((i): i is number => i !== undefined))).sort((a, b) => a - b) }))
+    .filter((s) => s.positions.length >= Math.max(1, request.minSize) && s.positions.length <= maxSize);
+
+  const random = randomSource(request.seed);
+  const pool = Int32Array.from({ length: n }, (_, i) => i);
+  const nulls = new Map<number, Float64Array>();
+  const nullFor = (k: number): Float64Array => {
+    let dist = nulls.get(k);
+    if (dist) return dist;
+    dist = new Float64Array(permutations);
+    const sample = new Array<number>(k);
+    const swaps = new Int32Array(k);
+    for (let p = 0; p < permutations; p++) {
+      // Partial Fisher–Yates, then undo the swaps so the pool stays 0…n−1.
+      for (let j = 0; j < k; j++) {
+        const r = j + Math.floor(random() * (n - j));
+        const t = pool[j]; pool[j] = pool[r]; pool[r] = t;
+        sample[j] = pool[j];
+        swaps[j] = r;
+      }
+      for (let j = k - 1; j >= 0; j--) {
+        const r = swaps[j];
+        const t = pool[j]; pool[j] = pool[r]; pool[r] = t;
+      }
+      dist[p] = enrichmentScore([...sample].sort((a, b) => a - b), weights).es;
+    }
+    nulls.set(k, dist);
+    return dist;
+  };
+
+  const rows = scored.map((s, done) => {
+    onProgress?.(done, scored.length);
+    const { es, at } = enrichmentScore(s.positions, weights);
+    let same = 0, extreme = 0, sum = 0;
+    for (const v of nullFor(s.positions.length)) {
+      if (es >= 0 ? v < 0 : v >= 0) continue;
+      same++;
+      sum += v;
+      if (es >= 0 ? v >= es : v <= es) extreme++;
+    }
+    const leadingEdge = s.positions.filter((i) => (es >= 0 ? i <= at : i > at)).map((i) => ranked[i].id);
+    return {
+      id: s.id, name: s.name, size: s.positions.length, es,
+      nes: same ? es / Math.abs(sum / same) : NaN,
+      p: (extreme + 1) / (same + 1),
+      fdr: 1, positions: s.positions, leadingEdge,
+    };
+  });
+  onProgress?.(scored.length, scored.length);
+  const fdr = benjaminiHochberg(rows.map((r) => r.p));
+  rows.forEach((r, i) => { r.fdr = fdr[i]; });
+  return { ranked, rows: rows.sort((a, b) => a.p - b.p || Math.abs(b.nes) - Math.abs(a.nes)), permutations };
+};
+
+/**
+ * Score in a Web Worker so the page stays responsive; `cancel` terminates it.
+ * Progress arrives as sets scored out of sets to score.
+ */
+export const runGseaInWorker = (
+  request: GseaRequest,
+  metric: string,
+  onProgress?: (done: number, total: number) => void
+): { promise: Promise<GseaResult>; cancel: () => void } => {
+  const worker = new Worker(new URL('./gsea.worker.ts', import.meta.url), { type: 'module' });
+  const promise = new Promise<GseaResult>((resolve, reject) => {
+    worker.onmessage = (e: MessageEvent<GseaMessage>) => {
+      const msg = e.data;
+      if (msg.type === 'progress') onProgress?.(msg.done, msg.total);
+      else {
+        worker.terminate();
+        if (msg.type === 'result') resolve({ ...msg.result, metric });
+        else reject(new Error(msg.message));
+      }
+    };
+    worker.onerror = (e) => {
+      worker.terminate();
+      reject(new Error(e.message || 'Gene-set scoring failed.'));
+    };
+    worker.postMessage(request);
+  });
+  return { promise, cancel: () => worker.terminate() };
+};
@@ -0,0 +1,27 @@
+/**
+ * Web Worker for gene-set scoring: receives a GseaRequest, posts progress
+ * roughly every 2% of the sets, then the result (or an error).
+ */
+
+import { type GseaMessage, type GseaRequest, scoreGeneSets } from './gsea';
+
+// The project compiles against the DOM lib, so type the worker scope by hand.
+const scope = self as unknown as {
+  onmessage: ((e: MessageEvent<GseaRequest>) => void) | null;
+  postMessage: (msg: GseaMessage) => void;
+};
+
+scope.onmessage = (e) => {
+  try {
+    let last = -1;
+    const result = scoreGeneSets(e.data, (done, total) => {
+      const pct = total ? Math.floor((done / total) * 50) : 50;
+      if (pct === last) return;
+      last = pct;
+      scope.postMessage({ type: 'progress', done, total });
+    });
+    scope.postMessage({ type: 'result', result });
+  } catch (err) {
+    scope.postMessage({ type: 'error', message: err instanceof Error ? err.message : 'Gene-set scoring failed.' });
+  }
+};
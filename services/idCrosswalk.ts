@@ -0,0 +1,348 @@
+/**
+ * Offline identifier crosswalks.
+ *
+ * Genes: uploaded tables keyed by Ensembl, Entrez, UniProt, TAIR or KEGG ids are
+ * rewritten to the id type the pathway source labels its glyphs with (symbols on
+ * SBGN maps, KEGG gene ids in KGML) before the overlay is built, using
+ * per-species tables bundled in public/data/idmap/genes/ (tools/build_idmap.py).
+ *
+ * Compounds: one species-independent table (public/data/idmap/compounds.json,
+ * tools/build_compound_idmap.py) gives each uploaded KEGG / ChEBI / HMDB /
+ * PubChem id or name the synonyms the overlay also matches glyph labels against.
+ *
+ * User synonyms: an optional uploaded table of extra names per identifier, for
+ * labels no bundled table knows.
+ */
+
+import { type VisualizationConfig } from '../types';
+import { detectDelimiter, splitDelimitedLine } from './tableParser';
+
+// --- genes --------------------------------------------------------------------
+
+export type GeneIdType = 'SYMBOL' | 'Entrez' | 'Ensembl' | 'UniProt' | 'TAIR' | 'KEGG';
+
+/** Sidebar options, in display order. */
+export const GENE_ID_TYPES: GeneIdType[] = ['SYMBOL', 'Ensembl', 'Entrez', 'UniProt', 'TAIR', 'KEGG'];
+
+/** Offered for every species: without a table they still match glyph labels and annotations as uploaded. */
+export const MATCHED_GENE_ID_TYPES: GeneIdType[] = ['SYMBOL', 'Ensembl', 'Entrez', 'UniProt'];
+
+/** A per-species table: one row per gene, one cell per id type ("|" separates several ids). */
+export interface Crosswalk {
+  organism: string;
+  /** Set when the table is not genome-wide: what it does cover (e.g. "demo table: the 8 demo-map genes only"). */
+  coverage?: string;
+  /** The id types `coverage` is about, when the others are genome-wide; all of them when absent. */
+  partial?: string[];
+  types: string[];
+  genes: string[][];
+}
+
+export interface CrosswalkIndexEntry {
+  file: string;
+  organism: string;
+  /** Species ids (KEGG org code, Reactome dbId, NCBI taxon, ...) that select this table. */
+  species: string[];
+  /** The id types the table has any ids of. */
+  types?: GeneIdType[];
+}
+
+export interface ConversionReport {
+  from: GeneIdType;
+  to: GeneIdType;
+  organisms: string[];
+  /** "Organism: coverage" for each table used that is not genome-wide. */
+  partial: string[];
+  /** Distinct uploaded ids with exactly one target id. */
+  converted: number;
+  /** Distinct ids with several targets (the first one in the table is used). */
+  ambiguous: number;
+  /** Distinct ids without a target; these keep their original id. */
+  unconvertible: number;
+  /** Uploaded ids behind each target id they were rewritten to. */
+  sources: Map<string, string[]>;
+}
+
+// App base path (Vite injects import.meta.env.BASE_URL, e.g. ".../app/").
+const BASE_URL: string = ((import.meta as any)?.env?.BASE_URL as string) || './';
+
+// Header names and OSDR manifest values that mean one of our id types.
+const ID_TYPE_ALIASES: Record<string, GeneIdType> = {
+  SYMBOL: 'SYMBOL', GENE_SYMBOL: 'SYMBOL', GENENAME: 'SYMBOL',
+  ENTREZ: 'Entrez', ENTREZID: 'Entrez', NCBI: 'Entrez', GENEID: 'Entrez',
+  ENSEMBL: 'Ensembl', ENSEMBLID: 'Ensembl',
+  UNIPROT: 'UniProt', UNIPROTKB: 'UniProt',
+  TAIR: 'TAIR', AGI: 'TAIR',
+  KEGG: 'KEGG',
+};
+
+/** Interpret a geneIdType setting (case-insensitive, common aliases); null if unknown. */
+export const asGeneIdType = (s: string): GeneIdType | null =>
+  ID_TYPE_ALIASES[s.trim().toUpperCase().replace(/[\s-]+/g, '_')] ?? null;
+
+/**
+ * identifiers.org prefix of each id type, the namespace annotation matching
+ * files bare uploaded ids under (overlay accessionKey).
+ */
+export const GENE_ID_NAMESPACES: Record<GeneIdType, string> = {
+  SYMBOL: 'hgnc.symbol', Entrez: 'ncbigene', Ensembl: 'ensembl', UniProt: 'uniprot', TAIR: 'tair.locus', KEGG: 'kegg.genes',
+};
+
+/** The id type the pathway source labels genes with. */
+export const targetGeneIdType = (format: 'sbgn' | 'kgml'): GeneIdType => (format === 'kgml' ? 'KEGG' : 'SYMBOL');
+
+let indexPromise: Promise<CrosswalkIndexEntry[]> | null = null;
+const tablePromises = new Map<string, Promise<Crosswalk>>();
+
+const loadIndex = (): Promise<CrosswalkIndexEntry[]> => {
+  if (!indexPromise) {
+    indexPromise = fetch(`${BASE_URL}data/idmap/genes/index.json`)
+      .then((res) => (res.ok ? res.json() : []))
+      .then((data) => (Array.isArray(data) ? data : []))
+      .catch(() => []);
+  }
+  return indexPromise;
+};
+
+const loadTable = (file: string): Promise<Crosswalk> => {
+  let p = tablePromises.get(file);
+  if (!p) {
+    p = fetch(`${BASE_URL}data/idmap/genes/${file}.json`).then((res) => {
+      if (!res.ok) throw new Error(`gene id table ${file} not found`);
+      return res.json() as Promise<Crosswalk>;
+    });
+    tablePromises.set(file, p);
+  }
+  return p;
+};
+
+/**
+ * The index entries of the selected species' tables (matched on the species id,
+ * then on a KEGG pathway id's organism prefix, e.g. "ath00940"; custom SBGN
+ * files keep the species last picked). A species without a table gets none, not
+ * another species' table: its ids are matched as uploaded.
+ */
+export async function loadGeneCrosswalkEntries(config: Pick<VisualizationConfig, 'speciesId' | 'pathwayId'>): Promise<CrosswalkIndexEntry[]> {
+  const index = await loadIndex();
+  const keggOrg = /^([a-z]{3,4})\d{5}$/.exec(config.pathwayId || '')?.[1];
+  const selected =
+    index.filter((e) => config.speciesId && e.species.includes(config.speciesId)).concat(
+      index.filter((e) => keggOrg && e.species.includes(keggOrg))
+    );
+  return [...new Set(selected)];
+}
+
+/** Crosswalk tables for the selected species (see loadGeneCrosswalkEntries). */
+export async function loadGeneCrosswalks(config: Pick<VisualizationConfig, 'speciesId' | 'pathwayId'>): Promise<Crosswalk[]> {
+  const entries = await loadGeneCrosswalkEntries(config);
+  const tables = await Promise.all(entries.map((e) => loadTable(e.file).catch(() => null)));
+  return tables.filter(Boolean) as Crosswalk[];
+}
+
+// Version / isoform / gene-model suffixes (ENSG….12, P12345-2, AT1G01060.1) and
+// KEGG org prefixes don't change the gene.
+const normalizeId = (type: GeneIdType, id: string): string => {
+  let s = id.trim().toUpperCase();
+  if (type === 'Ensembl' || type === 'UniProt' || type === 'TAIR') s = s.replace(/[.-]\d+$/, '');
+  if (type === 'KEGG') s = s.replace(/^[A-Z]{3,4}:/, '');
+  return s;
+};
+
+// KGML entries are matched on their org-stripped ids ("ath:AT1G01060" → "AT1G01060").
+const targetValue = (type: GeneIdType, id: string): string => (type === 'KEGG' ? id.replace(/^[a-z]{3,4}:/i, '') : id);
+
+// KEGG cells already carry their organism ("hsa:2305").
+const qualifiedId = (type: string, id: string): string => {
+  const ns = GENE_ID_NAMESPACES[type as GeneIdType];
+  return ns && !id.includes(':') ? `${ns}:${id}` : id;
+};
+
+/** Lookup from a (normalized) `from` id to its distinct `to` ids, in table order. */
+export const buildGeneConverter = (tables: Crosswalk[], from: GeneIdType, to: GeneIdType): ((id: string) => string[]) => {
+  const index = new Map<string, string[]>();
+  for (const t of tables) {
+    const fi = t.types.indexOf(from), ti = t.types.indexOf(to);
+    if (fi === -1 || ti === -1) continue;
+    for (const row of t.genes) {
+      const targets = (row[ti] ?? '').split('|').filter(Boolean).map((v) => targetValue(to, v));
+      if (!targets.length) continue;
+      for (const src of (row[fi] ?? '').split('|').filter(Boolean)) {
+        const key = normalizeId(from, src);
+        const list = index.get(key) ?? [];
+        for (const v of targets) if (!list.includes(v)) list.push(v);
+        index.set(key, list);
+      }
+    }
+  }
+  return (id) => index.get(normalizeId(from, id)) ?? [];
+};
+
+/**
+ * Every id in the crosswalk row of a gene keyed by a `keyType` id (SYMBOL,
+ * Ensembl, UniProt, ...), so a glyph annotated with a UniProt accession still
+ * finds data uploaded (or converted) as symbols. Ids come prefixed with their
+ * namespace ("ncbigene:2305"): a bare Entrez number would say nothing about
+ * which database it is from.
+ */
+export const buildGeneSynonyms = (tables: Crosswalk[], keyType: GeneIdType): ((id: string) => string[]) => {
+  const index = new Map<string, string[]>();
+  for (const t of tables) {
+    const ki = t.types.indexOf(keyType);
+    if (ki === -1) continue;
+    for (const row of t.genes) {
+      const ids = row.flatMap((cell, i) => cell.split('|').filter(Boolean).map((v) => qualifiedId(t.types[i], v)));
+      for (const key of (row[ki] ?? '').split('|').filter(Boolean)) {
+        const norm = normalizeId(keyType, targetValue(keyType, key));
+        index.set(norm, [...(index.get(norm) ?? []), ...ids]);
+      }
+    }
+  }
+  return (id) => index.get(normalizeId(keyType, id)) ?? [];
+};
+
+/**
+ * Rewrite the identifier column of a parsed table to the target id type. Rows
+ * whose id has no target keep it (it may still match a glyph label directly).
+ */
+export const convertTableIds = (
+  table: { headers: string[]; rows: string[][] },
+  idColumn: string,
+  tables: Crosswalk[],
+  from: GeneIdType,
+  to: GeneIdType
+): { headers: string[]; rows: string[][]; report: ConversionReport } => {
+  const convert = buildGeneConverter(tables, from, to);
+  const idx = Math.max(0, table.headers.indexOf(idColumn));
+  const outcome = new Map<string, 'converted' | 'ambiguous' | 'unconvertible'>();
+  const sources = new Map<string, string[]>();
+  const rows = table.rows.map((row) => {
+    const id = row[idx];
+    const targets = convert(id);
+    outcome.set(id, targets.length === 0 ? 'unconvertible' : targets.length === 1 ? 'converted' : 'ambiguous');
+    if (!targets.length) return row;
+    const seen = sources.get(targets[0]) ?? [];
+    if (!seen.includes(id)) sources.set(targets[0], [...seen, id]);
+    const next = [...row];
+    next[idx] = targets[0];
+    return next;
+  });
+  const report: ConversionReport = {
+    from, to, organisms: tables.map((t) => t.organism),
+    partial: tables.flatMap((t) =>
+      t.coverage && (!t.partial || t.partial.includes(from) || t.partial.includes(to)) ? [`${t.organism}: ${t.coverage}`] : []
+    ),
+    converted: 0, ambiguous: 0, unconvertible: 0, sources,
+  };
+  outcome.forEach((o) => { report[o]++; });
+  return { headers: table.headers, rows, report };
+};
+
+/**
+ * e.g. "Gene IDs Ensembl → SYMBOL (Homo sapiens): 812 converted · 3 ambiguous · 41 unconvertible",
+ * followed by what any partial (demo) table covers, so few conversions aren't read as a real result.
+ */
+export const describeConversion = (r: ConversionReport): string =>
+  `Gene IDs ${r.from} → ${r.to}${r.organisms.length ? ` (${r.organisms.join(', ')})` : ''}: ` +
+  `${r.converted.toLocaleString()} converted · ${r.ambiguous.toLocaleString()} ambiguous · ${r.unconvertible.toLocaleString()} unconvertible` +
+  (r.partial.length ? `. Not a genome-wide crosswalk — ${r.partial.join('; ')}; see tools/build_idmap.py.` : '');
+
+// --- compounds ----------------------------------------------------------------
+
+export type CompoundIdType = 'kegg' | 'chebi' | 'hmdb' | 'pubchem' | 'name';
+
+/** Sidebar options, in display order. */
+export const COMPOUND_ID_TYPES: CompoundIdType[] = ['kegg', 'chebi', 'hmdb', 'pubchem', 'name'];
+
+/** One species-independent table: one row per KEGG compound ("|" separates several ids / synonyms). */
+export interface CompoundCrosswalk {
+  types: string[];
+  compounds: string[][];
+}
+
+const COMPOUND_COLUMN: Record<CompoundIdType, string> = { kegg: 'KEGG', chebi: 'ChEBI', hmdb: 'HMDB', pubchem: 'PubChem', name: 'name' };
+
+/** identifiers.org prefix of each id type (see GENE_ID_NAMESPACES); names have none. */
+export const COMPOUND_ID_NAMESPACES: Record<CompoundIdType, string | null> = {
+  kegg: 'kegg.compound', chebi: 'chebi', hmdb: 'hmdb', pubchem: 'pubchem.compound', name: null,
+};
+
+let compoundPromise: Promise<CompoundCrosswalk | null> | null = null;
+
+/** The bundled metabolite crosswalk, or null when it can't be loaded. */
+export const loadCompoundCrosswalk = (): Promise<CompoundCrosswalk | null> => {
+  if (!compoundPromise) {
+    compoundPromise = fetch(`${BASE_URL}data/idmap/compounds.json`)
+      .then((res) => (res.ok ? (res.json() as Promise<CompoundCrosswalk>) : null))
+      .catch(() => null);
+  }
+  return compoundPromise;
+};
+
+export const asCompoundIdType = (s: string): CompoundIdType | null => {
+  const t = s.trim().toLowerCase();
+  return (COMPOUND_ID_TYPES as string[]).includes(t) ? (t as CompoundIdType) : null;
+};
+
+// "cpd:C00002", "CHEBI:15422", "HMDB00538" (old 5-digit form), "CID 5957" all
+// reduce to the bare accession the table stores.
+const normalizeCompoundId = (type: CompoundIdType, id: string): string => {
+  const s = id.trim().toUpperCase();
+  switch (type) {
+    case 'kegg': return s.replace(/^CPD:/, '');
+    case 'chebi': return s.replace(/^CHEBI:/, '');
+    case 'hmdb': return s.replace(/^HMDB0*(\d+)$/, (_, n: string) => `HMDB${n.padStart(7, '0')}`);
+    case 'pubchem': return s.replace(/^(PUBCHEM:|CID:?)\s*/, '');
+    default: return s.replace(/\s+/g, ' ');
+  }
+};
+
+/**
+ * For an uploaded compound id of type `from`, every other way a map may label the
+ * same compound: KEGG C-numbers (KGML nodes), names and synonyms (Reactome SBGN
+ * glyphs), "CHEBI:n", HMDB ids and "pubchem.compound:n". PubChem numbers carry
+ * their prefix so they can't collide with numeric label tokens or Entrez ids.
+ */
+export const buildCompoundSynonyms = (table: CompoundCrosswalk, from: CompoundIdType): ((id: string) => string[]) => {
+  const fi = table.types.indexOf(COMPOUND_COLUMN[from]);
+  const col = (name: string) => table.types.indexOf(name);
+  const kegg = col('KEGG'), chebi = col('ChEBI'), hmdb = col('HMDB'), pubchem = col('PubChem'), name = col('name');
+  const index = new Map<string, string[]>();
+  if (fi === -1) return () => [];
+  for (const row of table.compounds) {
+    const cells = (i: number) => (i === -1 ? [] : (row[i] ?? '').split('|').filter(Boolean));
+    const synonyms = [
+      ...cells(kegg), ...cells(name), ...cells(chebi).map((c) => `CHEBI:${c}`), ...cells(hmdb),
+      ...cells(pubchem).map((c) => `pubchem.compound:${c}`),
+    ];
+    for (const src of cells(fi)) {
+      const key = normalizeCompoundId(from, src);
+      index.set(key, [...(index.get(key) ?? []), ...synonyms]);
+    }
+  }
+  return (id) => index.get(normalizeCompoundId(from, id)) ?? [];
+};
+
+// --- user synonyms ------------------------------------------------------------
+
+/**
+ * Synonyms from a user file: delimited lines, one per gene or compound listing
+ * its uploaded id and the names or ids the map uses for it (several per cell
+ * separated by "|", rows may differ in length). Every line counts, so a file
+ * without a header keeps its first gene; a header ("id,synonyms") only ties its
+ * own column names together, which no uploaded id looks up. Lookup is
+ * case-insensitive.
+ */
+export const buildUserSynonyms = (text: string): ((id: string) => string[]) => {
+  const index = new Map<string, string[]>();
+  const body = text.replace(/^\uFEFF/, '');
+  const delimiter = detectDelimiter(body);
+  for (const line of body.split(/\r\n|\n|\r/)) {
+    const row = splitDelimitedLine(line, delimiter);
+    const names = row.flatMap((cell) => cell.split('|')).map((n) => n.trim()).filter(Boolean);
+    for (const name of names) {
+      const key = name.toUpperCase();
+      index.set(key, [...(index.get(key) ?? []), ...names.filter((n) => n !== name)]);
+    }
+  }
+  return (id) => index.get(id.trim().toUpperCase()) ?? [];
+};
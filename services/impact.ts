@@ -0,0 +1,317 @@
+/**
+ * Topology-aware pathway impact (SPIA-like): measured fold changes spread
+ * along the pathway's signed interactions, so a gene downstream of strongly
+ * changed activators is perturbed even if it was not measured, and an
+ * inhibitor's rise pushes its targets down. `pathwayImpactGraph` reads the
+ * signed interactions off a parsed PathwayModel; `computeImpact` scores them.
+ *
+ * Each node's perturbation factor is PF(i) = ΔE(i) + Σ_j β(j→i) · PF(j) / N_ds(j),
+ * with ΔE the significant log2 fold change (0 otherwise), β = ±1 for activation
+ * / inhibition and N_ds(j) the number of j's downstream nodes (Tarca et al.,
+ * Bioinformatics 2009). The pathway's score is the net accumulated
+ * perturbation tA = Σ (PF − ΔE) over its genes, with a p-value from placing
+ * the same fold changes on random genes of the pathway.
+ */
+
+import { type ColumnSpec, type OverlayMode, type VisualizationConfig } from '../types';
+import { type EntityHit, type Overlay, buildOverlay } from './overlay';
+import { type RenderOptions } from './sbgnRenderer';
+import { type PathwayModel, type PathwayNode, nodeIndex, isGeneNode } from './pathwayModel';
+import { COMPLEX_CLASSES, SUBGLYPH_CLASSES } from './sbgnParser';
+import { randomSource } from './gsea';
+
+export interface ImpactNode {
+  /** Glyph / entry id in the source file. */
+  id: string;
+  label: string;
+  /** Significant measured log2 fold change, 0 when unmeasured or not significant. */
+  delta: number;
+  /**
+   * Gene-like entities are scored, reported and colored; processes, logic
+   * gates, compounds and groups only relay perturbation.
+   */
+  gene: boolean;
+}
+
+export interface ImpactEdge {
+  from: string;
+  to: string;
+  sign: 1 | -1;
+}
+
+export interface ImpactGraph {
+  nodes: ImpactNode[];
+  edges: ImpactEdge[];
+}
+
+export interface NodeImpact {
+  id: string;
+  label: string;
+  delta: number;
+  /** Perturbation factor: the node's own change plus what reaches it. */
+  pf: number;
+  /** Accumulated perturbation, PF − ΔE: the part that came from upstream. */
+  acc: number;
+}
+
+export interface ImpactReport {
+  /** Net accumulated perturbation over the pathway's genes (SPIA's tA); positive means activated. */
+  total: number;
+  /** Share of random placements with at least as large a |tA|. */
+  p: number;
+  permutations: number;
+  /** Gene nodes by |accumulated perturbation|, largest first. */
+  nodes: NodeImpact[];
+  /** Gene nodes with a significant measured change. */
+  measured: number;
+  /** Signed edges the propagation followed. */
+  edges: number;
+  /** Why the analysis could not run; the other fields are then empty. */
+  reason?: string;
+}
+
+/** Sidebar option labels for what the gene colors show. */
+export const OVERLAY_MODE_LABELS: Record<OverlayMode, string> = {
+  values: 'Measured values',
+  impact: 'Pathway impact (SPIA-like)',
+};
+
+// SBGN arc classes that carry perturbation: PD input → process → output and ±
+// modifiers, AF and ER influences. Unknown influences carry no sign.
+const SBGN_ARC_SIGNS: Record<string, 1 | -1> = {
+  consumption: 1,
+  production: 1,
+  catalysis: 1,
+  stimulation: 1,
+  'necessary stimulation': 1,
+  'absolute stimulation': 1,
+  inhibition: -1,
+  'absolute inhibition': -1,
+  'logic arc': 1,
+  'positive influence': 1,
+  'negative influence': -1,
+};
+
+const KGML_ACTIVATING = new Set(['activation', 'expression', 'indirect effect']);
+const KGML_INHIBITING = new Set(['inhibition', 'repression']);
+
+// β of a KGML `<relation>` from its subtype names: −1 if any inhibits, 1 if any
+// activates, else 0 (binding, phosphorylation, compound links carry no sign).
+const kgmlRelationSign = (subtypes: string[]): 1 | -1 | 0 => {
+  const names = subtypes.map((s) => s.toLowerCase().trim());
+  if (names.some((s) => KGML_INHIBITING.has(s))) return -1;
+  return names.some((s) => KGML_ACTIVATING.has(s)) ? 1 : 0;
+};
+
+// ΔE of a glyph from its overlay hit: the significant gene value (members' mean for stripes).
+const hitDelta = (hit: EntityHit | null): number => {
+  if (!hit || hit.kind !== 'gene' || !hit.significant || !hit.fill) return 0;
+  if (hit.value !== undefined) return Number.isFinite(hit.value) ? hit.value : 0;
+  const vals = (hit.members ?? []).map((m) => m.value).filter(Number.isFinite);
+  return vals.length ? vals.reduce((a, b) => a + b, 0) / vals.length : 0;
+};
+
+// KGML reaction edges carry the metabolite flow; SBGN arcs and KGML relations
+// their own sign. What enters a NOT gate leaves it inverted.
+const edgeSign = (model: PathwayModel, cls: string, subtypes: string[] | undefined, target: PathwayNode | undefined): 1 | -1 | 0 => {
+  if (model.format === 'kgml') return cls === 'relation' ? kgmlRelationSign(subtypes ?? []) : 1;
+  const sign = SBGN_ARC_SIGNS[cls] ?? 0;
+  return target?.cls === 'not' ? (-sign as 1 | -1 | 0) : sign;
+};
+
+/**
+ * The map as a signed graph. Process, logic and reaction nodes relay from
+ * their inputs and modifiers to their outputs; SBGN complex members and KGML
+ * group components feed their container. Compartments and state variables
+ * are left out. `delta` is asked for gene nodes only.
+ */
+export const pathwayImpactGraph = (model: PathwayModel, delta: (node: PathwayNode) => number): ImpactGraph => {
+  const byId = nodeIndex(model);
+  const edges: ImpactEdge[] = [];
+  for (const e of model.edges) {
+    const sign = edgeSign(model, e.cls, e.subtypes, byId.get(e.target));
+    if (sign) edges.push({ from: e.source, to: e.target, sign });
+  }
+  for (const n of model.nodes) {
+    if (model.format === 'kgml' ? n.cls === 'group' : COMPLEX_CLASSES.has(n.cls)) {
+      n.children.forEach((c) => edges.push({ from: c, to: n.id, sign: 1 }));
+    }
+  }
+  const nodes = model.nodes
+    .filter((n) => n.id && n.cls !== 'compartment' && !SUBGLYPH_CLASSES.has(n.cls))
+    .map((n) => {
+      const gene = isGeneNode(model, n);
+      return { id: n.id, label: n.label, delta: gene ? delta(n) : 0, gene };
+    });
+  return { nodes, edges };
+};
+
+/** Why impact mode can't use the gene table as configured, or null when it can. */
+export const impactBlocker = (config: VisualizationConfig, spec: ColumnSpec | undefined): string | null => {
+  if (config.dataType !== 'deseq2') return 'Impact analysis propagates log2 fold changes; set Gene Data Type to Log2 Fold Change.';
+  if (spec?.categorical) return 'Impact analysis needs numeric fold changes, not category labels.';
+  if (spec?.sliced && spec.valueColumns.length > 1) return 'Impact analysis needs one fold change per gene; turn off slices in the gene column mapping.';
+  return null;
+};
+
+/** A report that explains why no impact was computed. */
+export const impactUnavailable = (reason: string): ImpactReport => ({
+  total: 0, p: 1, permutations: 0, nodes: [], measured: 0, edges: 0, reason,
+});
+
+// Dense LU factorization with partial pivoting, in place; null when singular.
+const luFactor = (a: Float64Array, n: number): Int32Array | null => {
+  const piv = Int32Array.from({ length: n }, (_, i) => i);
+  for (let k = 0; k < n; k++) {
+    let p = k, best = Math.abs(a[k * n + k]);
+    for (let i = k + 1; i < n; i++) {
+      const v = Math.abs(a[i * n + k]);
+      if (v > best) { best = v; p = i; }
+    }
+    if (best < 1e-10) return null;
+    if (p !== k) {
+      for (let j = 0; j < n; j++) { const t = a[k * n + j]; a[k * n + j] = a[p * n + j]; a[p * n + j] = t; }
+      const t = piv[k]; piv[k] = piv[p]; piv[p] = t;
+    }
+    const d = a[k * n + k];
+    for (let i = k + 1; i < n; i++) {
+      const f = (a[i * n + k] /= d);
+      if (f === 0) continue;
+      for (let j = k + 1; j < n; j++) a[i * n + j] -= f * a[k * n + j];
+    }
+  }
+  return piv;
+};
+
+// Solve A·x = b with the factors of PA = LU.
+const luSolve = (lu: Float64Array, piv: Int32Array, n: number, b: number[]): Float64Array => {
+  const x = Float64Array.from(piv, (p) => b[p]);
+  for (let i = 0; i < n; i++) for (let j = 0; j < i; j++) x[i] -= lu[i * n + j] * x[j];
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = i + 1; j < n; j++) x[i] -= lu[i * n + j] * x[j];
+    x[i] /= lu[i * n + i];
+  }
+  return x;
+};
+
+// Solve Aᵀ·x = b with the same factors: Uᵀ then Lᵀ, then undo the row pivots.
+const luSolveTransposed = (lu: Float64Array, piv: Int32Array, n: number, b: number[]): Float64Array => {
+  const y = Float64Array.from(b);
+  for (let i = 0; i < n; i++) {
+    for (let j = 0; j < i; j++) y[i] -= lu[j * n + i] * y[j];
+    y[i] /= lu[i * n + i];
+  }
+  for (let i = n - 1; i >= 0; i--) for (let j = i + 1; j < n; j++) y[i] -= lu[j * n + i] * y[j];
+  const x = new Float64Array(n);
+  piv.forEach((p, i) => { x[p] = y[i]; });
+  return x;
+};
+
+/**
+ * Propagate the graph's ΔE and score it. Duplicate edges count once, self-loops
+ * not at all. Feedback loops that never lose strength (every node on the loop
+ * with a single downstream node) make the system singular; SPIA leaves such
+ * pathways out, and so does this.
+ */
+export const computeImpact = (graph: ImpactGraph, permutations = 1000, seed = 1): ImpactReport => {
+  const index = new Map(graph.nodes.map((n, i) => [n.id, i]));
+  const unique = new Map<string, ImpactEdge>();
+  for (const e of graph.edges) {
+    if (e.from === e.to || !index.has(e.from) || !index.has(e.to)) continue;
+    const key = `${e.from}\u001f${e.to}`;
+    if (!unique.has(key)) unique.set(key, e);
+  }
+  const edges = Array.from(unique.values());
+
+  // Only nodes on some edge enter the solve; the rest keep PF = ΔE.
+  const local = new Map<number, number>();
+  const linked: number[] = [];
+  const outDegree = new Map<number, number>();
+  for (const e of edges) {
+    for (const id of [e.from, e.to]) {
+      const g = index.get(id)!;
+      if (!local.has(g)) { local.set(g, linked.length); linked.push(g); }
+    }
+    const f = index.get(e.from)!;
+    outDegree.set(f, (outDegree.get(f) ?? 0) + 1);
+  }
+  const n = linked.length;
+  const a = new Float64Array(n * n);
+  for (let i = 0; i < n; i++) a[i * n + i] = 1;
+  for (const e of edges) {
+    const f = index.get(e.from)!, t = index.get(e.to)!;
+    a[local.get(t)! * n + local.get(f)!] -= e.sign / outDegree.get(f)!;
+  }
+  const piv = luFactor(a, n);
+  if (!piv) {
+    return impactUnavailable('Feedback loops in this pathway keep perturbation circulating without decay, so the propagation has no solution.');
+  }
+
+  const nodes = graph.nodes;
+  const pf = nodes.map((node) => node.delta);
+  const solved = luSolve(a, piv, n, linked.map((g) => nodes[g].delta));
+  linked.forEach((g, i) => { pf[g] = solved[i]; });
+
+  // tA is linear in ΔE: tA = c · ΔE with c = (I − B)⁻ᵀ w − w, w marking the
+  // genes. One transposed solve turns every permutation into a dot product.
+  const weight = new Float64Array(nodes.length);
+  const u = luSolveTransposed(a, piv, n, linked.map((g) => (nodes[g].gene ? 1 : 0)));
+  linked.forEach((g, i) => { weight[g] = u[i] - (nodes[g].gene ? 1 : 0); });
+
+  const genes = nodes.map((node, i) => (node.gene ? i : -1)).filter((i) => i >= 0);
+  const changes = genes.map((i) => nodes[i].delta).filter((d) => d !== 0);
+  let total = 0;
+  for (const i of genes) total += weight[i] * nodes[i].delta;
+
+  let extreme = 0;
+  if (changes.length) {
+    const random = randomSource(seed);
+    const pool = [...genes];
+    for (let p = 0; p < permutations; p++) {
+      let t = 0;
+      for (let j = 0; j < changes.length; j++) {
+        const r = j + Math.floor(random() * (pool.length - j));
+        const s = pool[j]; pool[j] = pool[r]; pool[r] = s;
+        t += weight[pool[j]] * changes[j];
+      }
+      if (Math.abs(t) >= Math.abs(total) - 1e-12) extreme++;
+    }
+  }
+
+  const report = genes
+    .map((i) => ({ id: nodes[i].id, label: nodes[i].label, delta: nodes[i].delta, pf: pf[i], acc: pf[i] - nodes[i].delta }))
+    .sort((x, y) => Math.abs(y.acc) - Math.abs(x.acc) || Math.abs(y.pf) - Math.abs(x.pf));
+  return {
+    total,
+    p: changes.length ? (extreme + 1) / (permutations + 1) : 1,
+    permutations: changes.length ? permutations : 0,
+    nodes: report,
+    measured: changes.length,
+    edges: edges.length,
+  };
+};
+
+/**
+ * Impact mode for a renderer: build the model's graph with each node's ΔE read
+ * from `hitOf` on a throwaway overlay (so the real one's audit only sees the
+ * drawing pass), score it, hand the report to `onImpact`, and return the
+ * per-node impacts for the real overlay. Undefined outside impact mode or when
+ * it can't run.
+ */
+export const glyphImpacts = (
+  options: RenderOptions,
+  model: PathwayModel,
+  hitOf: (overlay: Overlay, node: PathwayNode) => EntityHit | null
+): Map<string, NodeImpact> | undefined => {
+  const { config } = options;
+  if (config.overlayMode !== 'impact') return undefined;
+  const blocker = impactBlocker(config, options.columns?.gene);
+  if (blocker) {
+    options.onImpact?.(impactUnavailable(blocker));
+    return undefined;
+  }
+  const probe = buildOverlay(config, options.geneData, options.compoundData, options);
+  const report = computeImpact(pathwayImpactGraph(model, (node) => hitDelta(hitOf(probe, node))));
+  options.onImpact?.(report);
+  return report.reason ? undefined : new Map(report.nodes.map((n) => [n.id, n]));
+};
@@ -0,0 +1,112 @@
+/**
+ * KGML (KEGG Markup Language) → PathwayModel.
+ *
+ * Each <entry> has a <graphics> element with a center (x, y), width and
+ * height; the model stores the box's top-left corner like SBGN does, so
+ * x - w/2, y - h/2. <relation> elements become 'relation' edges carrying their
+ * subtypes, <reaction> elements substrate → enzyme → product edges, and group
+ * entries list their <component>s as children.
+ */
+
+import { type PathwayModel, type PathwayNode, type PathwayEdge, type Point } from './pathwayModel';
+
+const num = (s: string | null, d = NaN): number => {
+  const n = parseFloat(s ?? '');
+  return Number.isFinite(n) ? n : d;
+};
+
+// KEGG entry.name is space-separated db ids, e.g. "ath:AT1G12345 ath:AT2G..." or
+// "cpd:C00031". Strip the db prefix so user Entrez / locus / KEGG ids can match.
+const strippedIds = (name: string): string[] =>
+  name.split(/\s+/).map((t) => (t.includes(':') ? t.slice(t.indexOf(':') + 1) : t)).filter(Boolean);
+
+// First human-readable token for display (KEGG packs synonyms after commas).
+const displayLabel = (graphicsName: string, ids: string[], entryName: string): string => {
+  const raw = graphicsName || ids[0] || entryName;
+  return raw.split(',')[0].replace(/\.\.\.$/, '').trim();
+};
+
+const readEntry = (el: Element): PathwayNode => {
+  const entryName = el.getAttribute('name') || '';
+  const ids = strippedIds(entryName);
+  const g = el.getElementsByTagName('graphics')[0];
+  const name = (g?.getAttribute('name') || '').trim();
+  const node: PathwayNode = {
+    id: el.getAttribute('id') || '',
+    cls: (el.getAttribute('type') || '').toLowerCase(),
+    bbox: null,
+    label: displayLabel(name, ids, entryName),
+    name,
+    ids,
+    compartment: null,
+    parent: null,
+    children: Array.from(el.getElementsByTagName('component'), (c) => c.getAttribute('id') || '').filter(Boolean),
+  };
+  if (!g) return node;
+  node.shape = (g.getAttribute('type') || 'rectangle').toLowerCase();
+  const x = num(g.getAttribute('x')), y = num(g.getAttribute('y'));
+  const w = num(g.getAttribute('width'), 46), h = num(g.getAttribute('height'), 17);
+  if (Number.isFinite(x) && Number.isFinite(y)) node.bbox = { x: x - w / 2, y: y - h / 2, w, h };
+  const coords = (g.getAttribute('coords') || '').split(',').map((v) => parseFloat(v)).filter((v) => Number.isFinite(v));
+  if (node.shape === 'line') {
+    const points: Point[] = [];
+    for (let i = 0; i + 1 < coords.length; i += 2) points.push({ x: coords[i], y: coords[i + 1] });
+    node.points = points;
+  }
+  return node;
+};
+
+/** Entries drawn as gene boxes (gene, ortholog, enzyme, ...), as opposed to compounds, map links, groups and lines. */
+export const isGeneBox = (node: PathwayNode): boolean =>
+  node.cls !== 'compound' && node.cls !== 'map' && node.cls !== 'group' && node.shape !== 'line';
+
+export const parseKgml = (kgmlXml: string): PathwayModel => {
+  const doc = new DOMParser().parseFromString(kgmlXml, 'application/xml');
+  if (doc.getElementsByTagName('parsererror')[0]) {
+    throw new Error('The KEGG KGML file could not be parsed as XML.');
+  }
+
+  const entryEls = Array.from(doc.getElementsByTagName('entry'));
+  if (entryEls.length === 0) {
+    throw new Error('No KEGG entries were found in this pathway. Try a different KEGG pathway, or upload a custom SBGN file.');
+  }
+
+  const nodes = entryEls.map(readEntry).filter((n) => n.id);
+  const byId = new Map(nodes.map((n) => [n.id, n]));
+  for (const n of nodes) {
+    for (const c of n.children) {
+      const member = byId.get(c);
+      if (member && !member.parent) member.parent = n.id;
+    }
+  }
+
+  const edges: PathwayEdge[] = [];
+  Array.from(doc.getElementsByTagName('relation')).forEach((rel, i) => {
+    edges.push({
+      id: `relation-${i}`,
+      cls: 'relation',
+      source: rel.getAttribute('entry1') || '',
+      target: rel.getAttribute('entry2') || '',
+      points: [],
+      subtypes: Array.from(rel.getElementsByTagName('subtype'), (s) => s.getAttribute('name') || ''),
+    });
+  });
+  for (const rxn of Array.from(doc.getElementsByTagName('reaction'))) {
+    // A reaction's id is the entry id of the enzyme box that catalyzes it.
+    const rid = rxn.getAttribute('id') || '';
+    const enzyme = byId.has(rid) ? rid : null;
+    const subs = Array.from(rxn.getElementsByTagName('substrate'), (s) => s.getAttribute('id') || '');
+    const prods = Array.from(rxn.getElementsByTagName('product'), (p) => p.getAttribute('id') || '');
+    const edge = (cls: string, source: string, target: string) =>
+      edges.push({ id: `${rxn.getAttribute('name') || rid}:${source}>${target}`, cls, source, target, points: [] });
+    if (enzyme) {
+      subs.forEach((s) => edge('substrate', s, enzyme));
+      prods.forEach((p) => edge('product', enzyme, p));
+    } else {
+      subs.forEach((s) => prods.forEach((p) => edge('conversion', s, p)));
+    }
+  }
+
+  const title = doc.getElementsByTagName('pathway')[0]?.getAttribute('title') || '';
+  return { format: 'kgml', title, nodes, edges };
+};
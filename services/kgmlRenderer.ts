@@ -2,63 +2,33 @@
  * Deterministic KGML (KEGG Markup Language) → SVG renderer.
  *
  * KEGG publishes KGML for every pathway, and — like SBGN-ML — it embeds layout
- * geometry: each <entry> has a <graphics> element with a center (x, y), width and
- * height, plus <reaction>/<relation> connectivity. This lets us draw a faithful,
- * reproducible KEGG-style map in the browser and overlay omics data on it, with
- * no AI and no KEGG account.
- *
- * NOTE: KEGG graphics coordinates are the CENTER of a node (SBGN bboxes are the
- * top-left corner), so we convert with x - w/2, y - h/2.
+ * geometry plus <reaction>/<relation> connectivity. ./kgmlParser reads it into
+ * a PathwayModel; this draws a faithful, reproducible KEGG-style map from it
+ * in the browser and overlays omics data on it, with no AI and no KEGG account.
  *
  * Data overlay is shared with the SBGN renderer via ./overlay.
  */
 
-import { buildOverlay, entityAttrs, xmlEscape, textOn } from './overlay';
+import { type GlyphRef, type Overlay, type EntityHit, buildOverlay, entityAttrs, opacityAttr, xmlEscape, textOn } from './overlay';
 import { type RenderOptions } from './sbgnRenderer';
+import { glyphImpacts } from './impact';
+import { type PathwayModel, type PathwayNode, type Bbox, nodeIndex } from './pathwayModel';
 
-interface Graphics { x: number; y: number; w: number; h: number; type: string; name: string; bgcolor: string; coords: number[]; }
-interface Entry { id: string; type: string; name: string; reaction: string; g: Graphics | null; }
-
-const num = (s: string | null, d = NaN): number => {
-  const n = parseFloat(s ?? '');
-  return Number.isFinite(n) ? n : d;
-};
-
-const readGraphics = (entry: Element): Graphics | null => {
-  const g = entry.getElementsByTagName('graphics')[0];
-  if (!g) return null;
-  const coords = (g.getAttribute('coords') || '')
-    .split(',')
-    .map((v) => parseFloat(v))
-    .filter((v) => Number.isFinite(v));
-  return {
-    x: num(g.getAttribute('x')),
-    y: num(g.getAttribute('y')),
-    w: num(g.getAttribute('width'), 46),
-    h: num(g.getAttribute('height'), 17),
-    type: (g.getAttribute('type') || 'rectangle').toLowerCase(),
-    name: (g.getAttribute('name') || '').trim(),
-    bgcolor: g.getAttribute('bgcolor') || '',
-    coords,
-  };
-};
-
-// KEGG entry.name is space-separated db ids, e.g. "ath:AT1G12345 ath:AT2G..." or
-// "cpd:C00031". Strip the db prefix so user Entrez / locus / KEGG ids can match.
-const strippedIds = (name: string): string[] =>
-  name.split(/\s+/).map((t) => (t.includes(':') ? t.slice(t.indexOf(':') + 1) : t)).filter(Boolean);
+// KGML ids lost their db prefix in parsing; as annotations they are KEGG genes
+// unless their form says otherwise (C-numbers, AGI loci; see accessionKey).
+const keggXref = (id: string): string => `kegg:${id}`;
 
 // A label/candidate string fed to the overlay matcher: graphics symbols + raw ids.
-const matchCandidates = (e: Entry): string =>
-  `${e.g?.name || ''} ${strippedIds(e.name).join(' ')}`;
+const glyphRef = (e: PathwayNode): GlyphRef => ({ id: e.id, label: `${e.name} ${e.ids.join(' ')}`, xrefs: e.ids.map(keggXref) });
 
-// First human-readable token for display (KEGG packs synonyms after commas).
-const displayLabel = (e: Entry): string => {
-  const raw = e.g?.name || strippedIds(e.name)[0] || e.name;
-  return raw.split(',')[0].replace(/\.\.\.$/, '').trim();
+// A box listing several genes is colored from all of them; with none in the
+// data it falls back to matching its label (which also carries the symbol).
+const matchGeneBox = (overlay: Overlay, e: PathwayNode): EntityHit | null => {
+  const members = e.ids.length > 1 ? e.ids.map((id) => ({ id: e.id, label: id, xrefs: [keggXref(id)] })) : [];
+  return (members.length ? overlay.matchMembers(glyphRef(e), members) : null) ?? overlay.match(glyphRef(e), { gene: true });
 };
 
-const center = (g: Graphics) => ({ x: g.x, y: g.y });
+const center = (b: Bbox) => ({ x: b.x + b.w / 2, y: b.y + b.h / 2 });
 
 const truncLabel = (label: string, w: number, fontSize: number, x: number, y: number, color: string): string => {
   if (!label) return '';
@@ -75,31 +45,12 @@ const tinyArrow = (from: { x: number; y: number }, to: { x: number; y: number },
   return `<polygon points="${to.x},${to.y} ${tx(8, 4)},${ty(8, 4)} ${tx(8, -4)},${ty(8, -4)}" fill="${color}"/>`;
 };
 
-export const renderKgmlToSvg = (kgmlXml: string, options: RenderOptions): string => {
+export const renderKgmlToSvg = (model: PathwayModel, options: RenderOptions): string => {
   const { config, geneData, compoundData } = options;
-  const doc = new DOMParser().parseFromString(kgmlXml, 'application/xml');
-  if (doc.getElementsByTagName('parsererror')[0]) {
-    throw new Error('The KEGG KGML file could not be parsed as XML.');
-  }
+  const byId = nodeIndex(model);
 
-  const entryEls = Array.from(doc.getElementsByTagName('entry'));
-  if (entryEls.length === 0) {
-    throw new Error('No KEGG entries were found in this pathway. Try a different KEGG pathway, or upload a custom SBGN file.');
-  }
-
-  const entries = new Map<string, Entry>();
-  for (const el of entryEls) {
-    const e: Entry = {
-      id: el.getAttribute('id') || '',
-      type: (el.getAttribute('type') || '').toLowerCase(),
-      name: el.getAttribute('name') || '',
-      reaction: el.getAttribute('reaction') || '',
-      g: readGraphics(el),
-    };
-    if (e.id) entries.set(e.id, e);
-  }
-
-  const overlay = buildOverlay(config, geneData, compoundData);
+  const impact = glyphImpacts(options, model, matchGeneBox);
+  const overlay = buildOverlay(config, geneData, compoundData, { ...options, impact });
 
   // --- Image-overlay (pathview-style) mode --------------------------------
   // Draw KEGG's official pathway PNG and lay translucent data colors over the
@@ -112,24 +63,28 @@ export const renderKgmlToSvg = (kgmlXml: string, options: RenderOptions): string
       `<rect x="0" y="0" width="${width}" height="${vbH}" fill="#ffffff"/>`,
       `<image x="0" y="0" width="${width}" height="${height}" href="${dataUrl}" preserveAspectRatio="xMidYMid meet"/>`,
     ];
-    for (const e of entries.values()) {
-      const g = e.g;
-      if (!g || !Number.isFinite(g.x) || e.type === 'group' || e.type === 'map' || g.type === 'line') continue;
-      const isCompound = e.type === 'compound';
-      const hit = overlay.match(matchCandidates(e), isCompound ? { compound: true } : { gene: true });
+    for (const e of model.nodes) {
+      const b = e.bbox;
+      if (!b || e.cls === 'group' || e.cls === 'map' || e.shape === 'line') continue;
+      const isCompound = e.cls === 'compound';
+      const hit = isCompound ? overlay.match(glyphRef(e), { compound: true }) : matchGeneBox(overlay, e);
       if (!hit || !hit.fill) continue;
       const a = entityAttrs(hit);
+      const st = overlay.stroke(hit, '#0f172a', 1);
+      const c = center(b);
       if (isCompound) {
-        const r = Math.max(5, Math.min(g.w, g.h) / 2);
-        layers.push(`<g${a.idAttr}${a.dataAttrs} style="cursor:pointer"><circle cx="${g.x}" cy="${g.y}" r="${r}" fill="${hit.fill}" fill-opacity="0.7" stroke="#0f172a" stroke-width="1"/></g>`);
+        const r = Math.max(5, Math.min(b.w, b.h) / 2);
+        layers.push(`<g${a.idAttr}${a.dataAttrs} style="cursor:pointer"><circle cx="${c.x}" cy="${c.y}" r="${r}" fill="${hit.fill}" fill-opacity="${0.7 * overlay.fillOpacity(hit)}" stroke="${st.color}" stroke-width="${st.width}"/>${overlay.marker(hit, c.x + r * 0.7, c.y - r * 0.7)}</g>`);
       } else {
-        layers.push(`<g${a.idAttr}${a.dataAttrs} style="cursor:pointer"><rect x="${g.x - g.w / 2}" y="${g.y - g.h / 2}" width="${g.w}" height="${g.h}" fill="${hit.fill}" fill-opacity="0.6" stroke="#0f172a" stroke-width="1"/></g>`);
+        layers.push(`<g${a.idAttr}${a.dataAttrs} style="cursor:pointer"><rect x="${b.x}" y="${b.y}" width="${b.w}" height="${b.h}" fill="${hit.fill}" fill-opacity="${0.6 * overlay.fillOpacity(hit)}" stroke="${st.color}" stroke-width="${st.width}"/>${overlay.marker(hit, b.x + b.w, b.y)}</g>`);
       }
     }
     if (overlay.hasData) layers.push(overlay.legendSvg(8, height + 8, 220));
-    const titleImg = doc.getElementsByTagName('pathway')[0]?.getAttribute('title') || '';
+    options.onAudit?.(overlay.audit());
+    options.onLegend?.(overlay.legend());
     return `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 ${width} ${vbH}" font-family="'Segoe UI', Helvetica, Arial, sans-serif">` +
-      (titleImg ? `<title>${xmlEscape(titleImg)}</title>` : '') +
+      (model.title ? `<title>${xmlEscape(model.title)}</title>` : '') +
+      overlay.defsSvg() +
       layers.join('') +
       `</svg>`;
   }
@@ -137,14 +92,12 @@ export const renderKgmlToSvg = (kgmlXml: string, options: RenderOptions): string
   // Bounds.
   let minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity;
   const grow = (x: number, y: number) => { minX = Math.min(minX, x); minY = Math.min(minY, y); maxX = Math.max(maxX, x); maxY = Math.max(maxY, y); };
-  for (const e of entries.values()) {
-    const g = e.g;
-    if (!g || !Number.isFinite(g.x)) continue;
-    if (g.type === 'line' && g.coords.length >= 2) {
-      for (let i = 0; i + 1 < g.coords.length; i += 2) grow(g.coords[i], g.coords[i + 1]);
-    } else {
-      grow(g.x - g.w / 2, g.y - g.h / 2);
-      grow(g.x + g.w / 2, g.y + g.h / 2);
+  for (const e of model.nodes) {
+    if (e.shape === 'line' && e.points?.length) {
+      for (const p of e.points) grow(p.x, p.y);
+    } else if (e.bbox) {
+      grow(e.bbox.x, e.bbox.y);
+      grow(e.bbox.x + e.bbox.w, e.bbox.y + e.bbox.h);
     }
   }
   if (!Number.isFinite(minX)) { minX = 0; minY = 0; maxX = 800; maxY = 600; }
@@ -160,87 +113,66 @@ export const renderKgmlToSvg = (kgmlXml: string, options: RenderOptions): string
   const parts: string[] = [`<rect x="${vbX}" y="${vbY}" width="${vbW}" height="${vbH}" fill="#f8fafc"/>`];
 
   // --- Backbone lines (drawn under nodes) ---------------------------------
-  // Relations (signaling edges).
-  for (const rel of Array.from(doc.getElementsByTagName('relation'))) {
-    const a = entries.get(rel.getAttribute('entry1') || '');
-    const b = entries.get(rel.getAttribute('entry2') || '');
-    if (a?.g && b?.g && Number.isFinite(a.g.x) && Number.isFinite(b.g.x)) {
-      const p1 = center(a.g), p2 = center(b.g);
-      parts.push(`<line x1="${p1.x}" y1="${p1.y}" x2="${p2.x}" y2="${p2.y}" stroke="${arcColor}" stroke-width="${arcW}" opacity="0.45"/>`);
-    }
-  }
-  // Reactions (metabolic: substrate -> enzyme -> product).
-  for (const rxn of Array.from(doc.getElementsByTagName('reaction'))) {
-    const enzyme = entries.get(rxn.getAttribute('id') || '');
-    const ec = enzyme?.g && Number.isFinite(enzyme.g.x) ? center(enzyme.g) : null;
-    const subs = Array.from(rxn.getElementsByTagName('substrate'));
-    const prods = Array.from(rxn.getElementsByTagName('product'));
-    for (const s of subs) {
-      const se = entries.get(s.getAttribute('id') || '');
-      if (se?.g && Number.isFinite(se.g.x)) {
-        const p = center(se.g), to = ec ?? p;
-        parts.push(`<line x1="${p.x}" y1="${p.y}" x2="${to.x}" y2="${to.y}" stroke="${arcColor}" stroke-width="${arcW}"/>`);
-      }
-    }
-    for (const pr of prods) {
-      const pe = entries.get(pr.getAttribute('id') || '');
-      if (pe?.g && Number.isFinite(pe.g.x)) {
-        const p = center(pe.g), from = ec ?? p;
-        parts.push(`<line x1="${from.x}" y1="${from.y}" x2="${p.x}" y2="${p.y}" stroke="${arcColor}" stroke-width="${arcW}"/>`);
-        if (ec) parts.push(tinyArrow(from, p, arcColor));
-      }
-    }
+  // Relations (signaling edges) and reactions (metabolic: substrate -> enzyme
+  // -> product), center to center. A reaction without an enzyme box has no
+  // line of its own.
+  for (const edge of model.edges) {
+    const a = byId.get(edge.source)?.bbox;
+    const b = byId.get(edge.target)?.bbox;
+    if (!a || !b || edge.cls === 'conversion') continue;
+    const p1 = center(a), p2 = center(b);
+    const faint = edge.cls === 'relation' ? ' opacity="0.45"' : '';
+    parts.push(`<line x1="${p1.x}" y1="${p1.y}" x2="${p2.x}" y2="${p2.y}" stroke="${arcColor}" stroke-width="${arcW}"${faint}/>`);
+    if (edge.cls === 'product') parts.push(tinyArrow(p1, p2, arcColor));
   }
 
   // --- Nodes ---------------------------------------------------------------
   // Groups (complex containers) behind their members.
-  for (const e of entries.values()) {
-    if (e.type !== 'group' || !e.g || !Number.isFinite(e.g.x)) continue;
-    const { x, y, w, h } = e.g;
-    parts.push(`<rect x="${x - w / 2}" y="${y - h / 2}" width="${w}" height="${h}" rx="6" fill="rgba(203,213,225,0.4)" stroke="#94a3b8" stroke-width="1"/>`);
+  for (const e of model.nodes) {
+    if (e.cls !== 'group' || !e.bbox) continue;
+    const { x, y, w, h } = e.bbox;
+    parts.push(`<rect x="${x}" y="${y}" width="${w}" height="${h}" rx="6" fill="rgba(203,213,225,0.4)" stroke="#94a3b8" stroke-width="1"/>`);
   }
 
-  for (const e of entries.values()) {
-    const g = e.g;
-    if (!g || !Number.isFinite(g.x) || e.type === 'group') continue;
+  for (const e of model.nodes) {
+    if (e.cls === 'group') continue;
 
     // "line"-typed graphics (e.g. reaction connectors drawn as polylines).
-    if (g.type === 'line') {
-      if (g.coords.length >= 4) {
-        let d = '';
-        for (let i = 0; i + 1 < g.coords.length; i += 2) {
-          d += `${i === 0 ? 'M' : 'L'} ${g.coords[i]} ${g.coords[i + 1]} `;
-        }
-        parts.push(`<path d="${d.trim()}" fill="none" stroke="#64748b" stroke-width="${Math.max(1, arcW)}"/>`);
+    if (e.shape === 'line') {
+      if (e.points && e.points.length >= 2) {
+        const d = e.points.map((p, i) => `${i === 0 ? 'M' : 'L'} ${p.x} ${p.y}`).join(' ');
+        parts.push(`<path d="${d}" fill="none" stroke="#64748b" stroke-width="${Math.max(1, arcW)}"/>`);
       }
       continue;
     }
 
-    const cx = g.x, cy = g.y;
-    const x = cx - g.w / 2, y = cy - g.h / 2;
+    const b = e.bbox;
+    if (!b) continue;
+    const { x: cx, y: cy } = center(b);
 
-    if (e.type === 'compound') {
-      const hit = overlay.match(matchCandidates(e), { compound: true });
+    if (e.cls === 'compound') {
+      const hit = overlay.match(glyphRef(e), { compound: true });
       let fill = '#ffffff';
       let idAttr = '', dataAttrs = '';
       if (hit) {
         const a = entityAttrs(hit); idAttr = a.idAttr; dataAttrs = a.dataAttrs;
         if (hit.fill) fill = hit.fill;
       }
-      const r = Math.max(5, Math.min(g.w, g.h) / 2);
+      const r = Math.max(5, Math.min(b.w, b.h) / 2);
       const cursor = idAttr ? ' style="cursor:pointer"' : '';
-      const lbl = hit ? truncLabel(displayLabel(e), Math.max(g.w, 40), Math.max(8, fontSize - 1), cx, cy + r + fontSize, '#334155') : '';
-      parts.push(`<g${idAttr}${dataAttrs}${cursor}><circle cx="${cx}" cy="${cy}" r="${r}" fill="${fill}" stroke="#334155" stroke-width="1"/>${lbl}</g>`);
+      const st = overlay.stroke(hit, '#334155', 1);
+      const lbl = hit ? truncLabel(e.label, Math.max(b.w, 40), Math.max(8, fontSize - 1), cx, cy + r + fontSize, '#334155') : '';
+      parts.push(`<g${idAttr}${dataAttrs}${cursor}><circle cx="${cx}" cy="${cy}" r="${r}" fill="${fill}"${opacityAttr(overlay.fillOpacity(hit))} stroke="${st.color}" stroke-width="${st.width}"/>${overlay.marker(hit, cx + r * 0.7, cy - r * 0.7)}${lbl}</g>`);
       continue;
     }
 
-    if (e.type === 'map') {
-      parts.push(`<g><rect x="${x}" y="${y}" width="${g.w}" height="${g.h}" rx="8" fill="#dbeafe" stroke="#3b82f6" stroke-width="1"/>${truncLabel(displayLabel(e), g.w, fontSize, cx, cy, '#1e3a8a')}</g>`);
+    if (e.cls === 'map') {
+      parts.push(`<g><rect x="${b.x}" y="${b.y}" width="${b.w}" height="${b.h}" rx="8" fill="#dbeafe" stroke="#3b82f6" stroke-width="1"/>${truncLabel(e.label, b.w, fontSize, cx, cy, '#1e3a8a')}</g>`);
       continue;
     }
 
     // gene / ortholog / enzyme (and anything else) -> rectangle.
-    const hit = overlay.match(matchCandidates(e), { gene: true });
+    const hit = matchGeneBox(overlay, e);
     let fill = config.glyphFillColor;
     let idAttr = '', dataAttrs = '';
     if (hit) {
@@ -248,14 +180,17 @@ export const renderKgmlToSvg = (kgmlXml: string, options: RenderOptions): string
       if (hit.fill) fill = hit.fill;
     }
     const cursor = idAttr ? ' style="cursor:pointer"' : '';
-    parts.push(`<g${idAttr}${dataAttrs}${cursor}><rect x="${x}" y="${y}" width="${g.w}" height="${g.h}" rx="2" fill="${fill}" stroke="#334155" stroke-width="1"/>${truncLabel(displayLabel(e), g.w, fontSize, cx, cy, textOn(fill))}</g>`);
+    const st = overlay.stroke(hit, '#334155', 1);
+    parts.push(`<g${idAttr}${dataAttrs}${cursor}><rect x="${b.x}" y="${b.y}" width="${b.w}" height="${b.h}" rx="2" fill="${fill}"${opacityAttr(overlay.fillOpacity(hit))} stroke="${st.color}" stroke-width="${st.width}"/>${truncLabel(e.label, b.w, fontSize, cx, cy, textOn(fill))}${overlay.marker(hit, b.x + b.w, b.y)}</g>`);
   }
 
   if (overlay.hasData) parts.push(overlay.legendSvg(vbX + 16, maxY + pad + 4, 220));
+  options.onAudit?.(overlay.audit());
+  options.onLegend?.(overlay.legend());
 
-  const title = doc.getElementsByTagName('pathway')[0]?.getAttribute('title') || '';
   return `<svg xmlns="http://www.w3.org/2000/svg" viewBox="${vbX} ${vbY} ${vbW} ${vbH}" font-family="'Segoe UI', Helvetica, Arial, sans-serif">` +
-    (title ? `<title>${xmlEscape(title)}</title>` : '') +
+    (model.title ? `<title>${xmlEscape(model.title)}</title>` : '') +
+    overlay.defsSvg() +
     parts.join('') +
     `</svg>`;
 };
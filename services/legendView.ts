@@ -0,0 +1,103 @@
+/**
+ * Live edits the viewer's interactive legend makes to a rendered map: hiding a
+ * layer (its glyphs fall back to the neutral fill, their badges disappear) and
+ * re-saturating a layer over a dragged domain. Works on the DOM of the
+ * renderers' output through the `data-omics-*` attributes; the SVG string, and
+ * so every export, stays as rendered.
+ */
+
+import { type LegendModel, textOn } from './overlay';
+import { type ColorScale, rescaleColorScale } from './colorScales';
+
+export interface LayerView {
+  visible: boolean;
+  /** Dragged [min, max], or null for the domain the map was rendered with. */
+  domain: [number, number] | null;
+}
+
+export const DEFAULT_LAYER_VIEW: LayerView = { visible: true, domain: null };
+
+const SVG_NS = 'http://www.w3.org/2000/svg';
+const BADGES = '.sig-marker, .clamp-marker, .secondary-badge';
+// Set on first touch: the rendered fill of a glyph's data-colored shapes and of its label.
+const SHAPE_ATTR = 'data-omics-shape';
+const LABEL_ATTR = 'data-omics-label';
+const LIVE_DEFS_ID = 'omics-live-defs';
+
+// A glyph's data-colored shapes are the elements painted with its
+// `data-omics-fill`; its label is the text painted textOn() of that fill.
+const tagGlyph = (group: Element, fill: string): void => {
+  if (group.querySelector(`[${SHAPE_ATTR}]`)) return;
+  const label = textOn(fill);
+  group.querySelectorAll('*').forEach((el) => {
+    if (el.closest(BADGES)) return;
+    const own = el.getAttribute('fill');
+    if (el.localName === 'text') {
+      if (own === label) el.setAttribute(LABEL_ATTR, own);
+    } else if (own === fill) {
+      el.setAttribute(SHAPE_ATTR, own);
+    }
+  });
+};
+
+/** Apply each layer's view to the map inside `root`; layers without a view keep the default. */
+export const applyLegendView = (root: Element, model: LegendModel, views: Partial<Record<'gene' | 'compound', LayerView>>): void => {
+  const svg = root.querySelector('svg');
+  if (!svg) return;
+  svg.querySelector(`#${LIVE_DEFS_ID}`)?.remove();
+  const defs = root.ownerDocument.createElementNS(SVG_NS, 'defs');
+  defs.setAttribute('id', LIVE_DEFS_ID);
+
+  // Hard-stop gradients for sliced glyphs, like the overlay's own slice fills.
+  const gradients = new Map<string, string>();
+  const sliceFill = (colors: string[]): string => {
+    const sig = colors.join(',');
+    let id = gradients.get(sig);
+    if (!id) {
+      id = `live-slices${gradients.size}`;
+      gradients.set(sig, id);
+      const g = root.ownerDocument.createElementNS(SVG_NS, 'linearGradient');
+      g.setAttribute('id', id);
+      g.setAttribute('x2', '100%');
+      g.setAttribute('y2', '0%');
+      colors.forEach((c, i) => {
+        for (const at of [i, i + 1]) {
+          const stop = root.ownerDocument.createElementNS(SVG_NS, 'stop');
+          stop.setAttribute('offset', `${(at / colors.length) * 100}%`);
+          stop.setAttribute('stop-color', c);
+          g.appendChild(stop);
+        }
+      });
+      defs.appendChild(g);
+    }
+    return `url(#${id})`;
+  };
+
+  // Only significant single-value and sliced glyphs follow the scale; stripes,
+  // averaged sliced members and not-significant glyphs keep their fill.
+  const rescaledFill = (group: Element, scale: ColorScale): string | null => {
+    if (group.getAttribute('data-omics-significant') !== 'true') return null;
+    const value = group.getAttribute('data-omics-value');
+    if (value !== null) return scale.color(Number(value));
+    const slices = group.getAttribute('data-omics-slices');
+    return slices === null ? null : sliceFill(slices.split('|').map((s) => scale.color(Number(s)) ?? model.neutralFill));
+  };
+
+  for (const layer of model.layers) {
+    const view = views[layer.kind] ?? DEFAULT_LAYER_VIEW;
+    const scale = view.domain && layer.scale.kind !== 'categorical' ? rescaleColorScale(layer.scale, view.domain[0], view.domain[1]) : null;
+    root.querySelectorAll(`[data-omics-kind="${layer.kind}"][data-omics-fill]`).forEach((group) => {
+      const rendered = group.getAttribute('data-omics-fill') ?? '';
+      tagGlyph(group, rendered);
+      const fill = !view.visible ? model.neutralFill : (scale && rescaledFill(group, scale)) || rendered;
+      group.querySelectorAll(`[${SHAPE_ATTR}]`).forEach((el) => el.setAttribute('fill', fill));
+      group.querySelectorAll(`[${LABEL_ATTR}]`).forEach((el) =>
+        el.setAttribute('fill', fill === rendered ? el.getAttribute(LABEL_ATTR) ?? '' : textOn(fill)));
+      // Clamp badges describe the rendered domain, so they go while a dragged one applies.
+      group.querySelectorAll<SVGElement>(BADGES).forEach((el) => {
+        el.style.display = !view.visible || (scale && el.matches('.clamp-marker')) ? 'none' : '';
+      });
+    });
+  }
+  if (defs.childNodes.length) svg.appendChild(defs);
+};
@@ -0,0 +1,52 @@
+/**
+ * The mapping report: which data row each glyph on the current map was matched
+ * to and how, plus the uploaded identifiers that matched nothing. MainPanel
+ * shows it as a table under the map and offers it as a CSV download.
+ */
+
+import { type GlyphMatch, type OverlayAudit } from './overlay';
+import { type ConversionReport } from './idCrosswalk';
+
+export interface MappingRow extends GlyphMatch {
+  /** The id(s) as uploaded; differs from `key` when gene ids were converted. */
+  uploaded: string[];
+}
+
+export interface MappingReport {
+  rows: MappingRow[];
+  /** Uploaded identifiers no glyph on this map matched. */
+  unmatched: { kind: GlyphMatch['kind']; uploaded: string }[];
+}
+
+/**
+ * Attach the uploaded ids to the overlay's matches. A gene whose id was
+ * converted before matching counts as a `crosswalk` match whatever the glyph
+ * matched on.
+ */
+export const buildMappingReport = (audit: OverlayAudit, conversion: ConversionReport | null): MappingReport => {
+  const uploadedIds = (kind: GlyphMatch['kind'], key: string): string[] =>
+    (kind === 'gene' && conversion?.sources.get(key)) || [key];
+  const rows = audit.matches.map((m): MappingRow => {
+    const uploaded = uploadedIds(m.kind, m.key);
+    const converted = uploaded.length > 1 || uploaded[0] !== m.key;
+    return { ...m, uploaded, method: converted ? 'crosswalk' : m.method };
+  });
+  const unmatched = audit.unmatched.flatMap(({ kind, key }) => uploadedIds(kind, key).map((uploaded) => ({ kind, uploaded })));
+  return { rows, unmatched };
+};
+
+const CSV_HEADER = ['kind', 'glyph_id', 'glyph_label', 'data_id', 'uploaded_id', 'candidate', 'method', 'also_matches', 'status'];
+
+const csvField = (s: string): string => (/[",\r\n]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s);
+
+/** One line per matched glyph, then one per unmatched uploaded id (status "unmatched"). */
+export const mappingReportCsv = (report: MappingReport): string => {
+  const lines = [
+    CSV_HEADER,
+    ...report.rows.map((m) => [
+      m.kind, m.glyphId, m.label, m.key, m.uploaded.join('|'), m.candidate, m.method, m.alternatives.join('|'), 'matched',
+    ]),
+    ...report.unmatched.map((u) => [u.kind, '', '', '', u.uploaded, '', '', '', 'unmatched']),
+  ];
+  return lines.map((cells) => cells.map(csvField).join(',')).join('\n') + '\n';
+};
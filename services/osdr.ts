@@ -13,6 +13,7 @@
  */
 
 import { corsFetch, corsFetchText } from './proxy';
+import { splitDelimitedLine, csvCell } from './tableParser';
 
 const OSDR = 'https://osdr.nasa.gov';
 const FILES_API = (num: string) => `${OSDR}/osdr/data/osd/files/${num}/`;
@@ -99,9 +100,8 @@ export async function fetchContrastNames(study: OsdrStudy): Promise<string[]> {
   const text = await corsFetchText(downloadUrl(study.contrastsFile));
   const firstLine = text.split(/\r?\n/, 1)[0] ?? '';
   // Header cells are the contrast names, e.g. "(A)v(B)".
-  return firstLine
-    .split(',')
-    .map((c) => c.replace(/^"|"$/g, '').trim())
+  return splitDelimitedLine(firstLine, ',')
+    .map((c) => c.trim())
     .filter((c) => /\)v\(/.test(c));
 }
 
@@ -137,24 +137,9 @@ export async function liveImportContrast(
   let idIdx = -1, lfcIdx = -1, padjIdx = -1;
   let genes = 0, bytes = 0, buf = '';
 
-  // Quote-aware CSV line splitter: GeneLab DE tables have a GENENAME text column
-  // that may contain commas inside double quotes, so a naive split misaligns.
-  const parseLine = (line: string): string[] => {
-    const cells: string[] = [];
-    let cur = '', inQ = false;
-    for (let i = 0; i < line.length; i++) {
-      const ch = line[i];
-      if (inQ) {
-        if (ch === '"') {
-          if (line[i + 1] === '"') { cur += '"'; i++; } else inQ = false;
-        } else cur += ch;
-      } else if (ch === '"') inQ = true;
-      else if (ch === ',') { cells.push(cur); cur = ''; }
-      else cur += ch;
-    }
-    cells.push(cur);
-    return cells;
-  };
+  // GeneLab DE tables have a GENENAME text column that may contain commas
+  // inside double quotes, so lines go through the shared RFC 4180 splitter.
+  const parseLine = (line: string): string[] => splitDelimitedLine(line, ',');
 
   const handle = (line: string) => {
     if (!header) {
@@ -170,7 +155,7 @@ export async function liveImportContrast(
     const lfc = (cells[lfcIdx] || '').trim();
     if (!gid || gid.toUpperCase() === 'NA' || !lfc || lfc.toUpperCase() === 'NA') return;
     const padj = padjIdx >= 0 ? (cells[padjIdx] || '').trim() : '';
-    out.push(`${gid},${lfc},${padj}`);
+    out.push(`${csvCell(gid)},${lfc},${padj}`);
     genes++;
   };
 
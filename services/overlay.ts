@@ -1,11 +1,15 @@
 /**
  * Shared omics-overlay logic used by both the SBGN and KGML renderers:
- * value extraction, identifier→glyph matching, color-scale construction, and
- * the in-figure legend. Pure functions + strings, no external dependencies.
+ * value extraction (from the user's column mapping), identifier→glyph
+ * matching, color-scale construction, and the in-figure legend. Pure
+ * functions + strings, no external dependencies.
  */
 
-import { type VisualizationConfig } from '../types';
-import { type ColorScale, divergentScale, sequentialScale } from './colorScales';
+import { type VisualizationConfig, type ColumnSpec, type DuplicateAggregation, type MatchingPolicy, type MemberAggregation, type SecondaryChannel } from '../types';
+import { type ColorScale, buildColorScale, categoricalScale, rampColor } from './colorScales';
+import { guessColumnSpecForMap, specValue, specSlices, categoryOf, specCategory, specCategories } from './columnMapping';
+import { type RowRecords, aggregateRecords, aggregationPhrase, mean } from './aggregation';
+import { type NodeImpact } from './impact';
 
 export type DataMap = Map<string, Record<string, string>>;
 
@@ -43,35 +47,43 @@ export const fmtNum = (n: number): string => {
 
 // --- value extraction -----------------------------------------------------
 
-const FC_HEADER = /(log\s*2)?\s*fold|lfc|log2fc|log2foldchange/i;
-const ID_HEADER = /^(id|gene|symbol|name|identifier|kegg|chebi|compound|metabolite)/i;
-const STAT_HEADER = /padj|p\.?adj|pvalue|p\.?value|fdr|stat|^se$|lfcse/i;
+/** Explicit per-table column choices; a table without one falls back to header guessing. */
+export interface OverlayColumns {
+  gene?: ColumnSpec;
+  compound?: ColumnSpec;
+}
 
-const numericColumns = (record: Record<string, string>): number[] => {
-  const vals: number[] = [];
-  for (const [header, raw] of Object.entries(record)) {
-    if (ID_HEADER.test(header) || STAT_HEADER.test(header)) continue;
-    const n = parseFloat(raw);
-    if (Number.isFinite(n)) vals.push(n);
-  }
-  return vals;
-};
+/** Rows behind identifiers that parseDataToMap already collapsed, per table. */
+export interface OverlayRowRecords {
+  gene?: RowRecords;
+  compound?: RowRecords;
+}
 
-export const foldChangeValue = (record: Record<string, string>): number => {
-  for (const [header, raw] of Object.entries(record)) {
-    if (FC_HEADER.test(header)) {
-      const n = parseFloat(raw);
-      if (Number.isFinite(n)) return n;
-    }
-  }
-  return NaN;
-};
+/** Other ids (and, for compounds, names) of an uploaded identifier, from the offline crosswalks or a user file. */
+export type SynonymLookup = (id: string) => string[];
 
-export const abundanceValue = (record: Record<string, string>): number => {
-  const cols = numericColumns(record);
-  if (cols.length === 0) return NaN;
-  return cols.reduce((a, b) => a + b, 0) / cols.length;
-};
+/** Everything besides the two tables that shapes the overlay; all optional. */
+export interface OverlayInputs {
+  /** Explicit column mapping per table (from the Sidebar); guessed from headers when absent. */
+  columns?: OverlayColumns;
+  /** Rows behind identifiers that parseDataToMap collapsed (re-merged by normalized id; tooltip "N rows aggregated"). */
+  rowRecords?: OverlayRowRecords;
+  geneSynonyms?: SynonymLookup;
+  compoundSynonyms?: SynonymLookup;
+  /** From the user's synonym file; matched against labels of genes and compounds alike. */
+  userSynonyms?: SynonymLookup;
+  /**
+   * identifiers.org prefixes the uploaded ids of each table may belong to (see
+   * accessionKey); without one, only self-identifying ids match annotations.
+   */
+  idNamespaces?: { gene?: string[]; compound?: string[] };
+  /**
+   * Impact mode: perturbation per glyph id from ./impact. Gene glyphs in it are
+   * colored by their perturbation factor instead of their own value, measured
+   * or not.
+   */
+  impact?: Map<string, NodeImpact>;
+}
 
 // --- matching -------------------------------------------------------------
 
@@ -79,34 +91,329 @@ const normalize = (s: string): string => s.trim().toUpperCase();
 const tokenize = (label: string): string[] =>
   label.split(/[^A-Za-z0-9_]+/).map((t) => t.trim()).filter(Boolean);
 
+/**
+ * Bare accession for isoform-insensitive label matching: database prefix and
+ * version / isoform suffix dropped, so "uniprot:P12345-2" and
+ * "ENSG00000117399.14" read as "P12345" and "ENSG00000117399".
+ */
+export const bareAccession = (id: string): string =>
+  normalize(id).replace(/^[A-Z][A-Z0-9._]*:(?=.)/, '').replace(/[.-]\d+$/, '');
+
+// identifiers.org prefixes by the other names annotations and tables give them
+// (MIRIAM URNs, KEGG db codes, old-style prefixes).
+const NAMESPACE_ALIASES: Record<string, string> = {
+  'obo.chebi': 'chebi', uniprotkb: 'uniprot', entrez: 'ncbigene', 'entrez.gene': 'ncbigene', geneid: 'ncbigene',
+  pubchem: 'pubchem.compound', cid: 'pubchem.compound', cpd: 'kegg.compound', gl: 'kegg.compound', dr: 'kegg.compound',
+  kegg: 'kegg.genes', tair: 'tair.locus',
+};
+
+// Short lowercase prefixes that are databases, not KEGG organism codes ("hsa:2305").
+const SHORT_NAMESPACES = new Set(['hmdb', 'hgnc', 'pdb', 'cas', 'mgi', 'rgd', 'sgd', 'omim', 'mesh', 'ncit', 'doid', 'pato']);
+
+// Accessions whose form names their database: they match with or without a
+// prefix, and over a wrong one. KEGG glycans and drugs file with compounds, as
+// in the Compound ID Type setting.
+const SELF_NAMED: [RegExp, string][] = [
+  [/^CHEBI:\d+$/, 'chebi'],
+  [/^[CDG]\d{5}$/, 'kegg.compound'],
+  [/^HMDB\d+$/, 'hmdb'],
+  [/^ENS[A-Z]*[EGPT]\d{11}$/, 'ensembl'],
+  [/^AT[1-5CM]G\d{5}$/, 'tair.locus'],
+  [/^([OPQ]\d[A-Z0-9]{3}\d|[A-NR-Z]\d([A-Z][A-Z0-9]{2}\d){1,2})$/, 'uniprot'],
+];
+
+const namespaceOf = (prefix: string): string => {
+  const p = prefix.toLowerCase();
+  if (NAMESPACE_ALIASES[p]) return NAMESPACE_ALIASES[p];
+  return /^[a-z]{3,4}$/.test(prefix) && !SHORT_NAMESPACES.has(p) ? 'kegg.genes' : p;
+};
+
+/**
+ * Namespace-qualified accession for annotation matching ("chebi:15422",
+ * "ncbigene:2305"): identifiers.org, MIRIAM and KEGG prefixes read as one
+ * scheme and version / isoform suffixes dropped, so "uniprot:P12345-2",
+ * "obo.chebi:CHEBI:15422" and "cpd:C00002" compare equal to the ids people
+ * upload. Self-identifying accessions (UniProt, Ensembl, ChEBI, HMDB, KEGG
+ * compounds, AGI loci) need no prefix; any other bare id is taken to be from
+ * `ns`, and has no key ('') without one, so PubChem 1234 and Entrez 1234
+ * never meet.
+ */
+export const accessionKey = (id: string, ns = ''): string => {
+  const [, prefix, rest] = /^([A-Za-z][\w.-]*):(.+)$/.exec(id.trim()) ?? [];
+  let space = prefix ? namespaceOf(prefix) : ns;
+  let acc = normalize(rest ?? id).replace(/[.-]\d+$/, '');
+  const named = SELF_NAMED.find(([re]) => re.test(acc));
+  if (named) space = named[1];
+  if (space === 'chebi') acc = acc.replace(/^CHEBI:/, '');
+  if (space === 'hmdb') acc = acc.replace(/^HMDB0*(\d+)$/, (_, n: string) => `HMDB${n.padStart(7, '0')}`);
+  return space && acc ? `${space}:${acc}` : '';
+};
+
+/**
+ * How a glyph was tied to its data row: its whole label is an uploaded id
+ * (`exact`), one word of it is (`token`), one of its annotation ids is
+ * (`annotation`), or the label / annotation hit a synonym of the uploaded id
+ * from the offline crosswalk (`crosswalk`) or the user's file (`synonym`).
+ * In impact mode an unmeasured glyph that upstream changes reach is drawn too
+ * (`propagated`); it has no data row and is not in the audit.
+ */
+export type MatchMethod = 'exact' | 'token' | 'annotation' | 'crosswalk' | 'synonym' | 'propagated';
+
+/** How labels and uploaded ids are compared under each `matchingPolicy`. */
+interface MatchRule {
+  /** Comparison key; ids with equal keys are one row. */
+  key: (s: string) => string;
+  /** Words of a label tried after the whole label, or null to try the whole label only. */
+  words: ((label: string) => string[]) | null;
+}
+
+/** Sidebar option labels. */
+export const MATCHING_POLICY_LABELS: Record<MatchingPolicy, string> = {
+  token: 'Whole label, then words',
+  exact: 'Whole label only',
+  isoform: 'Ignore prefixes / isoforms',
+  caseSensitive: 'Case-sensitive',
+};
+
+/** Sidebar option labels for the second visual channel. */
+export const SECONDARY_CHANNEL_LABELS: Record<SecondaryChannel, string> = {
+  none: 'None',
+  borderWidth: 'Border width',
+  borderColor: 'Border color',
+  opacity: 'Fill opacity',
+  badge: 'Corner badge size',
+};
+
+const MATCH_RULES: Record<MatchingPolicy, MatchRule> = {
+  token: { key: normalize, words: tokenize },
+  exact: { key: normalize, words: null },
+  // Words are split on whitespace / commas only, so "P12345-2" stays one word.
+  isoform: { key: bareAccession, words: (label) => label.split(/[\s,;/]+/).filter(Boolean) },
+  caseSensitive: { key: (s) => s.trim(), words: tokenize },
+};
+
+/** What the renderers know about a glyph when asking for its data. */
+export interface GlyphRef {
+  /** Glyph / entry id in the source file. */
+  id: string;
+  label: string;
+  /** Annotation ids (SBGN-ML `bqbiol:is`, KGML entry ids); tried before the label. */
+  xrefs?: string[];
+}
+
+/** One matched glyph, for the mapping report. */
+export interface GlyphMatch {
+  kind: 'gene' | 'compound';
+  glyphId: string;
+  label: string;
+  /** Identifier of the data row (after any gene id conversion). */
+  key: string;
+  /** The label, word or annotation id that hit. */
+  candidate: string;
+  method: MatchMethod;
+  /** Other rows the glyph would also have matched (the first hit wins). */
+  alternatives: string[];
+}
+
+/** One colored table, as the viewer's interactive legend needs it. */
+export interface LegendLayer {
+  kind: 'gene' | 'compound';
+  scale: ColorScale;
+  /** Values of the data rows some glyph matched (every slice when sliced), for the histogram. */
+  values: number[];
+  /** Glyphs colored from this table. */
+  glyphs: number;
+}
+
+export interface LegendModel {
+  layers: LegendLayer[];
+  /** Fill of glyphs without data; a hidden layer's glyphs fall back to it. */
+  neutralFill: string;
+}
+
+/** Every match made while rendering, plus the data rows no glyph matched. */
+export interface OverlayAudit {
+  matches: GlyphMatch[];
+  unmatched: { kind: 'gene' | 'compound'; key: string }[];
+}
+
+interface LookupEntry {
+  key: string;
+  /** The overlay value; for categorical tables the index of the row's category. */
+  value: number;
+  /** Value of the significance column (padj / p), NaN when absent or NA. */
+  p: number;
+  /** One value per value column, in column order. */
+  slices: number[];
+  /** Input rows collapsed into this entry (1 unless the id was duplicated). */
+  rows: number;
+  /** Value of the secondary column as uploaded, NaN when absent or NA. */
+  secondary: number;
+}
+
 interface Lookup {
-  byId: Map<string, { key: string; value: number }>;
+  byId: Map<string, LookupEntry>;
+  /** Every finite value the color scale must cover (all slices when sliced). */
   values: number[];
+  /** Name of the significance column, or null when the table has none. */
+  pColumn: string | null;
+  /** Name of the secondary column, or null when none is mapped. */
+  secondaryColumn: string | null;
+  /** Value-column names when glyphs are split into slices, else null. */
+  sliceLabels: string[] | null;
+  /** Category labels of a categorical table (entry values index into it), else null. */
+  categories: string[] | null;
+  /** Tooltip phrase for the duplicate rule, e.g. "max |log2FC|". */
+  aggregation: string;
+  /** Qualified accessions (accessionKey) of uploaded ids and their synonyms, for annotation matching. */
+  byXref: Map<string, LookupEntry>;
+  /** Keys of byId / byXref that are synonyms rather than uploaded ids, with the method they report. */
+  synonymIds: Map<string, MatchMethod>;
+  synonymXrefs: Map<string, MatchMethod>;
+  /** One entry per uploaded identifier. */
+  entries: LookupEntry[];
+  rule: MatchRule;
 }
 
-const buildLookup = (data: DataMap, pick: (r: Record<string, string>) => number): Lookup => {
-  const byId = new Map<string, { key: string; value: number }>();
-  const values: number[] = [];
+interface LookupSynonyms {
+  /** Crosswalk ids, for annotation matching only (genes). */
+  xref?: SynonymLookup;
+  /** Crosswalk ids and names also matched against labels (compounds). */
+  label?: SynonymLookup;
+  /** The user's synonym file, matched against labels. */
+  user?: SynonymLookup;
+}
+
+// Ids the policy's key can't tell apart ("CDC20", "cdc20 " unless case-sensitive;
+// "P12345-1", "P12345-2" when isoform-insensitive) are merged with the same rule
+// parseDataToMap applied to exact duplicates, over all their rows at once (a
+// mean of means would weigh a one-row id like a ten-row one).
+const buildLookup = (
+  data: DataMap,
+  spec: ColumnSpec,
+  mode: DuplicateAggregation,
+  foldChange: boolean,
+  rule: MatchRule,
+  rowRecords: RowRecords = new Map(),
+  synonyms: LookupSynonyms = {},
+  namespaces: string[] = []
+): Lookup => {
+  const groups = new Map<string, { key: string; records: Record<string, string>[] }>();
   data.forEach((record, key) => {
-    const value = pick(record);
-    const norm = normalize(key);
-    if (norm && !byId.has(norm)) {
-      byId.set(norm, { key, value });
-      if (Number.isFinite(value)) values.push(value);
+    const norm = rule.key(key);
+    if (!norm) return;
+    const rows = rowRecords.get(key) ?? [record];
+    const group = groups.get(norm);
+    if (group) group.records.push(...rows);
+    else groups.set(norm, { key, records: [...rows] });
+  });
+
+  const byId = new Map<string, LookupEntry>();
+  const values: number[] = [];
+  const pColumn = spec.significanceColumn;
+  const sliceLabels = spec.sliced && spec.valueColumns.length > 1 ? spec.valueColumns : null;
+  const merged = Array.from(groups, ([norm, { key, records }]) => ({ norm, key, rows: records.length, record: aggregateRecords(records, spec, mode) }));
+  // Categorical tables carry each category's index as the value, so slicing,
+  // stripes and the color lookup work unchanged.
+  const categories = spec.categorical ? specCategories(merged.map((m) => m.record), spec) : null;
+  const categoryIndex = new Map(categories?.map((c, i) => [c, i]));
+  const indexOf = (c: string | null): number => (c === null ? NaN : categoryIndex.get(c) ?? NaN);
+  merged.forEach(({ norm, key, rows, record }) => {
+    const value = categories ? indexOf(specCategory(record, spec)) : specValue(record, spec);
+    const slices = categories ? spec.valueColumns.map((col) => indexOf(categoryOf(record[col]))) : specSlices(record, spec);
+    const p = pColumn ? parseFloat(record[pColumn] ?? '') : NaN;
+    const secondary = spec.secondaryColumn ? parseFloat(record[spec.secondaryColumn] ?? '') : NaN;
+    byId.set(norm, { key, value, p, slices, rows, secondary });
+    if (sliceLabels) values.push(...slices.filter(Number.isFinite));
+    else if (Number.isFinite(value)) values.push(value);
+  });
+  // Synonyms only fill gaps: an id the user uploaded directly always keeps its
+  // own row, and the user's file wins over the crosswalk. All serve annotation
+  // matching; compound crosswalk synonyms also include names ("ATP" for C00002),
+  // which is how chemicals are labeled.
+  const byXref = new Map<string, LookupEntry>();
+  const synonymIds = new Map<string, MatchMethod>();
+  const synonymXrefs = new Map<string, MatchMethod>();
+  const entries = Array.from(byId.values());
+  entries.forEach((entry) => {
+    for (const ns of namespaces.length ? namespaces : ['']) {
+      const key = accessionKey(entry.key, ns);
+      if (key && !byXref.has(key)) byXref.set(key, entry);
     }
   });
-  return { byId, values };
+  const sources: [SynonymLookup | undefined, MatchMethod, boolean][] = [
+    [synonyms.user, 'synonym', true],
+    [synonyms.label, 'crosswalk', true],
+    [synonyms.xref, 'crosswalk', false],
+  ];
+  for (const [lookup, method, labels] of sources) {
+    if (!lookup) continue;
+    entries.forEach((entry) => {
+      for (const syn of lookup(entry.key)) {
+        const xref = accessionKey(syn);
+        if (xref && !byXref.has(xref)) { byXref.set(xref, entry); synonymXrefs.set(xref, method); }
+        const norm = rule.key(syn);
+        if (labels && norm && !byId.has(norm)) { byId.set(norm, entry); synonymIds.set(norm, method); }
+      }
+    });
+  }
+  return {
+    byId, values, pColumn, secondaryColumn: spec.secondaryColumn, sliceLabels, categories, aggregation: aggregationPhrase(mode, spec, foldChange), byXref, synonymIds, synonymXrefs, entries, rule,
+  };
 };
 
-const matchLabel = (label: string, lookup: Lookup): { key: string; value: number } | null => {
+interface LookupMatch {
+  entry: LookupEntry;
+  method: MatchMethod;
+  candidate: string;
+  alternatives: string[];
+}
+
+interface Candidate {
+  text: string;
+  entry: LookupEntry;
+  /** Set when the text hit a synonym rather than the uploaded id. */
+  via?: MatchMethod;
+}
+
+// The first candidate wins; the distinct rows behind the others make it ambiguous.
+const pick = (hits: Candidate[], method: MatchMethod): LookupMatch | null => {
+  if (!hits.length) return null;
+  const [first] = hits;
+  const alternatives = Array.from(new Set(hits.filter((h) => h.entry !== first.entry).map((h) => h.entry.key)));
+  return { entry: first.entry, method: first.via ?? method, candidate: first.text, alternatives };
+};
+
+const matchLabel = (label: string, lookup: Lookup): LookupMatch | null => {
   if (!label) return null;
-  const whole = normalize(label);
-  if (lookup.byId.has(whole)) return lookup.byId.get(whole)!;
-  for (const tok of tokenize(label)) {
-    const hit = lookup.byId.get(normalize(tok));
-    if (hit) return hit;
-  }
-  return null;
+  const { rule } = lookup;
+  const whole = rule.key(label);
+  const exact = lookup.byId.get(whole);
+  if (exact) return pick([{ text: label.trim(), entry: exact, via: lookup.synonymIds.get(whole) }], 'exact');
+  if (!rule.words) return null;
+  const hits = rule.words(label).flatMap((word): Candidate[] => {
+    const norm = rule.key(word);
+    const entry = lookup.byId.get(norm);
+    return entry ? [{ text: word, entry, via: lookup.synonymIds.get(norm) }] : [];
+  });
+  return pick(hits, 'token');
+};
+
+const matchXrefs = (ids: string[], lookup: Lookup): LookupMatch | null => {
+  const hits = ids.flatMap((id): Candidate[] => {
+    const key = accessionKey(id);
+    const entry = lookup.byXref.get(key);
+    return entry ? [{ text: id, entry, via: lookup.synonymXrefs.get(key) }] : [];
+  });
+  return pick(hits, 'annotation');
+};
+
+// Annotation ids (when the glyph has any) are authoritative; the label is
+// consulted when they don't hit and label fallback is enabled, and always for
+// glyphs without annotations, which have nothing else to go by.
+const matchGlyph = (label: string, ids: string[], lookup: Lookup, labelFallback: boolean): LookupMatch | null => {
+  if (!ids.length) return matchLabel(label, lookup);
+  return matchXrefs(ids, lookup) ?? (labelFallback ? matchLabel(label, lookup) : null);
 };
 
 // --- overlay --------------------------------------------------------------
@@ -114,93 +421,560 @@ const matchLabel = (label: string, lookup: Lookup): { key: string; value: number
 export interface EntityHit {
   kind: 'gene' | 'compound';
   key: string;
-  /** Fill color from the scale, or null if the matched value is non-finite. */
+  /**
+   * Fill color from the scale (or the neutral not-significant fill), or null if
+   * the matched value is non-finite.
+   */
   fill: string | null;
+  /** False when measured but failing the significance / |log2FC| cutoffs. */
+  significant: boolean;
+  /** The numeric value behind a single-color fill; unset for slices, stripes and categories. */
+  value?: number;
+  /** Per-column values when the table is split into slices (fill is then a slice gradient). */
+  slices?: number[];
+  /** Categorical tables: the category label, or one per slice. */
+  categories?: string[];
+  /** Set when duplicate rows were collapsed into this hit: their count and the rule used. */
+  rows?: number;
+  aggregation?: string;
+  method: MatchMethod;
+  /** Set for complexes / multi-gene boxes colored from several genes: each member's value, and how they were combined. */
+  members?: { key: string; value: number; category?: string }[];
+  memberAggregation?: MemberAggregation;
+  /** Set when the value lies below / above the scale's domain, so the fill is the end color. */
+  clamped?: 'low' | 'high';
+  /** Transformed secondary value, when the table maps a secondary column and a channel is chosen. */
+  secondary?: number;
+  /** Impact mode: perturbation factor (the fill's value) and the part accumulated from upstream. */
+  impact?: { pf: number; acc: number };
 }
 
 export interface Overlay {
   hasData: boolean;
   legendHeight: number;
-  /** Match a label to gene/compound data; increments mapped counts when colored. */
-  match: (label: string, kinds: { gene?: boolean; compound?: boolean }) => EntityHit | null;
+  /**
+   * Match a glyph to gene/compound data, by its annotation ids first (SBGN-ML
+   * `bqbiol:is`, KEGG entry ids) and then its label, which `labelFallback`
+   * turns off for glyphs that carry annotation ids. Every hit is recorded for
+   * `audit`.
+   */
+  match: (glyph: GlyphRef, kinds: { gene?: boolean; compound?: boolean }) => EntityHit | null;
+  /**
+   * Color a container glyph (SBGN complex, multi-gene KEGG box) from its member
+   * genes, combined per `memberAggregation`; null when no member has data, so
+   * the caller can fall back to `match` on the glyph itself.
+   */
+  matchMembers: (glyph: GlyphRef, members: GlyphRef[]) => EntityHit | null;
+  /** The matches made so far and the uploaded ids none of them used. */
+  audit: () => OverlayAudit;
+  /** Scales, matched values and counts for the viewer's interactive legend; call after every match. */
+  legend: () => LegendModel;
+  /**
+   * Outline for a glyph: heavier for significant hits under the 'border'
+   * encoding; width or color follow the secondary value under those channels.
+   */
+  stroke: (hit: EntityHit | null, color: string, width: number) => { color: string; width: number };
+  /** Fill opacity under the 'opacity' secondary channel, else 1. */
+  fillOpacity: (hit: EntityHit | null) => number;
+  /**
+   * Badges at a glyph's top-right corner (x, y), right to left: the
+   * significance mark under the 'marker' encoding, a ▲/▼ for clamped values when
+   * the scale asks for it, and the secondary value under the 'badge' channel.
+   */
+  marker: (hit: EntityHit | null, x: number, y: number) => string;
   legendSvg: (x: number, y: number, width: number) => string;
+  /** `<defs>` for slice fills referenced by hits; emit once, after every match() call. */
+  defsSvg: () => string;
 }
 
-const maxAbs = (vals: number[]) => vals.reduce((m, v) => Math.max(m, Math.abs(v)), 0);
-const minOf = (vals: number[]) => vals.reduce((m, v) => Math.min(m, v), Infinity);
-const maxOf = (vals: number[]) => vals.reduce((m, v) => Math.max(m, v), -Infinity);
+/** Fill for glyphs that were measured but did not pass the cutoffs. */
+export const NOT_SIGNIFICANT_FILL = '#d6d3d1';
+const EMPHASIS_STROKE = '#0f172a';
+// Secondary channel: border colors low → high (ColorBrewer Oranges), badge fill.
+const SECONDARY_BORDER_STOPS = ['#fdd0a2', '#fd8d3c', '#d94801', '#7f2704'];
+const SECONDARY_BADGE_FILL = '#6d28d9';
+const SLICE_LABEL_CHARS = 36;
+
+const clipLabel = (s: string): string =>
+  s.length > SLICE_LABEL_CHARS ? `${s.slice(0, SLICE_LABEL_CHARS - 1)}…` : s;
 
 export const buildOverlay = (
   config: VisualizationConfig,
   geneData: DataMap,
-  compoundData: DataMap
+  compoundData: DataMap,
+  inputs: OverlayInputs = {}
 ): Overlay => {
-  const geneLookup = buildLookup(geneData, config.dataType === 'deseq2' ? foldChangeValue : abundanceValue);
-  const compoundLookup = buildLookup(compoundData, config.compoundDataType === 'fold_change' ? foldChangeValue : abundanceValue);
-
-  const geneScale: ColorScale | null = geneLookup.values.length
-    ? config.dataType === 'deseq2'
-      ? divergentScale(maxAbs(geneLookup.values), 'Gene log2 fold change')
-      : sequentialScale(minOf(geneLookup.values), maxOf(geneLookup.values), 'gene-sequential', 'Gene abundance')
-    : null;
-  const compoundScale: ColorScale | null = compoundLookup.values.length
-    ? config.compoundDataType === 'fold_change'
-      ? divergentScale(maxAbs(compoundLookup.values), 'Compound log2 fold change')
-      : sequentialScale(minOf(compoundLookup.values), maxOf(compoundLookup.values), 'compound-sequential', 'Compound abundance')
-    : null;
+  const { columns = {}, rowRecords = {} } = inputs;
+  const geneSpec = columns.gene ?? guessColumnSpecForMap(geneData, config.dataType === 'deseq2');
+  const compoundSpec = columns.compound ?? guessColumnSpecForMap(compoundData, config.compoundDataType === 'fold_change');
+  // A categorical column overrides the data type: no fold-change cutoff, no numeric scale.
+  const geneFc = config.dataType === 'deseq2' && !geneSpec.categorical;
+  const compoundFc = config.compoundDataType === 'fold_change' && !compoundSpec.categorical;
+  const mode = config.duplicateAggregation;
+  const rule = MATCH_RULES[config.matchingPolicy] ?? MATCH_RULES.token;
+  const geneLookup = buildLookup(
+    geneData, geneSpec, mode, geneFc, rule, rowRecords.gene,
+    { xref: inputs.geneSynonyms, user: inputs.userSynonyms }, inputs.idNamespaces?.gene
+  );
+  const compoundLookup = buildLookup(
+    compoundData, compoundSpec, mode, compoundFc, rule, rowRecords.compound,
+    { label: inputs.compoundSynonyms, user: inputs.userSynonyms }, inputs.idNamespaces?.compound
+  );
+
+  const { impact } = inputs;
+  const geneScale: ColorScale | null = !geneLookup.values.length
+    ? null
+    : impact
+      ? buildColorScale(Array.from(impact.values(), (n) => n.pf).filter((v) => v !== 0), true, 'gene', config.geneColorScale, 'Gene perturbation factor')
+      : geneLookup.categories
+      ? categoricalScale(geneLookup.categories, config.geneColorScale.categoryColors, 'Gene category')
+      : buildColorScale(geneLookup.values, geneFc, 'gene', config.geneColorScale, geneFc ? 'Gene log2 fold change' : 'Gene abundance');
+  const compoundScale: ColorScale | null = !compoundLookup.values.length
+    ? null
+    : compoundLookup.categories
+      ? categoricalScale(compoundLookup.categories, config.compoundColorScale.categoryColors, 'Compound category')
+      : buildColorScale(compoundLookup.values, compoundFc, 'compound', config.compoundColorScale, compoundFc ? 'Compound log2 fold change' : 'Compound abundance');
 
   const counts = { gene: 0, compound: 0 };
+  const significantCounts = { gene: 0, compound: 0 };
+
+  // A row is significant when its p / padj is at or below the cutoff (NA counts
+  // as not significant, like DESeq2's independent-filtering NAs) and, for fold
+  // changes, |log2FC| reaches the minimum. Tables without a significance column
+  // only face the fold-change cutoff.
+  const passes = (m: LookupEntry, lookup: Lookup, foldChange: boolean): boolean => {
+    const pOk = lookup.pColumn === null || (Number.isFinite(m.p) && m.p <= config.significanceCutoff);
+    const fcOk = !foldChange || Math.abs(m.value) >= config.minAbsLog2FC;
+    return pOk && fcOk;
+  };
+
+  // Slices are drawn as a hard-stop horizontal gradient so any glyph shape (rect,
+  // stadium, circle, KEGG image box) splits into N equal vertical bands.
+  const sliceDefs = new Map<string, string>();
+  const sliceFill = (colors: string[]): string => {
+    const sig = colors.join(',');
+    let id = sliceDefs.get(sig);
+    if (!id) {
+      id = `slices${sliceDefs.size}`;
+      sliceDefs.set(sig, id);
+    }
+    return `url(#${id})`;
+  };
+
+  // The secondary column, transformed, and the range the channel spans per
+  // table. A p-value of 0 is −log10 = Infinity: outside the range, drawn at its top.
+  const negLog = config.secondaryTransform === 'negLog10';
+  const transform = (v: number): number => (!negLog ? v : v > 0 ? -Math.log10(v) : v === 0 ? Infinity : NaN);
+  const secondaryRange = (lookup: Lookup): { column: string; min: number; max: number } | null => {
+    if (config.secondaryChannel === 'none' || !lookup.secondaryColumn) return null;
+    const vals = lookup.entries.map((e) => transform(e.secondary)).filter(Number.isFinite);
+    if (!vals.length) return null;
+    return { column: lookup.secondaryColumn, min: vals.reduce((a, b) => Math.min(a, b)), max: vals.reduce((a, b) => Math.max(a, b)) };
+  };
+  const geneSecondary = secondaryRange(geneLookup);
+  const compoundSecondary = secondaryRange(compoundLookup);
+  // Several entries (complex members) show their mean.
+  const secondaryOf = (kind: EntityHit['kind'], ms: LookupEntry[]): Pick<EntityHit, 'secondary'> => {
+    if (!(kind === 'gene' ? geneSecondary : compoundSecondary)) return {};
+    const vals = ms.map((m) => transform(m.secondary)).filter((v) => !Number.isNaN(v));
+    return vals.length ? { secondary: mean(vals) } : {};
+  };
+
+  // A sliced or striped fill is clamped when any of its bands is; the first one decides the direction.
+  const clampOf = (scale: ColorScale, values: number[]): Pick<EntityHit, 'clamped'> => {
+    const side = values.map(scale.outOfRange).find((o) => o !== 0);
+    return side ? { clamped: side < 0 ? 'low' : 'high' } : {};
+  };
+
+  const hitFor = (kind: EntityHit['kind'], { entry: m, method }: LookupMatch, lookup: Lookup, scale: ColorScale, foldChange: boolean): EntityHit => {
+    const significant = passes(m, lookup, foldChange);
+    let color = scale.color(m.value);
+    if (color && significant && lookup.sliceLabels) {
+      color = sliceFill(m.slices.map((v) => scale.color(v) ?? config.glyphFillColor));
+    }
+    const fill = color && !significant ? NOT_SIGNIFICANT_FILL : color;
+    const clamped = color && significant ? clampOf(scale, lookup.sliceLabels ? m.slices : [m.value]) : {};
+    const single = !lookup.sliceLabels && !lookup.categories && Number.isFinite(m.value);
+    if (fill) counts[kind]++;
+    if (fill && significant) significantCounts[kind]++;
+    return {
+      kind,
+      key: m.key,
+      fill,
+      significant,
+      method,
+      ...(single ? { value: m.value } : {}),
+      ...(lookup.categories
+        ? { categories: (lookup.sliceLabels ? m.slices : [m.value]).map((i) => lookup.categories?.[i] ?? 'NA') }
+        : lookup.sliceLabels ? { slices: m.slices } : {}),
+      ...(m.rows > 1 ? { rows: m.rows, aggregation: lookup.aggregation } : {}),
+      ...clamped,
+      ...secondaryOf(kind, [m]),
+    };
+  };
 
-  const match: Overlay['match'] = (label, kinds) => {
+  const defsSvg: Overlay['defsSvg'] = () => {
+    if (!sliceDefs.size) return '';
+    let out = '<defs>';
+    sliceDefs.forEach((id, sig) => {
+      const colors = sig.split(',');
+      const n = colors.length;
+      const stops = colors
+        .map((c, i) => `<stop offset="${(i / n) * 100}%" stop-color="${c}"/><stop offset="${((i + 1) / n) * 100}%" stop-color="${c}"/>`)
+        .join('');
+      out += `<linearGradient id="${id}" x1="0%" y1="0%" x2="100%" y2="0%">${stops}</linearGradient>`;
+    });
+    return out + '</defs>';
+  };
+
+  const matches: GlyphMatch[] = [];
+  const matchedEntries = { gene: new Set<LookupEntry>(), compound: new Set<LookupEntry>() };
+  const record = (kind: GlyphMatch['kind'], glyph: GlyphRef, m: LookupMatch): void => {
+    matchedEntries[kind].add(m.entry);
+    matches.push({
+      kind, glyphId: glyph.id, label: glyph.label, key: m.entry.key, candidate: m.candidate, method: m.method, alternatives: m.alternatives,
+    });
+  };
+
+  // Impact mode: a gene glyph shows its perturbation factor, and is drawn even
+  // without a data row when upstream changes reach it.
+  const impactValues: number[] = [];
+  const impactHit = (glyph: GlyphRef, node: NodeImpact, m: LookupMatch | null, scale: ColorScale): EntityHit | null => {
+    if (!m && node.pf === 0) return null;
+    const fill = scale.color(node.pf);
+    if (fill) {
+      counts.gene++;
+      impactValues.push(node.pf);
+    }
+    return {
+      kind: 'gene',
+      key: m?.entry.key ?? (node.label || glyph.id),
+      fill,
+      significant: true,
+      method: m?.method ?? 'propagated',
+      value: node.pf,
+      impact: { pf: node.pf, acc: node.acc },
+      ...(fill ? clampOf(scale, [node.pf]) : {}),
+      ...(m ? secondaryOf('gene', [m.entry]) : {}),
+    };
+  };
+
+  const match: Overlay['match'] = (glyph, kinds) => {
+    const ids = glyph.xrefs ?? [];
     if (kinds.gene && geneScale) {
-      const m = matchLabel(label, geneLookup);
-      if (m) {
-        const fill = geneScale.color(m.value);
-        if (fill) counts.gene++;
-        return { kind: 'gene', key: m.key, fill };
+      const m = matchGlyph(glyph.label, ids, geneLookup, config.labelFallback);
+      const node = impact?.get(glyph.id);
+      if (m) record('gene', glyph, m);
+      if (node) {
+        const hit = impactHit(glyph, node, m, geneScale);
+        if (hit) return hit;
+      } else if (m) {
+        return hitFor('gene', m, geneLookup, geneScale, geneFc);
       }
     }
     if (kinds.compound && compoundScale) {
-      const m = matchLabel(label, compoundLookup);
-      if (m) {
-        const fill = compoundScale.color(m.value);
-        if (fill) counts.compound++;
-        return { kind: 'compound', key: m.key, fill };
-      }
+      const m = matchGlyph(glyph.label, ids, compoundLookup, config.labelFallback);
+      if (m) { record('compound', glyph, m); return hitFor('compound', m, compoundLookup, compoundScale, compoundFc); }
     }
     return null;
   };
 
+  // One member behaves like a plain match. Several are combined: `maxAbs` shows
+  // the strongest member, `mean` averages them (slice-wise for sliced tables),
+  // `stripes` gives each member its own band. Under `mean` and `stripes` the
+  // glyph counts as significant when any member is. Categories can't be
+  // averaged or ranked, so for categorical tables `mean` and `maxAbs` both show
+  // the member with the most common category.
+  const matchMembers: Overlay['matchMembers'] = (glyph, members) => {
+    if (!geneScale) return null;
+    const found: LookupMatch[] = [];
+    for (const ref of members) {
+      const m = matchGlyph(ref.label, ref.xrefs ?? [], geneLookup, config.labelFallback);
+      if (!m || found.some((f) => f.entry === m.entry)) continue;
+      record('gene', { ...ref, id: glyph.id }, m);
+      found.push(m);
+    }
+    if (!found.length) return null;
+    const node = impact?.get(glyph.id);
+    if (node) return impactHit(glyph, node, found[0], geneScale);
+    const hit = (m: LookupMatch) => hitFor('gene', m, geneLookup, geneScale, geneFc);
+    if (found.length === 1) return hit(found[0]);
+
+    const how = config.memberAggregation;
+    const entries = found.map((f) => f.entry);
+    const cats = geneLookup.categories;
+    const memberList = {
+      members: entries.map(({ key, value }) => ({ key, value, ...(cats ? { category: cats[value] ?? 'NA' } : {}) })),
+      memberAggregation: how,
+    };
+    if (cats && how !== 'stripes') {
+      const tally = new Map<number, number>();
+      entries.forEach((e) => { if (Number.isFinite(e.value)) tally.set(e.value, (tally.get(e.value) ?? 0) + 1); });
+      const top = found.reduce((a, b) => ((tally.get(b.entry.value) ?? 0) > (tally.get(a.entry.value) ?? 0) ? b : a));
+      return { ...hit(top), ...memberList };
+    }
+    if (how === 'maxAbs') {
+      const top = found.reduce((a, b) => (Math.abs(b.entry.value) > Math.abs(a.entry.value) ? b : a));
+      return { ...hit(top), ...memberList };
+    }
+    const significant = entries.some((e) => passes(e, geneLookup, geneFc));
+
+    let color: string | null;
+    let clamped: Pick<EntityHit, 'clamped'> = {};
+    let single: Pick<EntityHit, 'value'> = {};
+    if (how === 'stripes') {
+      const shown = entries.filter((e) => geneScale.color(e.value) && passes(e, geneLookup, geneFc));
+      color = sliceFill(entries.map((e) => {
+        const c = geneScale.color(e.value);
+        return !c ? config.glyphFillColor : passes(e, geneLookup, geneFc) ? c : NOT_SIGNIFICANT_FILL;
+      }));
+      clamped = clampOf(geneScale, shown.map((e) => e.value));
+    } else {
+      const value = mean(entries.map((e) => e.value).filter(Number.isFinite));
+      color = Number.isFinite(value) ? geneScale.color(value) : null;
+      let shown = [value];
+      if (color && !geneLookup.sliceLabels) single = { value };
+      if (color && significant && geneLookup.sliceLabels) {
+        shown = geneLookup.sliceLabels.map((_, i) => mean(entries.map((e) => e.slices[i]).filter(Number.isFinite)));
+        color = sliceFill(shown.map((v) => (Number.isFinite(v) && geneScale.color(v)) || config.glyphFillColor));
+      }
+      if (color && !significant) color = NOT_SIGNIFICANT_FILL;
+      else if (color) clamped = clampOf(geneScale, shown);
+    }
+    if (color) counts.gene++;
+    if (color && significant) significantCounts.gene++;
+    return {
+      kind: 'gene', key: entries[0].key, fill: color, significant, method: found[0].method, ...single, ...memberList, ...clamped, ...secondaryOf('gene', entries),
+    };
+  };
+
+  // Significance only means something when a cutoff can actually fail (and
+  // in impact mode the cutoffs already decided which changes propagate).
+  const geneFiltered = !!geneScale && !impact && (geneLookup.pColumn !== null || (geneFc && config.minAbsLog2FC > 0));
+  const compoundFiltered = !!compoundScale && (compoundLookup.pColumn !== null || (compoundFc && config.minAbsLog2FC > 0));
+  const filtered = geneFiltered || compoundFiltered;
+  const emphasize = (hit: EntityHit | null): boolean =>
+    !!hit && !!hit.fill && hit.significant && (hit.kind === 'gene' ? geneFiltered : compoundFiltered);
+
+  // Position of a hit's secondary value within its table's range, 0…1, or null.
+  const secondaryT = (hit: EntityHit | null): number | null => {
+    const range = hit && (hit.kind === 'gene' ? geneSecondary : compoundSecondary);
+    if (!hit || !range || hit.secondary === undefined) return null;
+    return range.max > range.min ? Math.max(0, Math.min(1, (hit.secondary - range.min) / (range.max - range.min))) : 1;
+  };
+  const widthAt = (t: number): number => 0.75 + 3.25 * t;
+  const borderColorAt = (t: number): string => rampColor(SECONDARY_BORDER_STOPS, t);
+  const opacityAt = (t: number): number => Math.round((0.2 + 0.8 * t) * 100) / 100;
+  const badgeSvg = (x: number, y: number, t: number): string =>
+    `<circle class="secondary-badge" cx="${x}" cy="${y}" r="${(2 + 4 * t).toFixed(1)}" fill="${SECONDARY_BADGE_FILL}" stroke="#ffffff" stroke-width="1"/>`;
+
+  // The secondary channel overrides the significance border where both set the same attribute.
+  const stroke: Overlay['stroke'] = (hit, color, width) => {
+    const base = config.significanceEncoding === 'border' && emphasize(hit)
+      ? { color: EMPHASIS_STROKE, width: Math.max(2.5, width * 2.2) }
+      : { color, width };
+    const t = secondaryT(hit);
+    if (t === null) return base;
+    if (config.secondaryChannel === 'borderWidth') return { ...base, width: widthAt(t) };
+    if (config.secondaryChannel === 'borderColor') return { color: borderColorAt(t), width: Math.max(base.width, 2) };
+    return base;
+  };
+
+  const fillOpacity: Overlay['fillOpacity'] = (hit) => {
+    const t = config.secondaryChannel === 'opacity' ? secondaryT(hit) : null;
+    return t === null ? 1 : opacityAt(t);
+  };
+
+  const markerSvg = (x: number, y: number): string =>
+    `<g class="sig-marker"><circle cx="${x}" cy="${y}" r="5" fill="${EMPHASIS_STROKE}"/><text x="${x}" y="${y + 3.2}" text-anchor="middle" font-size="9" font-weight="700" fill="#ffffff">*</text></g>`;
+
+  const clampMarkerSvg = (x: number, y: number, side: 'low' | 'high'): string => {
+    const d = side === 'high' ? -1 : 1;
+    return `<path class="clamp-marker" d="M${x - 5},${y - 3.5 * d} L${x + 5},${y - 3.5 * d} L${x},${y + 4.5 * d} Z" fill="${EMPHASIS_STROKE}" stroke="#ffffff" stroke-width="1"/>`;
+  };
+  const showsClamp = (hit: EntityHit | null): hit is EntityHit & { clamped: 'low' | 'high' } =>
+    !!hit?.clamped && (hit.kind === 'gene' ? config.geneColorScale : config.compoundColorScale).clampMarkers;
+
+  const marker: Overlay['marker'] = (hit, x, y) => {
+    let out = '', bx = x;
+    if (config.significanceEncoding === 'marker' && emphasize(hit)) { out += markerSvg(bx, y); bx -= 12; }
+    if (showsClamp(hit)) { out += clampMarkerSvg(bx, y, hit.clamped); bx -= 13; }
+    const t = config.secondaryChannel === 'badge' ? secondaryT(hit) : null;
+    if (t !== null) out += badgeSvg(bx, y, t);
+    return out;
+  };
+
   const activeScales = [geneScale, compoundScale].filter(Boolean) as ColorScale[];
-  const legendHeight = activeScales.length ? activeScales.length * 46 + 24 : 0;
+  const keyH = 18, sliceLineH = 12, categoryLineH = 14;
+  const slicesOf = (scale: ColorScale): string[] | null =>
+    (scale === geneScale ? geneLookup : compoundLookup).sliceLabels;
+  // Title plus a gradient bar with end labels, or one swatch line per category.
+  const headH = (scale: ColorScale): number => (scale.categories ? 12 + scale.categories.length * categoryLineH : 40);
+  // Sliced scales add a numbered mini-glyph plus one "n. column" line per slice.
+  const scaleRowH = (scale: ColorScale): number => {
+    const sl = slicesOf(scale);
+    return headH(scale) + 6 + (sl ? 22 + sl.length * sliceLineH : 0);
+  };
+  const scalesH = activeScales.reduce((h, sc) => h + scaleRowH(sc), 0);
+  // Which ends of each scale some value lies beyond; those end labels read "≤" / "≥".
+  const clampedEnds = (scale: ColorScale): { low: boolean; high: boolean } => {
+    const sides = (scale === geneScale ? geneLookup : compoundLookup).values.map(scale.outOfRange);
+    return { low: sides.includes(-1), high: sides.includes(1) };
+  };
+  const clampKey = activeScales.some((sc) => {
+    const ends = clampedEnds(sc);
+    return (ends.low || ends.high) && (sc === geneScale ? config.geneColorScale : config.compoundColorScale).clampMarkers;
+  });
+  const keyRows = (filtered ? (config.significanceEncoding === 'none' ? 2 : 3) : 0) + (clampKey ? 1 : 0);
+  // One block per table whose secondary column drives the chosen channel.
+  const secondaryBlocks = ([['Gene', geneSecondary], ['Compound', compoundSecondary]] as const)
+    .filter(([, r]) => r !== null) as [string, { column: string; min: number; max: number }][];
+  const secondaryH = 50;
+  const boxH = scalesH + keyRows * keyH + secondaryBlocks.length * secondaryH + 14;
+  const legendHeight = activeScales.length ? boxH + 10 : 0;
+
+  const cutoffText = (): string => {
+    const parts: string[] = [];
+    const pCol = geneLookup.pColumn ?? compoundLookup.pColumn;
+    if (pCol) parts.push(`${pCol} > ${fmtNum(config.significanceCutoff)}`);
+    if ((geneFc || compoundFc) && config.minAbsLog2FC > 0) parts.push(`|log2FC| < ${fmtNum(config.minAbsLog2FC)}`);
+    return parts.join(' or ');
+  };
 
-  const legendSvg: Overlay['legendSvg'] = (x, y, width) => {
+  const legendSvg: Overlay['legendSvg'] = (x, y, minWidth) => {
     if (!activeScales.length) return '';
-    const barW = 180, barH = 12, rowH = 46;
-    let out = `<g font-family="'Segoe UI', Helvetica, Arial, sans-serif">`;
-    out += `<rect x="${x}" y="${y}" width="${width}" height="${activeScales.length * rowH + 14}" rx="8" fill="#ffffff" stroke="#cbd5e1" stroke-width="1"/>`;
+    const barW = 180, barH = 12;
+    // The key spells out the cutoffs / clamp note, which needs more room.
+    const width = keyRows || secondaryBlocks.length ? Math.max(minWidth, 280) : minWidth;
+    let out = `<g class="omics-legend" font-family="'Segoe UI', Helvetica, Arial, sans-serif">`;
+    out += `<rect x="${x}" y="${y}" width="${width}" height="${boxH}" rx="8" fill="#ffffff" stroke="#cbd5e1" stroke-width="1"/>`;
+    let ry = y + 14;
     activeScales.forEach((scale, i) => {
-      const matched = scale === geneScale ? counts.gene : counts.compound;
-      const ry = y + 14 + i * rowH;
-      const gid = `lg${i}`;
-      const stops = scale.legendStops
-        .map((c, si) => `<stop offset="${(si / (scale.legendStops.length - 1)) * 100}%" stop-color="${c}"/>`)
-        .join('');
-      out += `<defs><linearGradient id="${gid}" x1="0%" y1="0%" x2="100%" y2="0%">${stops}</linearGradient></defs>`;
-      out += `<text x="${x + 12}" y="${ry + 2}" font-size="11" font-weight="600" fill="#334155">${xmlEscape(scale.label)} (${matched} mapped)</text>`;
-      out += `<rect x="${x + 12}" y="${ry + 8}" width="${barW}" height="${barH}" fill="url(#${gid})" stroke="#94a3b8" stroke-width="0.5"/>`;
-      out += `<text x="${x + 12}" y="${ry + 34}" font-size="10" fill="#475569">${fmtNum(scale.domainMin)}</text>`;
-      out += `<text x="${x + 12 + barW}" y="${ry + 34}" font-size="10" text-anchor="end" fill="#475569">${fmtNum(scale.domainMax)}</text>`;
+      const isGene = scale === geneScale;
+      const matched = isGene ? counts.gene : counts.compound;
+      const sig = (isGene ? geneFiltered : compoundFiltered) ? `, ${isGene ? significantCounts.gene : significantCounts.compound} significant` : '';
+      out += `<text x="${x + 12}" y="${ry + 2}" font-size="11" font-weight="600" fill="#334155">${xmlEscape(scale.label)} (${matched} mapped${sig})</text>`;
+      if (scale.categories) {
+        scale.categories.forEach((c, ci) => {
+          const cy = ry + 8 + ci * categoryLineH;
+          out += `<rect x="${x + 12}" y="${cy}" width="18" height="10" rx="2" fill="${c.color}" stroke="#94a3b8" stroke-width="0.5"/>`;
+          out += `<text x="${x + 36}" y="${cy + 9}" font-size="10" fill="#475569">${xmlEscape(clipLabel(c.name))}</text>`;
+        });
+      } else {
+        const gid = `lg${i}`;
+        const stops = scale.legendStops
+          .map((c, si) => `<stop offset="${(si / (scale.legendStops.length - 1)) * 100}%" stop-color="${c}"/>`)
+          .join('');
+        out += `<defs><linearGradient id="${gid}" x1="0%" y1="0%" x2="100%" y2="0%">${stops}</linearGradient></defs>`;
+        out += `<rect x="${x + 12}" y="${ry + 8}" width="${barW}" height="${barH}" fill="url(#${gid})" stroke="#94a3b8" stroke-width="0.5"/>`;
+        const ends = clampedEnds(scale);
+        out += `<text x="${x + 12}" y="${ry + 34}" font-size="10" fill="#475569">${ends.low ? '≤ ' : ''}${fmtNum(scale.domainMin)}</text>`;
+        out += `<text x="${x + 12 + barW}" y="${ry + 34}" font-size="10" text-anchor="end" fill="#475569">${ends.high ? '≥ ' : ''}${fmtNum(scale.domainMax)}</text>`;
+        // An asymmetric fold-change domain still puts zero mid-bar; say so.
+        if (scale.kind === 'divergent' && scale.domainMin < 0 && scale.domainMax > 0 && -scale.domainMin !== scale.domainMax) {
+          out += `<text x="${x + 12 + barW / 2}" y="${ry + 34}" font-size="10" text-anchor="middle" fill="#475569">0</text>`;
+        }
+      }
+      const sl = slicesOf(scale);
+      if (sl) {
+        const segW = Math.min(28, barW / sl.length);
+        const sy = ry + headH(scale);
+        sl.forEach((_, si) => {
+          const sx = x + 12 + si * segW;
+          out += `<rect x="${sx}" y="${sy}" width="${segW}" height="14" fill="#f1f5f9" stroke="#64748b" stroke-width="0.75"/>`;
+          out += `<text x="${sx + segW / 2}" y="${sy + 10.5}" font-size="9" text-anchor="middle" fill="#334155">${si + 1}</text>`;
+        });
+        sl.forEach((label, si) => {
+          out += `<text x="${x + 12}" y="${sy + 26 + si * sliceLineH}" font-size="10" fill="#475569">${si + 1}. ${xmlEscape(clipLabel(label || '(unnamed)'))}</text>`;
+        });
+      }
+      ry += scaleRowH(scale);
     });
+    if (keyRows) {
+      // Key: significant encoding, measured-but-not-significant, not measured,
+      // then the clamp badges.
+      let ky = y + 14 + scalesH - 6;
+      const swatch = (fill: string, strokeColor: string, sw: number, text: string, extra = '') => {
+        const row = `<rect x="${x + 12}" y="${ky}" width="18" height="11" rx="2" fill="${fill}" stroke="${strokeColor}" stroke-width="${sw}"/>${extra}` +
+          `<text x="${x + 36}" y="${ky + 9}" font-size="10" fill="#475569">${xmlEscape(text)}</text>`;
+        ky += keyH;
+        return row;
+      };
+      if (filtered) {
+        if (config.significanceEncoding === 'border') {
+          out += swatch('#ffffff', EMPHASIS_STROKE, 2.5, 'Significant (heavy border)');
+        } else if (config.significanceEncoding === 'marker') {
+          out += swatch('#ffffff', '#334155', 1, 'Significant (marker)', markerSvg(x + 30, ky));
+        }
+        out += swatch(NOT_SIGNIFICANT_FILL, '#334155', 1, `Not significant (${cutoffText()})`);
+        out += swatch(config.glyphFillColor, '#334155', 1, 'Not measured');
+      }
+      if (clampKey) {
+        out += swatch('#ffffff', '#334155', 1, 'Beyond the color range (end color shown)',
+          clampMarkerSvg(x + 17, ky + 5.5, 'high') + clampMarkerSvg(x + 25, ky + 5.5, 'low'));
+      }
+    }
+    // Secondary channel: four sample glyphs from the low to the high end.
+    let sy = y + 14 + scalesH + keyRows * keyH + (keyRows ? 4 : 0);
+    for (const [kind, range] of secondaryBlocks) {
+      const what = `${range.column}${negLog ? ' (−log10)' : ''}`;
+      out += `<text x="${x + 12}" y="${sy + 2}" font-size="11" font-weight="600" fill="#334155">${kind} ${xmlEscape(what)} → ${SECONDARY_CHANNEL_LABELS[config.secondaryChannel].toLowerCase()}</text>`;
+      [0, 1 / 3, 2 / 3, 1].forEach((t, k) => {
+        const sx = x + 12 + k * 50, gy = sy + 12;
+        const ch = config.secondaryChannel;
+        const strokeColor = ch === 'borderColor' ? borderColorAt(t) : '#334155';
+        const sw = ch === 'borderWidth' ? widthAt(t) : ch === 'borderColor' ? 2 : 1;
+        const op = ch === 'opacity' ? opacityAt(t) : 1;
+        out += `<rect x="${sx}" y="${gy}" width="36" height="14" rx="2" fill="${config.glyphFillColor}" fill-opacity="${op}" stroke="${strokeColor}" stroke-width="${sw}"/>`;
+        if (ch === 'badge') out += badgeSvg(sx + 36, gy, t);
+      });
+      out += `<text x="${x + 12}" y="${sy + 40}" font-size="10" fill="#475569">${fmtNum(range.min)}</text>`;
+      out += `<text x="${x + 12 + 186}" y="${sy + 40}" font-size="10" text-anchor="end" fill="#475569">${fmtNum(range.max)}</text>`;
+      sy += secondaryH;
+    }
     out += `</g>`;
     return out;
   };
 
-  return { hasData: activeScales.length > 0, legendHeight, match, legendSvg };
+  const audit: Overlay['audit'] = () => {
+    const used = new Set(matches.map((m) => `${m.kind}\u001f${m.key}`));
+    const unmatched: OverlayAudit['unmatched'] = [];
+    for (const [kind, lookup] of [['gene', geneLookup], ['compound', compoundLookup]] as const) {
+      for (const { key } of lookup.entries) if (!used.has(`${kind}\u001f${key}`)) unmatched.push({ kind, key });
+    }
+    return { matches: [...matches], unmatched };
+  };
+
+  const legend: Overlay['legend'] = () => {
+    const layers: LegendLayer[] = [];
+    for (const [kind, scale, lookup] of [['gene', geneScale, geneLookup], ['compound', compoundScale, compoundLookup]] as const) {
+      if (!scale) continue;
+      const values = kind === 'gene' && impact
+        ? impactValues
+        : Array.from(matchedEntries[kind]).flatMap((e) => (lookup.sliceLabels ? e.slices : [e.value])).filter(Number.isFinite);
+      layers.push({ kind, scale, values, glyphs: counts[kind] });
+    }
+    return { layers, neutralFill: config.glyphFillColor };
+  };
+
+  return { hasData: activeScales.length > 0, legendHeight, match, matchMembers, audit, legend, stroke, fillOpacity, marker, legendSvg, defsSvg };
 };
 
+/** ` fill-opacity` for a glyph's group when the overlay fades it, else ''. */
+export const opacityAttr = (opacity: number): string => (opacity < 1 ? ` fill-opacity="${opacity}"` : '');
+
 /** Build the id + data attributes for a matched entity group (shared by renderers). */
 export const entityAttrs = (hit: EntityHit): { idAttr: string; dataAttrs: string } => ({
   idAttr: hit.fill ? ` id="glyph-${hit.kind}-${safeId(hit.key)}"` : '',
-  dataAttrs: ` data-omics-kind="${hit.kind}" data-omics-id="${xmlEscape(hit.key)}"`,
+  dataAttrs: ` data-omics-kind="${hit.kind}" data-omics-id="${xmlEscape(hit.key)}" data-omics-significant="${hit.significant}" data-omics-match="${hit.method}"` +
+    (hit.fill ? ` data-omics-fill="${hit.fill}"` : '') +
+    (hit.value !== undefined ? ` data-omics-value="${hit.value}"` : '') +
+    (hit.slices ? ` data-omics-slices="${hit.slices.map(fmtNum).join('|')}"` : '') +
+    (hit.categories ? ` data-omics-category="${xmlEscape(hit.categories.join('|'))}"` : '') +
+    (hit.rows ? ` data-omics-rows="${hit.rows}" data-omics-aggregation="${xmlEscape(hit.aggregation ?? '')}"` : '') +
+    (hit.clamped ? ` data-omics-clamped="${hit.clamped}"` : '') +
+    (hit.impact ? ` data-omics-impact="${fmtNum(hit.impact.pf)}|${fmtNum(hit.impact.acc)}"` : '') +
+    (hit.members
+      ? ` data-omics-members="${xmlEscape(hit.members.map((m) => `${m.key}=${m.category ?? fmtNum(m.value)}`).join('|'))}" data-omics-member-rule="${hit.memberAggregation}"`
+      : ''),
 });
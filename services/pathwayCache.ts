@@ -0,0 +1,66 @@
+/**
+ * Session cache of fetched pathway sources and their parsed maps, so that
+ * redrawing after an appearance, threshold or data change skips the CORS-proxy
+ * round trip and the XML parse. Entries live for the page's lifetime, one per
+ * pathway (database + id; the demo; the current upload); `reload` refetches.
+ */
+
+import { type PathwaySource, type SbgnRequest, type KeggImage, getPathwaySource, fetchKeggImage } from './sbgnSource';
+import { type PathwayModel, parsePathwayMaps } from './pathwayModel';
+
+export interface LoadedPathway {
+  source: PathwaySource;
+  /** One model per map in the source; a multi-map SBGN-ML file has several. */
+  maps: PathwayModel[];
+}
+
+const pathwayPromises = new Map<string, Promise<LoadedPathway>>();
+const imagePromises = new Map<string, Promise<KeggImage>>();
+
+// FNV-1a, enough to tell one uploaded file from the next.
+const hashText = (text: string): string => {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) h = Math.imul(h ^ text.charCodeAt(i), 0x01000193);
+  return (h >>> 0).toString(36);
+};
+
+/** Which pathway a request draws: the demo, the uploaded file's contents, or a database entry. */
+export const pathwayKey = ({ config, customSbgnFile, useDemo }: SbgnRequest): string => {
+  if (useDemo) return 'demo';
+  if (config.pathwayDatabase === 'Custom SBGN File') return `custom:${hashText(customSbgnFile ?? '')}`;
+  return `${config.pathwayDatabase}:${config.pathwayId}`;
+};
+
+// A failed load is dropped, so the next attempt retries instead of replaying the error.
+const remember = <T>(cache: Map<string, Promise<T>>, key: string, load: () => Promise<T>): Promise<T> => {
+  let p = cache.get(key);
+  if (!p) {
+    const loading = load();
+    cache.set(key, loading);
+    loading.catch(() => {
+      if (cache.get(key) === loading) cache.delete(key);
+    });
+    p = loading;
+  }
+  return p;
+};
+
+/** The request's pathway source and model, fetched and parsed once per session unless `reload`. */
+export const loadPathway = (request: SbgnRequest, reload = false): Promise<LoadedPathway> => {
+  const key = pathwayKey(request);
+  if (reload) pathwayPromises.delete(key);
+  // Only the latest upload is worth keeping.
+  if (key.startsWith('custom:')) {
+    for (const k of pathwayPromises.keys()) if (k.startsWith('custom:') && k !== key) pathwayPromises.delete(k);
+  }
+  return remember(pathwayPromises, key, async () => {
+    const source = await getPathwaySource(request);
+    return { source, maps: parsePathwayMaps(source) };
+  });
+};
+
+/** KEGG's pathway PNG for image-overlay mode, fetched once per session unless `reload`. */
+export const loadKeggImage = (pathwayId: string, reload = false): Promise<KeggImage> => {
+  if (reload) imagePromises.delete(pathwayId);
+  return remember(imagePromises, pathwayId, () => fetchKeggImage(pathwayId));
+};
@@ -0,0 +1,142 @@
+/**
+ * Format-neutral pathway graph: what the SBGN-ML and KGML parsers produce and
+ * what the renderers, impact analysis and other features read, so a map is
+ * parsed once and never re-walked as XML. Plain data throughout (no DOM
+ * nodes), so a model can be cached or posted to a worker as is.
+ *
+ * Coordinates are the source's own: SBGN-ML bboxes as given, KGML's centered
+ * boxes converted to a top-left corner.
+ */
+
+import { type PathwaySource, type PathwayFormat } from './sbgnSource';
+import { parseSbgnMaps, isSbgnGene } from './sbgnParser';
+import { parseKgml, isGeneBox } from './kgmlParser';
+
+export interface Bbox { x: number; y: number; w: number; h: number; }
+
+export interface Point { x: number; y: number; }
+
+/** The three SBGN languages, as SBGN-ML's `<map language>` names them. */
+export type SbgnLanguage = 'process description' | 'activity flow' | 'entity relationship';
+
+/**
+ * A publisher's styling from SBGN-ML's <renderInformation> extension (as
+ * Newt and SBGNViz write it), color references resolved to CSS colors.
+ */
+export interface RenderStyle {
+  fill?: string;
+  stroke?: string;
+  strokeWidth?: number;
+  fontSize?: number;
+  fontFamily?: string;
+  fontWeight?: string;
+  fontStyle?: string;
+  fontColor?: string;
+}
+
+export interface PathwayNode {
+  /** Glyph / entry id in the source file. */
+  id: string;
+  /** SBGN glyph class ('macromolecule', 'process', ...) or KGML entry type ('gene', 'compound', ...), lower-cased. */
+  cls: string;
+  /** Top-left corner and size; null when the source gives no position. */
+  bbox: Bbox | null;
+  /** Text drawn on the node. */
+  label: string;
+  /**
+   * The source's full name for the node, matched against uploaded ids: the
+   * SBGN label, or KGML's graphics name with its comma-separated synonyms.
+   */
+  name: string;
+  /** Database identifiers: SBGN `bqbiol:is` annotations, KGML entry names without their db prefix. */
+  ids: string[];
+  /** SBGN `compartmentRef`, or null. */
+  compartment: string | null;
+  /** Node this one is nested in (an SBGN glyph's enclosing glyph), or null. */
+  parent: string | null;
+  /** Nested nodes: complex members and state variables, KGML group components. */
+  children: string[];
+  /** SBGN clone marker: present (its label, often '') when the glyph is drawn more than once. */
+  clone?: string;
+  /** SBGN `orientation` of tags, terminals and processes ('left', 'right', 'up', 'down', 'horizontal', 'vertical'). */
+  orientation?: string;
+  /** SBGN submap glyphs: the `mapId` of the map in the same file that the submap stands for. */
+  submap?: string;
+  /** SBGN ports, which arcs may attach to instead of the node itself. */
+  ports?: (Point & { id: string })[];
+  /**
+   * SBGN AF unit of information: the entity type whose shape it takes
+   * ('macromolecule', 'simple chemical', ...). An activity node carries its
+   * unit's type too.
+   */
+  entity?: string;
+  /** KGML graphics type: 'rectangle', 'circle', 'roundrectangle' or 'line'. */
+  shape?: string;
+  /** KGML 'line' graphics: the polyline's vertices. */
+  points?: Point[];
+  /** SBGN render information for this glyph, when the file has some. */
+  style?: RenderStyle;
+}
+
+export interface PathwayEdge {
+  id: string;
+  /**
+   * SBGN arc class ('consumption', 'inhibition', ...); for KGML 'relation', or
+   * a reaction's 'substrate' (substrate → enzyme), 'product' (enzyme → product)
+   * or 'conversion' (substrate → product when no enzyme entry is drawn).
+   */
+  cls: string;
+  /** Node ids; an arc on a port names the port's node. Unknown references are kept as written. */
+  source: string;
+  target: string;
+  /** SBGN port ids, when the arc attaches to a port of its source / target. */
+  sourcePort?: string;
+  targetPort?: string;
+  /** Start, bends and end; empty when the edge runs center to center (KGML) or the arc has no geometry. */
+  points: Point[];
+  /** KGML relation subtypes ('activation', 'phosphorylation', ...). */
+  subtypes?: string[];
+  /** SBGN render information for this arc, when the file has some. */
+  style?: RenderStyle;
+}
+
+export interface PathwayModel {
+  format: PathwayFormat;
+  /** SBGN maps only: which SBGN language the map is drawn in. */
+  language?: SbgnLanguage;
+  /** SBGN maps only: the `<map>` this model draws, by its id (`map-N` when it has none). */
+  mapId?: string;
+  /** SBGN map name or KGML pathway title. */
+  title: string;
+  /** SBGN render information's background color, when the file sets one. */
+  background?: string;
+  /** Nodes in document order (nested glyphs after their parent). */
+  nodes: PathwayNode[];
+  edges: PathwayEdge[];
+}
+
+/** A map of a multi-map SBGN-ML file, as the map picker lists it. */
+export interface SbgnMapRef {
+  id: string;
+  title: string;
+}
+
+/**
+ * Parse fetched or uploaded markup into one model per map: KGML and most
+ * SBGN-ML files hold one, SBGN-ML 0.3 may hold several. Throws a
+ * user-readable error when there is no usable map.
+ */
+export const parsePathwayMaps = (source: PathwaySource): PathwayModel[] =>
+  source.format === 'kgml' ? [parseKgml(source.content)] : parseSbgnMaps(source.content);
+
+/** The maps a picker offers, titled by name, else id. */
+export const sbgnMapRefs = (maps: PathwayModel[]): SbgnMapRef[] =>
+  maps.flatMap((m) => (m.mapId ? [{ id: m.mapId, title: m.title || m.mapId }] : []));
+
+/** Nodes by id, for following edges and parent / child links. */
+export const nodeIndex = (model: PathwayModel): Map<string, PathwayNode> =>
+  new Map(model.nodes.map((n) => [n.id, n]));
+
+/** Nodes that carry gene data: SBGN macromolecules, nucleic acids, complexes, unspecified entities and AF activities; KEGG gene boxes. */
+export const isGeneNode = (model: PathwayModel, node: PathwayNode): boolean =>
+  model.format === 'kgml' ? isGeneBox(node) : isSbgnGene(node);
@@ -1,13 +1,25 @@
 /**
  * Top-level, AI-free pathway generation: fetch the pathway source (SBGN-ML or
- * KGML), parse the uploaded omics data, and render a faithful SVG with the data
- * overlaid. Replaces the former geminiService.ts.
+ * KGML) and parse it into a PathwayModel (both kept for the session by
+ * ./pathwayCache), parse the uploaded omics data, and render a faithful SVG
+ * with the data overlaid. Replaces the former geminiService.ts.
  */
 
-import { type VisualizationConfig } from '../types';
-import { parseDataToMap } from './dataProcessor';
-import { getPathwaySource, fetchKeggImage, type KeggImage } from './sbgnSource';
-import { type DataMap } from './overlay';
+import { type VisualizationConfig, type ColumnSpec } from '../types';
+import { collapseDataToMap } from './dataProcessor';
+import { parseTable, type ParsedTable } from './tableParser';
+import { type TableKind, specFits, resolveColumnSpec } from './columnMapping';
+import { type KeggImage } from './sbgnSource';
+import { loadPathway, loadKeggImage } from './pathwayCache';
+import { type DataMap, type OverlayColumns, type OverlayAudit, type LegendModel, type SynonymLookup } from './overlay';
+import { type MappingReport, buildMappingReport } from './mappingReport';
+import { type ImpactReport } from './impact';
+import { type PathwayModel, type SbgnMapRef, sbgnMapRefs } from './pathwayModel';
+import { type SbgnExport, type GlyphPaint } from './sbgnExport';
+import {
+  type ConversionReport, asGeneIdType, targetGeneIdType, loadGeneCrosswalks, convertTableIds, buildGeneSynonyms, GENE_ID_NAMESPACES,
+  asCompoundIdType, loadCompoundCrosswalk, buildCompoundSynonyms, buildUserSynonyms, COMPOUND_ID_NAMESPACES,
+} from './idCrosswalk';
 import { renderSbgnToSvg } from './sbgnRenderer';
 import { renderKgmlToSvg } from './kgmlRenderer';
 
@@ -15,6 +27,22 @@ export interface PathwayResult {
   svg: string;
   geneMap: DataMap;
   compoundMap: DataMap;
+  /** The column specs the overlay actually used (for tooltips). */
+  columns: OverlayColumns;
+  /** Gene id conversion outcome, or null when the ids were used as uploaded. */
+  idConversion: ConversionReport | null;
+  /** How each glyph was matched, and the uploaded ids that matched nothing. */
+  mapping: MappingReport;
+  /** Scales and matched values behind the map, for the viewer's interactive legend. */
+  legend: LegendModel;
+  /** Impact overlay mode: the pathway's perturbation score and per-gene impacts; null otherwise. */
+  impact: ImpactReport | null;
+  /** The parsed pathway the map was drawn from. */
+  model: PathwayModel;
+  /** Every map in the source file (for the map picker); one entry for most files, none for KEGG. */
+  maps: SbgnMapRef[];
+  /** SBGN maps only: the source file and how its glyphs were painted, for "Download SBGN-ML"; null for KEGG. */
+  sbgnExport: SbgnExport | null;
 }
 
 export interface GenerateArgs {
@@ -22,30 +50,111 @@ export interface GenerateArgs {
   compoundData: string | null;
   config: VisualizationConfig;
   customSbgnFile: string | null;
+  /** Optional user synonym table (see buildUserSynonyms). */
+  synonymFile?: string | null;
   useDemo?: boolean;
+  /** Column choices from the mapping panel; ignored if they don't fit the table. */
+  geneColumns?: ColumnSpec | null;
+  compoundColumns?: ColumnSpec | null;
+  /** Refetch the pathway (and KEGG image) instead of reusing this session's copy. */
+  reload?: boolean;
+  /** Multi-map SBGN-ML: which map to draw (see PathwayModel.mapId); the first when absent or unknown. */
+  mapId?: string | null;
 }
 
+// The demo / OSDR buttons render straight after swapping in a new table, before
+// the Sidebar has mapped its columns, so a stale or missing spec is re-resolved.
+const columnsFor = (kind: TableKind, table: ParsedTable, chosen: ColumnSpec | null | undefined, foldChange: boolean): ColumnSpec => {
+  const { headers, rows } = table;
+  return specFits(chosen, headers) ? chosen : resolveColumnSpec(kind, headers, rows, foldChange);
+};
+
+// Rewrite gene ids to what the pathway labels its glyphs with; skipped when the
+// uploaded type already is that, or isn't one the crosswalk tables know. Also
+// returns the synonyms of the resulting ids, for matching glyph annotations, and
+// the namespaces of the ids (rows without a conversion keep their uploaded one).
+const convertGeneIds = async (
+  table: ParsedTable,
+  spec: ColumnSpec,
+  config: VisualizationConfig,
+  format: 'sbgn' | 'kgml'
+): Promise<{ table: { headers: string[]; rows: string[][] }; report: ConversionReport | null; synonyms?: SynonymLookup; namespaces: string[] }> => {
+  const from = asGeneIdType(config.geneIdType);
+  const to = targetGeneIdType(format);
+  const namespaces = from ? [GENE_ID_NAMESPACES[from]] : [];
+  const crosswalks = from && table.rows.length ? await loadGeneCrosswalks(config) : [];
+  if (!from || !crosswalks.length) return { table, report: null, namespaces };
+  if (from === to) return { table, report: null, synonyms: buildGeneSynonyms(crosswalks, from), namespaces };
+  const { report, ...converted } = convertTableIds(table, spec.idColumn, crosswalks, from, to);
+  return { table: converted, report, synonyms: buildGeneSynonyms(crosswalks, to), namespaces: [GENE_ID_NAMESPACES[to], ...namespaces] };
+};
+
+// Compounds keep their uploaded ids; the crosswalk only adds label synonyms.
+const compoundSynonymsFor = async (config: VisualizationConfig): Promise<SynonymLookup | undefined> => {
+  const from = asCompoundIdType(config.compoundIdType);
+  const table = from ? await loadCompoundCrosswalk() : null;
+  return table && from ? buildCompoundSynonyms(table, from) : undefined;
+};
+
+// Names have no namespace: uploaded names only match annotations via the crosswalk.
+const compoundNamespaces = (config: VisualizationConfig): string[] => {
+  const ns = COMPOUND_ID_NAMESPACES[asCompoundIdType(config.compoundIdType) ?? 'name'];
+  return ns ? [ns] : [];
+};
+
 export async function generatePathwayMap(args: GenerateArgs): Promise<PathwayResult> {
   const { geneData, compoundData, config, customSbgnFile, useDemo } = args;
 
-  const geneMap: DataMap = parseDataToMap(geneData);
-  const compoundMap: DataMap = compoundData ? parseDataToMap(compoundData) : new Map();
+  const geneTable = parseTable(geneData);
+  const compoundTable = compoundData ? parseTable(compoundData) : null;
+  const geneSpec = columnsFor('gene', geneTable, args.geneColumns, config.dataType === 'deseq2');
+  const compoundSpec = compoundTable
+    ? columnsFor('compound', compoundTable, args.compoundColumns, config.compoundDataType === 'fold_change')
+    : undefined;
+
+  const { source, maps } = await loadPathway({ config, customSbgnFile, useDemo }, args.reload);
+  const model = maps.find((m) => m.mapId === args.mapId) ?? maps[0];
 
-  const source = await getPathwaySource({ config, customSbgnFile, useDemo });
-  const renderOpts = { geneData: geneMap, compoundData: compoundMap, config };
+  const converted = await convertGeneIds(geneTable, geneSpec, config, model.format);
+  const mode = config.duplicateAggregation;
+  const genes = collapseDataToMap(converted.table, geneSpec.idColumn, { spec: geneSpec, mode });
+  const compounds = compoundTable
+    ? collapseDataToMap(compoundTable, compoundSpec.idColumn, { spec: compoundSpec, mode })
+    : { dataMap: new Map(), rowRecords: new Map() };
+  const geneMap: DataMap = genes.dataMap;
+  const compoundMap: DataMap = compounds.dataMap;
+  const idConversion = converted.report;
+  const compoundSynonyms = compoundTable ? await compoundSynonymsFor(config) : undefined;
+  const columns: OverlayColumns = { gene: geneSpec, compound: compoundSpec };
+  const rowRecords = { gene: genes.rowRecords, compound: compounds.rowRecords };
+  let audit: OverlayAudit = { matches: [], unmatched: [] };
+  let legend: LegendModel = { layers: [], neutralFill: config.glyphFillColor };
+  let impact: ImpactReport | null = null;
+  let sbgnExport: SbgnExport | null = null;
+  const renderOpts = {
+    geneData: geneMap, compoundData: compoundMap, config, columns, rowRecords, geneSynonyms: converted.synonyms, compoundSynonyms,
+    idNamespaces: { gene: converted.namespaces, compound: compoundNamespaces(config) },
+    userSynonyms: args.synonymFile ? buildUserSynonyms(args.synonymFile) : undefined,
+    onAudit: (a: OverlayAudit) => { audit = a; },
+    onLegend: (l: LegendModel) => { legend = l; },
+    onImpact: (r: ImpactReport) => { impact = r; },
+    onPaint: (paints: GlyphPaint[]) => { sbgnExport = { source: source.content, mapId: model.mapId ?? null, paints, columns }; },
+  };
+  const result = (svg: string): PathwayResult =>
+    ({ svg, geneMap, compoundMap, columns, idConversion, mapping: buildMappingReport(audit, idConversion), legend, impact, model, maps: sbgnMapRefs(maps), sbgnExport });
 
-  if (source.format === 'kgml') {
+  if (model.format === 'kgml') {
     let backgroundImage: KeggImage | undefined;
     // Image-overlay mode: fetch KEGG's PNG; fall back to vector if unavailable.
     if (!useDemo && config.pathwayDatabase === 'KEGG' && config.keggRenderMode === 'image') {
       try {
-        backgroundImage = await fetchKeggImage(config.pathwayId);
+        backgroundImage = await loadKeggImage(config.pathwayId, args.reload);
       } catch (e) {
         console.warn('KEGG image overlay unavailable, falling back to vector KGML rendering.', e);
       }
     }
-    return { svg: renderKgmlToSvg(source.content, { ...renderOpts, backgroundImage }), geneMap, compoundMap };
+    return result(renderKgmlToSvg(model, { ...renderOpts, backgroundImage }));
   }
 
-  return { svg: renderSbgnToSvg(source.content, renderOpts), geneMap, compoundMap };
+  return result(renderSbgnToSvg(model, renderOpts));
 }
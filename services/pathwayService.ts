@@ -1,8 +1,10 @@
 
 import { type Species, type Pathway, type PathwayDatabase } from '../types';
-import { corsFetch } from './proxy';
+import { corsFetch, corsFetchText } from './proxy';
+import { type GeneSet } from './enrichment';
 
 const REACTOME_API_BASE = 'https://reactome.org/ContentService';
+const REACTOME_ANALYSIS_BASE = 'https://reactome.org/AnalysisService';
 const PLANT_REACTOME_API_BASE = 'https://plantreactome.gramene.org/ContentService';
 // KEGG, PANTHER, SMPDB and MetaCyc lack CORS headers, so corsFetch() routes them
 // through a chain of public CORS proxies (with direct-first fallback).
@@ -520,3 +522,117 @@ export async function mapGenesToPathwaysKegg(speciesId: string, geneIds: string[
         return new Set(); // Return empty set on error
     }
 }
+
+
+// Per-organism KEGG gene index (symbol / entry number → KEGG gene ids) and
+// gene → pathway links; both are whole-genome downloads, so keep them.
+interface KeggGeneIndex {
+    byName: Map<string, string[]>;
+    pathwaysOf: Map<string, string[]>;
+}
+const _keggGeneIndexCache = new Map<string, KeggGeneIndex>();
+
+async function loadKeggGeneIndex(org: string): Promise<KeggGeneIndex> {
+    const cached = _keggGeneIndexCache.get(org);
+    if (cached) return cached;
+    const isTsv = (t: string) => t.startsWith(`${org}:`);
+    const [listText, linkText] = await Promise.all([
+        corsFetchText(`${KEGG_API_BASE}/list/${org}`, isTsv),
+        corsFetchText(`${KEGG_API_BASE}/link/pathway/${org}`, isTsv),
+    ]);
+    const byName = new Map<string, string[]>();
+    const add = (name: string, keggId: string) => {
+        const key = name.trim().toUpperCase();
+        if (!key) return;
+        const ids = byName.get(key);
+        if (!ids) byName.set(key, [keggId]);
+        else if (!ids.includes(keggId)) ids.push(keggId);
+    };
+    // "hsa:7157<TAB>CDS<TAB>17:complement(...)<TAB>TP53, BCC7, LFS1; tumor protein p53"
+    // (older listings omit the two middle columns).
+    listText.split('\n').forEach(line => {
+        const cols = line.split('\t');
+        const keggId = cols[0];
+        if (!keggId || !keggId.includes(':')) return;
+        add(keggId, keggId);
+        add(keggId.slice(keggId.indexOf(':') + 1), keggId);
+        const names = cols[cols.length - 1].split(';')[0];
+        if (cols.length > 1) names.split(',').forEach(n => add(n, keggId));
+    });
+    const pathwaysOf = new Map<string, string[]>();
+    linkText.split('\n').forEach(line => {
+        const [keggId, path] = line.split('\t');
+        if (!keggId || !path) return;
+        const list = pathwaysOf.get(keggId) ?? [];
+        list.push(path.replace('path:', ''));
+        pathwaysOf.set(keggId, list);
+    });
+    const index = { byName, pathwaysOf };
+    _keggGeneIndexCache.set(org, index);
+    return index;
+}
+
+async function fetchKeggGeneSets(org: string, pathways: Pathway[], geneIds: string[]): Promise<GeneSet[]> {
+    const { byName, pathwaysOf } = await loadKeggGeneIndex(org);
+    const members = new Map<string, Set<string>>();
+    geneIds.forEach(id => {
+        for (const keggId of byName.get(id.trim().toUpperCase()) ?? []) {
+            for (const path of pathwaysOf.get(keggId) ?? []) {
+                const set = members.get(path) ?? new Set<string>();
+                set.add(id);
+                members.set(path, set);
+            }
+        }
+    });
+    return pathways.map(p => ({ id: p.id, name: p.displayName, members: members.get(p.id) ?? new Set() }));
+}
+
+/**
+ * Reactome's analysis service maps the ids once (any identifier type it knows),
+ * then returns which submitted ids it found in each pathway.
+ */
+async function fetchReactomeGeneSets(speciesId: string, pathways: Pathway[], geneIds: string[]): Promise<GeneSet[]> {
+    const analysis = await fetch(
+        `${REACTOME_ANALYSIS_BASE}/identifiers/?interactors=false&species=${encodeURIComponent(speciesId)}&pageSize=-1&page=1&includeDisease=true`,
+        { method: 'POST', headers: { 'Content-Type': 'text/plain', Accept: 'application/json' }, body: geneIds.join('\n') }
+    );
+    if (!analysis.ok) throw new Error(`Reactome analysis service returned status ${analysis.status}`);
+    const result = await analysis.json();
+    const token: string | undefined = result?.summary?.token;
+    const listed = new Set(pathways.map(p => p.id));
+    const found: string[] = (result?.pathways ?? [])
+        .filter((p: any) => listed.has(p?.stId) && p?.entities?.found > 0)
+        .map((p: any) => p.stId as string);
+    // The service may echo ids in its own case; report them as uploaded.
+    const uploaded = new Map(geneIds.map(g => [g.toUpperCase(), g]));
+    const members = new Map<string, Set<string>>();
+    if (token && found.length) {
+        const res = await fetch(`${REACTOME_ANALYSIS_BASE}/token/${encodeURIComponent(token)}/found/all?resource=TOTAL`, {
+            method: 'POST', headers: { 'Content-Type': 'text/plain', Accept: 'application/json' }, body: found.join(','),
+        });
+        if (!res.ok) throw new Error(`Reactome analysis service returned status ${res.status}`);
+        const perPathway: any[] = await res.json();
+        perPathway.forEach(entry => {
+            const ids = new Set<string>((entry?.entities ?? []).map((e: any) => uploaded.get(String(e.id).toUpperCase()) ?? String(e.id)));
+            if (entry?.pathway) members.set(entry.pathway, ids);
+        });
+    }
+    return pathways.map(p => ({ id: p.id, name: p.displayName, members: members.get(p.id) ?? new Set() }));
+}
+
+/**
+ * Gene sets for over-representation analysis and rank-based scoring: for every
+ * listed pathway of the species, which of `geneIds` it contains (Reactome and
+ * KEGG only).
+ */
+export async function fetchGeneSets(database: PathwayDatabase, speciesId: string, pathways: Pathway[], geneIds: string[]): Promise<GeneSet[]> {
+    if (!speciesId || geneIds.length === 0) return [];
+    try {
+        if (database === 'Reactome') return await fetchReactomeGeneSets(speciesId, pathways, geneIds);
+        if (database === 'KEGG') return await fetchKeggGeneSets(speciesId, pathways, geneIds);
+    } catch (error) {
+        console.error(`${database} gene set fetch error:`, error);
+        throw new Error(`Failed to fetch ${database} gene sets. Check network connection or API status.`);
+    }
+    throw new Error(`Enrichment needs Reactome or KEGG gene sets; ${database} has none here.`);
+}
@@ -0,0 +1,35 @@
+/**
+ * Bundled SBGN-ML example maps (public/data/sbgn-examples) for each language,
+ * opened like an uploaded custom SBGN file: the official PD reference map,
+ * libSBGN PD validation maps with ports, a hand-built PD map with the rest of
+ * the PD marks, and hand-built AF and ER maps over the sample genes. Each entry
+ * says where its file came from; tools/check_sbgn_examples.ts renders them all.
+ */
+
+import { type SbgnLanguage } from './pathwayModel';
+
+// App base path (e.g. "/SBGN-Pathway-viewer/app/"). Vite injects import.meta.env.BASE_URL.
+const BASE_URL: string = ((import.meta as any)?.env?.BASE_URL as string) || './';
+
+export interface SbgnExample {
+  file: string;
+  language: SbgnLanguage;
+  title: string;
+  /** Provenance and license of the file. */
+  source: string;
+}
+
+/** Loads the bundled list. Served from the app's own origin (no proxy). */
+export async function fetchSbgnExamples(): Promise<SbgnExample[]> {
+  const res = await fetch(`${BASE_URL}data/sbgn-examples/index.json`);
+  if (!res.ok) throw new Error('Could not load the SBGN example list.');
+  const data = await res.json();
+  return Array.isArray(data.examples) ? data.examples : [];
+}
+
+/** Fetches one example's SBGN-ML markup. */
+export async function loadSbgnExample(example: SbgnExample): Promise<string> {
+  const res = await fetch(`${BASE_URL}data/sbgn-examples/${example.file}`);
+  if (!res.ok) throw new Error(`Could not load ${example.file}.`);
+  return res.text();
+}
@@ -0,0 +1,236 @@
+/**
+ * "Download SBGN-ML": the loaded SBGN-ML file with the overlay written back in,
+ * so the colored map opens in Newt, SBGNViz or any editor that reads the
+ * render extension.
+ *
+ * Colors go into the map's <renderInformation> (SBGN-ML 0.3 / SBML Render), one
+ * style per distinct fill and outline, keeping the fonts of any style the glyph
+ * had. Values go onto each glyph twice: as a readable <notes> line, and as an
+ * <extension> element in this app's namespace for tools that want the numbers.
+ * Exporting an exported map again replaces the earlier overlay. In a multi-map
+ * file only the drawn map is touched.
+ */
+
+import { type EntityHit, type OverlayColumns, fmtNum } from './overlay';
+import { sbgnMapElements } from './sbgnParser';
+
+/** How the renderer painted one glyph that matched data. */
+export interface GlyphPaint {
+  /** Glyph id in the source file. */
+  id: string;
+  /** Solid fill, or null for slice / stripe gradients (the values are still written). */
+  fill: string | null;
+  stroke: string;
+  strokeWidth: number;
+  hit: EntityHit;
+}
+
+/** What the export needs from a render: the source markup and how its glyphs were painted. */
+export interface SbgnExport {
+  source: string;
+  /** The drawn map (PathwayModel.mapId); null for the first. */
+  mapId: string | null;
+  paints: GlyphPaint[];
+  columns: OverlayColumns;
+}
+
+const RENDER_NS = 'http://www.sbml.org/sbml/level3/version1/render/version1';
+const XHTML_NS = 'http://www.w3.org/1999/xhtml';
+const OVERLAY_NS = 'urn:sbgn-pathway-visualizer:overlay';
+const XMLNS_NS = 'http://www.w3.org/2000/xmlns/';
+// Ids and classes this export writes, so a second export can find and replace them.
+const PREFIX = 'omics_';
+const NOTE_CLASS = 'omics-overlay';
+// Style attributes the overlay sets.
+const OVERLAY_ATTRS = new Set(['fill', 'stroke', 'strokeWidth']);
+
+const childNamed = (el: Element, localName: string): Element | null =>
+  Array.from(el.children).find((c) => c.localName === localName) ?? null;
+
+// SBGNBase puts <notes> then <extension> before everything else.
+const ensureChild = (el: Element, localName: string): Element => {
+  const found = childNamed(el, localName);
+  if (found) return found;
+  const created = el.ownerDocument.createElementNS(el.namespaceURI, localName);
+  const notes = localName === 'extension' ? childNamed(el, 'notes') : null;
+  el.insertBefore(created, notes ? notes.nextSibling : el.firstChild);
+  return created;
+};
+
+/** One readable line for a glyph's notes, e.g. "Gene TP53: log2FoldChange 2.1; significant." */
+export const describeHit = (hit: EntityHit, columns: OverlayColumns): string => {
+  const spec = columns[hit.kind];
+  const valueNames = spec?.valueColumns ?? [];
+  let values: string;
+  if (hit.categories?.length) values = hit.categories.join(' / ');
+  else if (hit.slices?.length) values = hit.slices.map((v, i) => `${valueNames[i] ?? `#${i + 1}`} ${fmtNum(v)}`).join(', ');
+  else if (hit.members?.length) values = hit.members.map((m) => `${m.key} ${m.category ?? fmtNum(m.value)}`).join(', ');
+  else values = `${valueNames.join(' + ') || 'value'} ${hit.value !== undefined ? fmtNum(hit.value) : 'n/a'}`;
+  const impact = hit.impact
+    ? `; perturbation factor ${fmtNum(hit.impact.pf)} (${hit.impact.acc >= 0 ? '+' : ''}${fmtNum(hit.impact.acc)} from upstream)`
+    : '';
+  return `${hit.kind === 'gene' ? 'Gene' : 'Compound'} ${hit.key}: ${values}; ${hit.significant ? 'significant' : 'not significant'}${impact}.`;
+};
+
+// An earlier export's notes and data, on every glyph (the data may have changed since).
+const clearAnnotations = (glyph: Element): void => {
+  for (const holder of Array.from(glyph.children)) {
+    const ours = holder.localName === 'notes'
+      ? Array.from(holder.children).filter((c) => c.getAttribute('class') === NOTE_CLASS)
+      : holder.localName === 'extension'
+        ? Array.from(holder.children).filter((c) => c.namespaceURI === OVERLAY_NS)
+        : [];
+    if (!ours.length) continue;
+    ours.forEach((c) => c.remove());
+    if (!holder.children.length) holder.remove();
+  }
+};
+
+const annotateGlyph = (el: Element, paint: GlyphPaint, columns: OverlayColumns): void => {
+  const doc = el.ownerDocument;
+  const { hit } = paint;
+
+  const notes = ensureChild(el, 'notes');
+  const p = doc.createElementNS(XHTML_NS, 'p');
+  p.setAttribute('class', NOTE_CLASS);
+  p.textContent = describeHit(hit, columns);
+  notes.appendChild(p);
+
+  const extension = ensureChild(el, 'extension');
+  const data = doc.createElementNS(OVERLAY_NS, 'omics:data');
+  data.setAttributeNS(XMLNS_NS, 'xmlns:omics', OVERLAY_NS);
+  data.setAttribute('kind', hit.kind);
+  data.setAttribute('id', hit.key);
+  if (hit.value !== undefined) data.setAttribute('value', String(hit.value));
+  if (hit.slices?.length) data.setAttribute('slices', hit.slices.join(' '));
+  if (hit.categories?.length) data.setAttribute('categories', hit.categories.join('|'));
+  data.setAttribute('significant', String(hit.significant));
+  data.setAttribute('match', hit.method);
+  if (paint.fill) data.setAttribute('fill', paint.fill);
+  if (hit.impact) {
+    data.setAttribute('perturbationFactor', String(hit.impact.pf));
+    data.setAttribute('accumulated', String(hit.impact.acc));
+  }
+  for (const m of hit.members ?? []) {
+    const member = doc.createElementNS(OVERLAY_NS, 'omics:member');
+    member.setAttribute('id', m.key);
+    // Categorical members by category label, not the index behind their value.
+    member.setAttribute('value', m.category ?? String(m.value));
+    data.appendChild(member);
+  }
+  extension.appendChild(data);
+};
+
+// The map's <renderInformation>, created with its color and style lists if missing.
+const renderInformation = (map: Element): { colors: Element; styles: Element } => {
+  const doc = map.ownerDocument;
+  const extension = ensureChild(map, 'extension');
+  let info = Array.from(extension.children).find((c) => c.localName === 'renderInformation') ?? null;
+  if (!info) {
+    info = doc.createElementNS(RENDER_NS, 'renderInformation');
+    info.setAttribute('id', 'renderInformation');
+    info.setAttribute('programName', 'sbgn-pathway-visualizer');
+    extension.appendChild(info);
+  }
+  const ns = info.namespaceURI || RENDER_NS;
+  let colors = childNamed(info, 'listOfColorDefinitions');
+  if (!colors) {
+    colors = doc.createElementNS(ns, 'listOfColorDefinitions');
+    info.insertBefore(colors, info.firstChild);
+  }
+  let styles = childNamed(info, 'listOfStyles');
+  if (!styles) {
+    styles = doc.createElementNS(ns, 'listOfStyles');
+    info.appendChild(styles);
+  }
+  return { colors, styles };
+};
+
+// <colorDefinition value> takes #RRGGBB / #RRGGBBAA only; painted colors may be
+// CSS forms (rgba() from the parser's alpha colors, #RGB from the settings).
+const renderHex = (value: string): string => {
+  const byte = (n: number) => Math.round(Math.min(255, Math.max(0, n))).toString(16).padStart(2, '0');
+  const rgba = /^rgba?\(\s*([\d.]+)\s*,\s*([\d.]+)\s*,\s*([\d.]+)\s*(?:,\s*([\d.]+)\s*)?\)$/i.exec(value);
+  if (rgba) return `#${byte(+rgba[1])}${byte(+rgba[2])}${byte(+rgba[3])}${rgba[4] === undefined ? '' : byte(+rgba[4] * 255)}`;
+  return value.replace(/^#([0-9a-f])([0-9a-f])([0-9a-f])$/i, '#$1$1$2$2$3$3');
+};
+
+const writeStyles = (map: Element, paints: GlyphPaint[]): void => {
+  const doc = map.ownerDocument;
+  const { colors, styles } = renderInformation(map);
+  const ns = styles.namespaceURI || RENDER_NS;
+  const ours = (el: Element) => (el.getAttribute('id') || '').startsWith(PREFIX);
+
+  // A painted glyph leaves its old style, taking that style's other attributes
+  // (fonts, say) along; from an earlier export's style, only those.
+  const painted = new Set(paints.map((p) => p.id));
+  const inherited = new Map<string, [string, string][]>();
+  for (const style of Array.from(styles.children)) {
+    const ids = (style.getAttribute('idList') || '').split(/\s+/).filter(Boolean);
+    if (!ids.some((id) => painted.has(id))) continue;
+    const g = childNamed(style, 'g');
+    const attrs = (g ? Array.from(g.attributes, (a): [string, string] => [a.name, a.value]) : [])
+      .filter(([name]) => !ours(style) || !OVERLAY_ATTRS.has(name));
+    ids.filter((id) => painted.has(id) && !inherited.has(id)).forEach((id) => inherited.set(id, attrs));
+    const kept = ids.filter((id) => !painted.has(id));
+    if (kept.length) style.setAttribute('idList', kept.join(' '));
+    else style.remove();
+  }
+  [...Array.from(colors.children), ...Array.from(styles.children)].filter(ours).forEach((el) => el.remove());
+
+  const colorIds = new Map<string, string>();
+  const colorRef = (color: string): string => {
+    if (color === 'none') return color;
+    const value = renderHex(color);
+    let id = colorIds.get(value);
+    if (!id) {
+      id = `${PREFIX}color_${colorIds.size + 1}`;
+      colorIds.set(value, id);
+      const def = doc.createElementNS(ns, 'colorDefinition');
+      def.setAttribute('id', id);
+      def.setAttribute('value', value);
+      colors.appendChild(def);
+    }
+    return id;
+  };
+
+  // Glyphs that end up with the same attributes share one style.
+  const groups = new Map<string, { attrs: [string, string][]; ids: string[] }>();
+  for (const paint of paints) {
+    const own: [string, string][] = [['stroke', colorRef(paint.stroke)], ['strokeWidth', String(paint.strokeWidth)]];
+    if (paint.fill) own.push(['fill', colorRef(paint.fill)]);
+    const names = new Set(own.map(([name]) => name));
+    const attrs = [...(inherited.get(paint.id) ?? []).filter(([name]) => !names.has(name)), ...own]
+      .sort(([a], [b]) => a.localeCompare(b));
+    const key = JSON.stringify(attrs);
+    const group = groups.get(key) ?? { attrs, ids: [] };
+    group.ids.push(paint.id);
+    groups.set(key, group);
+  }
+  let n = 0;
+  for (const { attrs, ids } of groups.values()) {
+    const style = doc.createElementNS(ns, 'style');
+    style.setAttribute('id', `${PREFIX}style_${++n}`);
+    style.setAttribute('idList', ids.join(' '));
+    const g = doc.createElementNS(ns, 'g');
+    attrs.forEach(([name, value]) => g.setAttribute(name, value));
+    style.appendChild(g);
+    styles.appendChild(style);
+  }
+};
+
+/** The source SBGN-ML with the overlay's colors and values written in. */
+export const exportSbgnMl = ({ source, mapId, paints, columns }: SbgnExport): string => {
+  const doc = new DOMParser().parseFromString(source, 'application/xml');
+  const maps = doc.getElementsByTagName('parsererror')[0] ? [] : sbgnMapElements(doc);
+  const map = (maps.find((m) => m.id === mapId) ?? maps[0])?.el;
+  if (!map) {
+    throw new Error('This map could not be exported as SBGN-ML.');
+  }
+  const glyphs = new Map(Array.from(map.getElementsByTagNameNS('*', 'glyph'), (g) => [g.getAttribute('id') || '', g]));
+  glyphs.forEach(clearAnnotations);
+  const placed = paints.filter((p) => glyphs.has(p.id));
+  placed.forEach((p) => annotateGlyph(glyphs.get(p.id)!, p, columns));
+  writeStyles(map, placed);
+  return new XMLSerializer().serializeToString(doc);
+};
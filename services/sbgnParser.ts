@@ -0,0 +1,295 @@
+/**
+ * SBGN-ML → PathwayModel, for all three SBGN languages: Process Description
+ * (PD), Activity Flow (AF) and Entity Relationship (ER).
+ *
+ * SBGN-ML files (e.g. from Reactome) embed full layout geometry: every glyph
+ * has an absolute <bbox> and every arc has explicit start/next/end points, so
+ * the model keeps them as given. Arcs that attach to a process or logic
+ * glyph's port are resolved to the glyph, keeping the port id. Glyphs nested in an arc (ER
+ * outcomes, cardinalities) are read like any other. Styles from the
+ * <renderInformation> extension are attached to the glyphs and arcs they name.
+ *
+ * An SBGN-ML 0.3 file may hold several <map>s; each becomes its own model, and
+ * a PD submap glyph is linked to the map it stands for.
+ */
+
+import { type PathwayModel, type PathwayNode, type PathwayEdge, type Bbox, type Point, type SbgnLanguage, type RenderStyle } from './pathwayModel';
+
+// ---------------------------------------------------------------------------
+// Glyph classes
+// ---------------------------------------------------------------------------
+
+export const GENE_CLASSES = new Set(['macromolecule', 'macromolecule multimer', 'nucleic acid feature', 'nucleic acid feature multimer']);
+export const COMPOUND_CLASSES = new Set(['simple chemical', 'simple chemical multimer']);
+export const AMBIGUOUS_CLASSES = new Set(['unspecified entity', 'complex', 'complex multimer']);
+export const COMPLEX_CLASSES = new Set(['complex', 'complex multimer']);
+export const PROCESS_CLASSES = new Set(['process', 'omitted process', 'uncertain process', 'association', 'dissociation']);
+export const LOGIC_CLASSES = new Set(['and', 'or', 'not', 'delay']);
+export const SUBGLYPH_CLASSES = new Set(['state variable', 'unit of information', 'existence', 'location', 'variable value', 'cardinality', 'stoichiometry']);
+/** AF activity nodes; their unit of information says what kind of entity is active. */
+export const ACTIVITY_CLASSES = new Set(['biological activity']);
+
+/** Glyphs that may carry gene data (complexes through their members, AF activities unless of a chemical or perturbation). */
+export const isSbgnGene = (node: PathwayNode): boolean =>
+  GENE_CLASSES.has(node.cls) || AMBIGUOUS_CLASSES.has(node.cls) ||
+  (ACTIVITY_CLASSES.has(node.cls) && !COMPOUND_CLASSES.has(node.entity ?? '') && node.entity !== 'perturbation');
+
+// ---------------------------------------------------------------------------
+// DOM helpers (namespace-agnostic: SBGN ML 0.2 / 0.3 use different NS URIs)
+// ---------------------------------------------------------------------------
+
+const directChildren = (el: Element, localName: string): Element[] => {
+  const out: Element[] = [];
+  for (let i = 0; i < el.children.length; i++) {
+    const c = el.children[i];
+    if (c.localName === localName) out.push(c);
+  }
+  return out;
+};
+
+const firstChild = (el: Element, localName: string): Element | null =>
+  directChildren(el, localName)[0] ?? null;
+
+const readBbox = (el: Element): Bbox | null => {
+  const b = firstChild(el, 'bbox');
+  if (!b) return null;
+  const x = parseFloat(b.getAttribute('x') || 'NaN');
+  const y = parseFloat(b.getAttribute('y') || 'NaN');
+  const w = parseFloat(b.getAttribute('w') || 'NaN');
+  const h = parseFloat(b.getAttribute('h') || 'NaN');
+  if (![x, y, w, h].every(Number.isFinite)) return null;
+  return { x, y, w, h };
+};
+
+const readLabel = (el: Element): string => (firstChild(el, 'label')?.getAttribute('text') || '').trim();
+
+// A state variable's text: "P@S473" from <state value="P" variable="S473"/>, "P" without a variable.
+const readState = (el: Element): string => {
+  const state = firstChild(el, 'state');
+  if (!state) return '';
+  const value = (state.getAttribute('value') || '').trim();
+  const variable = (state.getAttribute('variable') || '').trim();
+  return variable ? `${value}@${variable}` : value;
+};
+
+const readPoint = (el: Element | null): Point | null => {
+  if (!el) return null;
+  const x = parseFloat(el.getAttribute('x') || 'NaN');
+  const y = parseFloat(el.getAttribute('y') || 'NaN');
+  return Number.isFinite(x) && Number.isFinite(y) ? { x, y } : null;
+};
+
+const RDF_NS = 'http://www.w3.org/1999/02/22-rdf-syntax-ns#';
+
+/**
+ * Identifier from a MIRIAM / identifiers.org resource URI, keeping the
+ * namespace the URI names so ids from different databases stay apart:
+ * "http://identifiers.org/uniprot/P12345" → "uniprot:P12345",
+ * "https://identifiers.org/CHEBI:15422" → "CHEBI:15422",
+ * "urn:miriam:ncbigene:2305" → "ncbigene:2305".
+ */
+const resourceId = (uri: string): string => {
+  const u = decodeURIComponent(uri.trim()).replace(/[/#]+$/, '');
+  const urn = /^urn:miriam:([^:]+):(.+)$/i.exec(u);
+  if (urn) return `${urn[1]}:${urn[2]}`;
+  const org = /identifiers\.org\/([^/:]+)\/([^/]+)$/i.exec(u);
+  if (org) return `${org[1]}:${org[2]}`;
+  return u.split(/[/#]/).pop() || '';
+};
+
+/**
+ * `bqbiol:is` identifiers from the glyph's own <annotation> / <extension> block
+ * (SBGN-ML 0.3 puts <annotation> directly on the glyph, 0.2 exporters nest it in
+ * <extension>). Child glyphs' annotations are not included.
+ */
+const readAnnotationIds = (el: Element): string[] => {
+  const ids: string[] = [];
+  // Compare local names by hand: prefixes vary between exporters and not every
+  // DOM implementation resolves namespaces on XML it parsed.
+  const named = (root: Element, name: string) =>
+    Array.from(root.querySelectorAll('*')).filter((e) => e.localName.split(':').pop() === name);
+  for (const block of [...directChildren(el, 'annotation'), ...directChildren(el, 'extension')]) {
+    for (const rel of named(block, 'is')) {
+      for (const li of named(rel, 'li')) {
+        const res = li.getAttributeNS(RDF_NS, 'resource') || li.getAttribute('rdf:resource') || '';
+        const id = res ? resourceId(res) : '';
+        if (id && !ids.includes(id)) ids.push(id);
+      }
+    }
+  }
+  return ids;
+};
+
+const readClass = (el: Element): string => (el.getAttribute('class') || '').toLowerCase().trim();
+
+const LANGUAGES: SbgnLanguage[] = ['process description', 'activity flow', 'entity relationship'];
+
+// SBGN-ML 0.2 names the language on <map language>; 0.3 may give only a
+// version URI instead (…/sbgn.af.level-1.version-1.2). PD when neither says.
+const readLanguage = (map: Element): SbgnLanguage => {
+  const named = (map.getAttribute('language') || '').toLowerCase().trim();
+  const lang = LANGUAGES.find((l) => l === named);
+  if (lang) return lang;
+  const version = /sbgn\.(pd|af|er)\b/i.exec(map.getAttribute('version') || '')?.[1].toLowerCase();
+  return version === 'af' ? 'activity flow' : version === 'er' ? 'entity relationship' : 'process description';
+};
+
+// ---------------------------------------------------------------------------
+// Render information (SBGN-ML 0.3 / SBML Render extension)
+// ---------------------------------------------------------------------------
+
+// #RRGGBBAA, the extension's alpha form, as rgba(); #RGB / #RRGGBB and 'none' as written.
+const cssColor = (value: string): string => {
+  const m = /^#([0-9a-f]{6})([0-9a-f]{2})$/i.exec(value);
+  if (!m) return value;
+  const n = parseInt(m[1], 16);
+  return `rgba(${n >> 16},${(n >> 8) & 255},${n & 255},${+(parseInt(m[2], 16) / 255).toFixed(3)})`;
+};
+
+/**
+ * Styles by glyph / arc id, and the map's background color. Colors may be
+ * given inline or as a <colorDefinition> id; gradient references are dropped.
+ */
+const readRenderInformation = (map: Element): { background?: string; styles: Map<string, RenderStyle> } => {
+  const styles = new Map<string, RenderStyle>();
+  const info = map.getElementsByTagNameNS('*', 'renderInformation')[0];
+  if (!info) return { styles };
+  const colors = new Map(Array.from(info.getElementsByTagNameNS('*', 'colorDefinition'), (c) => [c.getAttribute('id') || '', c.getAttribute('value') || '']));
+  const color = (ref: string | null): string | undefined => {
+    const v = ((ref && colors.get(ref)) || ref || '').trim();
+    return /^#([0-9a-f]{3}|[0-9a-f]{6}|[0-9a-f]{8})$/i.test(v) || v === 'none' ? cssColor(v) : undefined;
+  };
+  for (const style of Array.from(info.getElementsByTagNameNS('*', 'style'))) {
+    const g = firstChild(style, 'g');
+    if (!g) continue;
+    const num = (attr: string) => {
+      const n = parseFloat(g.getAttribute(attr) || '');
+      return Number.isFinite(n) ? n : undefined;
+    };
+    const read: RenderStyle = {
+      fill: color(g.getAttribute('fill')), stroke: color(g.getAttribute('stroke')), strokeWidth: num('strokeWidth'),
+      fontSize: num('fontSize'), fontFamily: g.getAttribute('fontFamily') || undefined,
+      fontWeight: g.getAttribute('fontWeight') || undefined, fontStyle: g.getAttribute('fontStyle') || undefined,
+      fontColor: color(g.getAttribute('fontColor')),
+    };
+    const set = Object.fromEntries(Object.entries(read).filter(([, v]) => v !== undefined)) as RenderStyle;
+    for (const id of (style.getAttribute('idList') || '').split(/\s+/).filter(Boolean)) styles.set(id, { ...styles.get(id), ...set });
+  }
+  return { background: color(info.getAttribute('backgroundColor')), styles };
+};
+
+// ---------------------------------------------------------------------------
+// Parse
+// ---------------------------------------------------------------------------
+
+/**
+ * The file's <map> elements and the ids models know them by: the map's own id,
+ * or `map-N` (1-based, in document order) when it has none. A file without a
+ * <map> wrapper is read as one map.
+ */
+export const sbgnMapElements = (doc: Document): { id: string; el: Element }[] => {
+  const maps = Array.from(doc.getElementsByTagNameNS('*', 'map'));
+  if (maps.length === 0) return [{ id: 'map-1', el: doc.documentElement }];
+  return maps.map((el, i) => ({ id: el.getAttribute('id') || `map-${i + 1}`, el }));
+};
+
+const parseMap = (map: Element, mapId: string): PathwayModel => {
+  const glyphEls = Array.from(map.getElementsByTagNameNS('*', 'glyph'));
+  const arcEls = Array.from(map.getElementsByTagNameNS('*', 'arc'));
+  const render = readRenderInformation(map);
+  const portOwner = new Map<string, string>();
+  const nodes = glyphEls.map((el): PathwayNode => {
+    const id = el.getAttribute('id') || '';
+    const parent = el.parentElement;
+    const ports = directChildren(el, 'port').flatMap((port) => {
+      const pid = port.getAttribute('id');
+      const at = readPoint(port);
+      return pid && at ? [{ id: pid, ...at }] : [];
+    });
+    if (id) ports.forEach((p) => portOwner.set(p.id, id));
+    const label = readLabel(el) || readState(el);
+    const node: PathwayNode = {
+      id, cls: readClass(el), bbox: readBbox(el), label, name: label, ids: readAnnotationIds(el),
+      compartment: el.getAttribute('compartmentRef') || null,
+      parent: parent?.localName === 'glyph' ? parent.getAttribute('id') || null : null,
+      children: directChildren(el, 'glyph').map((c) => c.getAttribute('id') || '').filter(Boolean),
+      ports,
+    };
+    const entity = firstChild(el, 'entity')?.getAttribute('name')?.toLowerCase().trim();
+    if (entity) node.entity = entity;
+    const clone = firstChild(el, 'clone');
+    if (clone) node.clone = readLabel(clone);
+    const orientation = el.getAttribute('orientation')?.toLowerCase().trim();
+    if (orientation) node.orientation = orientation;
+    const style = render.styles.get(id);
+    if (style) node.style = style;
+    return node;
+  });
+
+  // An activity is the activity of whatever its unit of information names.
+  const byId = new Map(nodes.map((n) => [n.id, n]));
+  for (const n of nodes) {
+    if (!ACTIVITY_CLASSES.has(n.cls)) continue;
+    const entity = n.children.map((c) => byId.get(c)?.entity).find(Boolean);
+    if (entity) n.entity = entity;
+  }
+
+  const edges = arcEls.map((arc, i): PathwayEdge => {
+    const ref = (attr: string) => {
+      const r = arc.getAttribute(attr) || '';
+      return portOwner.get(r) ?? r;
+    };
+    const start = readPoint(firstChild(arc, 'start'));
+    const end = readPoint(firstChild(arc, 'end'));
+    const bends = directChildren(arc, 'next').map(readPoint).filter((p): p is Point => !!p);
+    const edge: PathwayEdge = {
+      id: arc.getAttribute('id') || `arc-${i}`,
+      cls: readClass(arc),
+      source: ref('source'),
+      target: ref('target'),
+      points: start && end ? [start, ...bends, end] : [],
+    };
+    const sourcePort = arc.getAttribute('source') || '';
+    const targetPort = arc.getAttribute('target') || '';
+    if (portOwner.has(sourcePort)) edge.sourcePort = sourcePort;
+    if (portOwner.has(targetPort)) edge.targetPort = targetPort;
+    const style = render.styles.get(edge.id);
+    if (style) edge.style = style;
+    return edge;
+  });
+
+  const title = map.getAttribute('name') || '';
+  const model: PathwayModel = { format: 'sbgn', language: readLanguage(map), mapId, title, nodes, edges };
+  if (render.background) model.background = render.background;
+  return model;
+};
+
+// A submap glyph stands for the other map whose id or name its label (or id) gives.
+const linkSubmaps = (models: PathwayModel[]): void => {
+  const key = (s: string) => s.trim().toLowerCase();
+  for (const model of models) {
+    const others = models.filter((m) => m !== model);
+    for (const node of model.nodes) {
+      if (node.cls !== 'submap') continue;
+      const wanted = [node.label, node.id].map(key).filter(Boolean);
+      const target = others.find((m) => wanted.includes(key(m.mapId ?? ''))) ??
+        others.find((m) => m.title && wanted.includes(key(m.title)));
+      if (target?.mapId) node.submap = target.mapId;
+    }
+  }
+};
+
+/** One model per <map> in the file, in document order; maps without glyphs are left out. */
+export const parseSbgnMaps = (sbgnXml: string): PathwayModel[] => {
+  const doc = new DOMParser().parseFromString(sbgnXml, 'application/xml');
+  if (doc.getElementsByTagName('parsererror')[0]) {
+    throw new Error('The SBGN file could not be parsed as XML. Please check the file is valid SBGN-ML.');
+  }
+
+  const models = sbgnMapElements(doc).map(({ id, el }) => parseMap(el, id)).filter((m) => m.nodes.length > 0);
+  if (models.length === 0) {
+    throw new Error('No SBGN glyphs were found in this map. The pathway may be empty or in an unsupported format.');
+  }
+  linkSubmaps(models);
+  return models;
+};
@@ -1,9 +1,14 @@
 /**
- * Deterministic SBGN-ML (Process Description) → SVG renderer.
+ * Deterministic SBGN-ML → SVG renderer for Process Description, Activity Flow
+ * and Entity Relationship maps.
  *
- * SBGN-ML files (e.g. from Reactome) embed full layout geometry — every glyph
- * has an absolute <bbox> and every arc has explicit start/next/end points — so
- * rendering is a faithful, reproducible translation rather than an LLM guess.
+ * Draws the PathwayModel that ./sbgnParser reads from SBGN-ML. The files (e.g.
+ * from Reactome) embed full layout geometry — every glyph has an absolute
+ * <bbox> and every arc has explicit start/next/end points — so rendering is a
+ * faithful, reproducible translation rather than an LLM guess. The three
+ * languages share most shapes; AF activities take data like PD entities.
+ * The SVG nests like the map: compartments, then complexes, then members.
+ * One map is drawn per call; a multi-map file's submap glyphs link to the others.
  *
  * Omics values are overlaid via the shared ./overlay module: matched glyphs are
  * filled from a color scale and tagged with `glyph-gene-<ID>` / `glyph-compound-<ID>`
@@ -11,58 +16,48 @@
  */
 
 import { type VisualizationConfig } from '../types';
-import { type DataMap, buildOverlay, entityAttrs, xmlEscape, textOn } from './overlay';
+import { type DataMap, type OverlayInputs, type OverlayAudit, type LegendModel, type GlyphRef, type Overlay, type EntityHit, buildOverlay, entityAttrs, opacityAttr, xmlEscape, textOn } from './overlay';
+import { type ImpactReport, glyphImpacts } from './impact';
+import { type PathwayModel, type PathwayNode, type PathwayEdge, type Bbox, type Point, type RenderStyle, nodeIndex } from './pathwayModel';
+import { type GlyphPaint } from './sbgnExport';
+import { GENE_CLASSES, COMPOUND_CLASSES, AMBIGUOUS_CLASSES, COMPLEX_CLASSES, PROCESS_CLASSES, LOGIC_CLASSES, SUBGLYPH_CLASSES, ACTIVITY_CLASSES } from './sbgnParser';
 
-export interface RenderOptions {
+export interface RenderOptions extends OverlayInputs {
   geneData: DataMap;
   compoundData: DataMap;
   config: VisualizationConfig;
   /** KGML image-overlay mode only: KEGG's pathway PNG as a portable data URL + dims. */
   backgroundImage?: { dataUrl: string; width: number; height: number };
+  /** Receives the glyph ↔ data matches once the map is drawn (for the mapping report). */
+  onAudit?: (audit: OverlayAudit) => void;
+  /** Receives the scales and matched values once the map is drawn (for the viewer's interactive legend). */
+  onLegend?: (legend: LegendModel) => void;
+  /** Impact overlay mode only: receives the pathway's perturbation score and per-gene impacts. */
+  onImpact?: (report: ImpactReport) => void;
+  /** Receives how each matched glyph was painted (for the SBGN-ML export). */
+  onPaint?: (paints: GlyphPaint[]) => void;
 }
 
 // ---------------------------------------------------------------------------
-// DOM helpers (namespace-agnostic: SBGN ML 0.2 / 0.3 use different NS URIs)
+// Glyph geometry / shapes
 // ---------------------------------------------------------------------------
 
-const directChildren = (el: Element, localName: string): Element[] => {
-  const out: Element[] = [];
-  for (let i = 0; i < el.children.length; i++) {
-    const c = el.children[i];
-    if (c.localName === localName) out.push(c);
-  }
+type PlacedNode = PathwayNode & { bbox: Bbox };
+
+// Gene-like glyphs nested (at any depth) inside a complex.
+const complexMembers = (byId: Map<string, PathwayNode>, node: PathwayNode): GlyphRef[] => {
+  if (!COMPLEX_CLASSES.has(node.cls)) return [];
+  const out: GlyphRef[] = [];
+  const visit = (n: PathwayNode) => n.children.forEach((id) => {
+    const c = byId.get(id);
+    if (!c) return;
+    if (GENE_CLASSES.has(c.cls)) out.push({ id: c.id, label: c.label, xrefs: c.ids });
+    visit(c);
+  });
+  visit(node);
   return out;
 };
 
-const firstChild = (el: Element, localName: string): Element | null =>
-  directChildren(el, localName)[0] ?? null;
-
-interface Bbox { x: number; y: number; w: number; h: number; }
-
-const readBbox = (el: Element): Bbox | null => {
-  const b = firstChild(el, 'bbox');
-  if (!b) return null;
-  const x = parseFloat(b.getAttribute('x') || 'NaN');
-  const y = parseFloat(b.getAttribute('y') || 'NaN');
-  const w = parseFloat(b.getAttribute('w') || 'NaN');
-  const h = parseFloat(b.getAttribute('h') || 'NaN');
-  if (![x, y, w, h].every(Number.isFinite)) return null;
-  return { x, y, w, h };
-};
-
-const readLabel = (el: Element): string => (firstChild(el, 'label')?.getAttribute('text') || '').trim();
-
-// ---------------------------------------------------------------------------
-// Glyph geometry / shapes
-// ---------------------------------------------------------------------------
-
-const GENE_CLASSES = new Set(['macromolecule', 'macromolecule multimer', 'nucleic acid feature', 'nucleic acid feature multimer']);
-const COMPOUND_CLASSES = new Set(['simple chemical', 'simple chemical multimer']);
-const AMBIGUOUS_CLASSES = new Set(['unspecified entity', 'complex', 'complex multimer']);
-const PROCESS_CLASSES = new Set(['process', 'omitted process', 'uncertain process', 'association', 'dissociation']);
-const LOGIC_CLASSES = new Set(['and', 'or', 'not']);
-const SUBGLYPH_CLASSES = new Set(['state variable', 'unit of information']);
-
 const roundedRect = (b: Bbox, fill: string, stroke: string, sw: number, r = 8): string =>
   `<rect x="${b.x}" y="${b.y}" width="${b.w}" height="${b.h}" rx="${Math.min(r, b.h / 2)}" ry="${Math.min(r, b.h / 2)}" fill="${fill}" stroke="${stroke}" stroke-width="${sw}"/>`;
 
@@ -98,6 +93,94 @@ const hexagon = (b: Bbox, fill: string, stroke: string, sw: number): string => {
   return `<polygon points="${pts}" fill="${fill}" stroke="${stroke}" stroke-width="${sw}"/>`;
 };
 
+// Perturbation / perturbing agent: a box with both sides notched inwards.
+const notchedHexagon = (b: Bbox, fill: string, stroke: string, sw: number): string => {
+  const { x, y, w, h } = b;
+  const c = Math.min(w * 0.2, h / 2);
+  const pts = [
+    [x, y], [x + w, y], [x + w - c, y + h / 2], [x + w, y + h], [x, y + h], [x + c, y + h / 2],
+  ].map((p) => p.join(',')).join(' ');
+  return `<polygon points="${pts}" fill="${fill}" stroke="${stroke}" stroke-width="${sw}"/>`;
+};
+
+// Tag / terminal: a box pointing the way it faces (right by default).
+const tagShape = (b: Bbox, orientation: string | undefined, fill: string, stroke: string, sw: number): string => {
+  const { x, y, w, h } = b;
+  const cx = Math.min(w, h) / 2;
+  const corners: Record<string, number[][]> = {
+    left: [[x, y + h / 2], [x + cx, y], [x + w, y], [x + w, y + h], [x + cx, y + h]],
+    up: [[x + w / 2, y], [x + w, y + cx], [x + w, y + h], [x, y + h], [x, y + cx]],
+    down: [[x, y], [x + w, y], [x + w, y + h - cx], [x + w / 2, y + h], [x, y + h - cx]],
+    right: [[x, y], [x + w - cx, y], [x + w, y + h / 2], [x + w - cx, y + h], [x, y + h]],
+  };
+  const pts = (corners[orientation ?? ''] ?? corners.right).map((p) => p.join(',')).join(' ');
+  return `<polygon points="${pts}" fill="${fill}" stroke="${stroke}" stroke-width="${sw}"/>`;
+};
+
+const plainRect = (b: Bbox, fill: string, stroke: string, sw: number): string =>
+  `<rect x="${b.x}" y="${b.y}" width="${b.w}" height="${b.h}" fill="${fill}" stroke="${stroke}" stroke-width="${sw}"/>`;
+
+// ER annotation: a note with a folded top-right corner.
+const noteShape = (b: Bbox, fill: string, stroke: string, sw: number): string => {
+  const c = Math.min(10, b.w / 4, b.h / 3);
+  const { x, y, w, h } = b;
+  return `<path d="M ${x} ${y} L ${x + w - c} ${y} L ${x + w} ${y + c} L ${x + w} ${y + h} L ${x} ${y + h} Z M ${x + w - c} ${y} L ${x + w - c} ${y + c} L ${x + w} ${y + c}" fill="${fill}" stroke="${stroke}" stroke-width="${sw}"/>`;
+};
+
+// The outline an entity class is drawn with; multimers, clone markers and AF
+// units of information borrow it.
+const entityShape = (cls: string, b: Bbox, fill: string, stroke: string, sw: number, r = 8): string => {
+  if (cls.startsWith('nucleic')) return bottomRoundedRect(b, fill, stroke, sw);
+  if (GENE_CLASSES.has(cls)) return roundedRect(b, fill, stroke, sw, r);
+  if (COMPOUND_CLASSES.has(cls)) return stadium(b, fill, stroke, sw);
+  if (COMPLEX_CLASSES.has(cls)) return cutCornerRect(b, fill, stroke, sw);
+  if (cls === 'perturbation' || cls === 'perturbing agent') return notchedHexagon(b, fill, stroke, sw);
+  return ellipse(b, fill, stroke, sw);
+};
+
+// Glyphs a clone marker can sit on (SBGN PD entity pool nodes).
+const CLONABLE_CLASSES = new Set([...GENE_CLASSES, ...COMPOUND_CLASSES, ...COMPLEX_CLASSES, 'unspecified entity', 'perturbing agent']);
+
+// A multimer is two copies of its monomer's shape, the back one offset down and right.
+const multimerShadow = (b: Bbox, shape: (b: Bbox) => string): string => {
+  const d = Math.min(5, b.w / 8, b.h / 8);
+  return shape({ x: b.x + d, y: b.y + d, w: b.w, h: b.h });
+};
+
+// Clone marker: the glyph's bottom band filled dark, clipped to its outline,
+// with the marker's label (if any) in white.
+const cloneMarker = (clipId: string, cls: string, b: Bbox, stroke: string, sw: number, label: string, fontSize: number): string => {
+  const band = { x: b.x, y: b.y + b.h * 0.7, w: b.w, h: b.h * 0.3 };
+  const clip = `<clipPath id="${clipId}"><rect x="${band.x}" y="${band.y}" width="${band.w}" height="${band.h}"/></clipPath>`;
+  const text = label ? labelText(label, band, Math.max(6, Math.min(fontSize - 2, band.h * 0.8)), '#ffffff') : '';
+  return `${clip}<g clip-path="url(#${clipId})">${entityShape(cls, b, '#475569', stroke, sw)}</g>${text}`;
+};
+
+// Short connector lines from a process or logic glyph out to its ports.
+const portStubs = (b: Bbox, ports: Point[], color: string, sw: number): string =>
+  ports.map((p) => {
+    const x = Math.min(Math.max(p.x, b.x), b.x + b.w);
+    const y = Math.min(Math.max(p.y, b.y), b.y + b.h);
+    return x === p.x && y === p.y ? '' : `<line x1="${x}" y1="${y}" x2="${p.x}" y2="${p.y}" stroke="${color}" stroke-width="${sw}"/>`;
+  }).join('');
+
+// State variables and units of information the file gives no box: sized to
+// their text and lined up along the top border of the glyph they annotate.
+const placeSubGlyphs = (model: PathwayModel, byId: Map<string, PathwayNode>, fontSize: number): Map<string, Bbox> => {
+  const placed = new Map<string, Bbox>();
+  const h = Math.max(7, fontSize - 2) + 6;
+  const nextX = new Map<string, number>();
+  for (const n of model.nodes) {
+    const parent = n.parent ? byId.get(n.parent) : undefined;
+    if (n.bbox || !SUBGLYPH_CLASSES.has(n.cls) || !parent?.bbox) continue;
+    const w = Math.max(h, n.label.length * (h - 6) * 0.6 + 8);
+    const x = nextX.get(parent.id) ?? parent.bbox.x + Math.min(10, parent.bbox.w / 8);
+    placed.set(n.id, { x, y: parent.bbox.y - h / 2, w, h });
+    nextX.set(parent.id, x + w + 4);
+  }
+  return placed;
+};
+
 const wrapLabel = (label: string, b: Bbox, fontSize: number): string[] => {
   if (!label) return [];
   const maxChars = Math.max(4, Math.floor(b.w / (fontSize * 0.58)));
@@ -115,7 +198,13 @@ const wrapLabel = (label: string, b: Bbox, fontSize: number): string[] => {
   return lines.slice(0, 3).map((l) => (l.length > maxChars + 2 ? l.slice(0, maxChars + 1) + '…' : l));
 };
 
-const labelText = (label: string, b: Bbox, fontSize: number, color: string): string => {
+// Font attributes from a map's render information, on top of the default family.
+const fontAttrs = (font: RenderStyle | undefined): string =>
+  (font?.fontFamily ? ` font-family="${xmlEscape(font.fontFamily)}"` : ` font-family="'Segoe UI', Helvetica, Arial, sans-serif"`) +
+  (font?.fontWeight ? ` font-weight="${xmlEscape(font.fontWeight)}"` : '') +
+  (font?.fontStyle ? ` font-style="${xmlEscape(font.fontStyle)}"` : '');
+
+const labelText = (label: string, b: Bbox, fontSize: number, color: string, font?: RenderStyle): string => {
   const lines = wrapLabel(label, b, fontSize);
   if (lines.length === 0) return '';
   const cx = b.x + b.w / 2;
@@ -125,33 +214,26 @@ const labelText = (label: string, b: Bbox, fontSize: number, color: string): str
   const tspans = lines
     .map((ln, i) => `<tspan x="${cx}" y="${startY + i * lh + fontSize * 0.35}">${xmlEscape(ln)}</tspan>`)
     .join('');
-  return `<text text-anchor="middle" font-family="'Segoe UI', Helvetica, Arial, sans-serif" font-size="${fontSize}" fill="${color}">${tspans}</text>`;
+  return `<text text-anchor="middle"${fontAttrs(font)} font-size="${fontSize}" fill="${color}">${tspans}</text>`;
 };
 
 // ---------------------------------------------------------------------------
 // Arc rendering
 // ---------------------------------------------------------------------------
 
-interface Pt { x: number; y: number; }
-
-const readPoint = (el: Element | null): Pt | null => {
-  if (!el) return null;
-  const x = parseFloat(el.getAttribute('x') || 'NaN');
-  const y = parseFloat(el.getAttribute('y') || 'NaN');
-  return Number.isFinite(x) && Number.isFinite(y) ? { x, y } : null;
-};
-
-const arrowHead = (type: string, tip: Pt, angle: number, color: string): string => {
+const arrowHead = (type: string, tip: Point, angle: number, color: string): string => {
   const cos = Math.cos(angle);
   const sin = Math.sin(angle);
   const tx = (d: number, o: number) => tip.x - d * cos - o * sin;
   const ty = (d: number, o: number) => tip.y - d * sin + o * cos;
   switch (type) {
-    case 'production': {
+    case 'production':
+    case 'assignment': {
       const p = `${tip.x},${tip.y} ${tx(11, 5)},${ty(11, 5)} ${tx(11, -5)},${ty(11, -5)}`;
       return `<polygon points="${p}" fill="${color}" stroke="${color}" stroke-width="1"/>`;
     }
     case 'stimulation':
+    case 'positive influence':
     case 'necessary stimulation': {
       const p = `${tip.x},${tip.y} ${tx(12, 6)},${ty(12, 6)} ${tx(12, -6)},${ty(12, -6)}`;
       const bar = type === 'necessary stimulation'
@@ -164,9 +246,17 @@ const arrowHead = (type: string, tip: Pt, angle: number, color: string): string
       const cy = tip.y - 6 * sin;
       return `<circle cx="${cx}" cy="${cy}" r="6" fill="#ffffff" stroke="${color}" stroke-width="1.5"/>`;
     }
+    case 'absolute stimulation': {
+      const head = (d: number) => `${tx(d, 0)},${ty(d, 0)} ${tx(d + 12, 6)},${ty(d + 12, 6)} ${tx(d + 12, -6)},${ty(d + 12, -6)}`;
+      return `<polygon points="${head(6)}" fill="#ffffff" stroke="${color}" stroke-width="1.5"/><polygon points="${head(0)}" fill="#ffffff" stroke="${color}" stroke-width="1.5"/>`;
+    }
     case 'inhibition':
+    case 'negative influence':
       return `<line x1="${tx(2, 8)}" y1="${ty(2, 8)}" x2="${tx(2, -8)}" y2="${ty(2, -8)}" stroke="${color}" stroke-width="2.5"/>`;
-    case 'modulation': {
+    case 'absolute inhibition':
+      return [2, 7].map((d) => `<line x1="${tx(d, 8)}" y1="${ty(d, 8)}" x2="${tx(d, -8)}" y2="${ty(d, -8)}" stroke="${color}" stroke-width="2.5"/>`).join('');
+    case 'modulation':
+    case 'unknown influence': {
       const p = `${tip.x},${tip.y} ${tx(7, 5)},${ty(7, 5)} ${tx(14, 0)},${ty(14, 0)} ${tx(7, -5)},${ty(7, -5)}`;
       return `<polygon points="${p}" fill="#ffffff" stroke="${color}" stroke-width="1.5"/>`;
     }
@@ -175,59 +265,118 @@ const arrowHead = (type: string, tip: Pt, angle: number, color: string): string
   }
 };
 
-const renderArc = (arc: Element, config: VisualizationConfig): string => {
-  const cls = (arc.getAttribute('class') || '').toLowerCase().trim();
-  const start = readPoint(firstChild(arc, 'start'));
-  const end = readPoint(firstChild(arc, 'end'));
-  if (!start || !end) return '';
-  const nexts = directChildren(arc, 'next').map(readPoint).filter((p): p is Pt => !!p);
-  const pts = [start, ...nexts, end];
+// Complexes take their color from their member genes, else their own label. An
+// AF activity matches as its unit of information's entity type, or as either
+// kind when that is not stated.
+const glyphHit = (overlay: Overlay, g: PathwayNode, members: GlyphRef[]): EntityHit | null => {
+  const cls = ACTIVITY_CLASSES.has(g.cls) ? g.entity ?? 'unspecified entity' : g.cls;
+  const tryGene = GENE_CLASSES.has(cls) || AMBIGUOUS_CLASSES.has(cls);
+  const tryCompound = COMPOUND_CLASSES.has(cls) || AMBIGUOUS_CLASSES.has(cls);
+  const ref = { id: g.id, label: g.label, xrefs: g.ids };
+  return (members.length ? overlay.matchMembers(ref, members) : null) ??
+    (tryGene || tryCompound ? overlay.match(ref, { gene: tryGene, compound: tryCompound }) : null);
+};
+
+const DASHED_ARCS = new Set(['inhibition', 'modulation', 'negative influence', 'unknown influence']);
+
+// Arc ends that attach to a port start / end exactly on it.
+const renderArc = (arc: PathwayEdge, config: VisualizationConfig, portAt: Map<string, Point>, style: RenderStyle | undefined): string => {
+  if (arc.points.length < 2) return '';
+  const pts = [...arc.points];
+  const from = arc.sourcePort ? portAt.get(arc.sourcePort) : undefined;
+  const to = arc.targetPort ? portAt.get(arc.targetPort) : undefined;
+  if (from) pts[0] = from;
+  if (to) pts[pts.length - 1] = to;
   const path = pts.map((p, i) => `${i === 0 ? 'M' : 'L'} ${p.x} ${p.y}`).join(' ');
 
-  const color = config.arcLineColor;
-  const sw = config.arcLineWidth;
-  const dash = cls === 'inhibition' || cls === 'modulation' ? ' stroke-dasharray="4 3"' : '';
+  const color = style?.stroke ?? config.arcLineColor;
+  const sw = style?.strokeWidth ?? config.arcLineWidth;
+  const dash = DASHED_ARCS.has(arc.cls) ? ' stroke-dasharray="4 3"' : '';
   const line = `<path d="${path}" fill="none" stroke="${color}" stroke-width="${sw}"${dash}/>`;
 
+  const end = pts[pts.length - 1];
   const prev = pts[pts.length - 2];
   const angle = Math.atan2(end.y - prev.y, end.x - prev.x);
-  return line + arrowHead(cls, end, angle, color);
+  return line + arrowHead(arc.cls, end, angle, color);
 };
 
+// Marks inside the process square: a double backslash for omitted, "?" for uncertain processes.
+const PROCESS_MARKS: Record<string, string> = { 'omitted process': '\\\\', 'uncertain process': '?' };
+
+// ER junctions: the arcs meeting there say it all.
+const UNLABELED_CLASSES = new Set(['outcome', 'interaction', 'influence target', 'implicit xor']);
+
 // ---------------------------------------------------------------------------
-// Main render
+// Hierarchy
 // ---------------------------------------------------------------------------
 
-export const renderSbgnToSvg = (sbgnXml: string, options: RenderOptions): string => {
-  const { config, geneData, compoundData } = options;
-  const doc = new DOMParser().parseFromString(sbgnXml, 'application/xml');
+interface GlyphTree {
+  /** Glyphs drawn inside another, by the enclosing glyph's id: complex members, terminals, sub-glyphs. */
+  nested: Map<string, PlacedNode[]>;
+  /** Top-level glyphs by compartment id ('' for none). */
+  members: Map<string, PlacedNode[]>;
+  /** Compartments by enclosing compartment id ('' for the top level). */
+  compartments: Map<string, PlacedNode[]>;
+  /** Sub-glyphs whose owner is not drawn (or is an arc, like a cardinality). */
+  loose: PlacedNode[];
+}
 
-  if (doc.getElementsByTagName('parsererror')[0]) {
-    throw new Error('The SBGN file could not be parsed as XML. Please check the file is valid SBGN-ML.');
+// The map's structure: glyphs nest in the glyph that encloses them in the
+// file, and top-level glyphs and compartments sit in their compartmentRef's
+// compartment (or, for a glyph written inside one, that compartment).
+const glyphTree = (glyphs: PlacedNode[]): GlyphTree => {
+  const byId = new Map(glyphs.map((g) => [g.id, g]));
+  const isCompartment = (id: string | null | undefined) => !!id && byId.get(id)?.cls === 'compartment';
+  const add = (map: Map<string, PlacedNode[]>, key: string, g: PlacedNode) => map.set(key, [...(map.get(key) ?? []), g]);
+  const tree: GlyphTree = { nested: new Map(), members: new Map(), compartments: new Map(), loose: [] };
+
+  const compartmentOf = (g: PlacedNode): string => {
+    const ref = isCompartment(g.parent) ? g.parent : g.compartment;
+    if (!ref || !isCompartment(ref)) return '';
+    if (g.cls !== 'compartment') return ref;
+    // Compartments whose refs loop back on themselves go to the top level.
+    const seen = new Set([g.id]);
+    let c = byId.get(ref);
+    while (c?.cls === 'compartment') {
+      if (seen.has(c.id)) return '';
+      seen.add(c.id);
+      c = c.compartment ? byId.get(c.compartment) : undefined;
+    }
+    return ref;
+  };
+
+  for (const g of glyphs) {
+    const owner = g.parent ? byId.get(g.parent) : undefined;
+    if (SUBGLYPH_CLASSES.has(g.cls)) {
+      if (owner) add(tree.nested, owner.id, g);
+      else tree.loose.push(g);
+    } else if (owner && owner.cls !== 'compartment' && g.cls !== 'compartment') {
+      add(tree.nested, owner.id, g);
+    } else {
+      add(g.cls === 'compartment' ? tree.compartments : tree.members, compartmentOf(g), g);
+    }
   }
+  return tree;
+};
 
-  const glyphEls = Array.from(doc.getElementsByTagNameNS('*', 'glyph'));
-  const arcEls = Array.from(doc.getElementsByTagNameNS('*', 'arc'));
-  if (glyphEls.length === 0) {
-    throw new Error('No SBGN glyphs were found in this map. The pathway may be empty or in an unsupported format.');
-  }
+// ---------------------------------------------------------------------------
+// Main render
+// ---------------------------------------------------------------------------
 
-  const overlay = buildOverlay(config, geneData, compoundData);
+export const renderSbgnToSvg = (model: PathwayModel, options: RenderOptions): string => {
+  const { config, geneData, compoundData } = options;
+  const byId = nodeIndex(model);
+  const hitOf = (overlay: Overlay, g: PathwayNode) => glyphHit(overlay, g, complexMembers(byId, g));
 
-  interface G { cls: string; bbox: Bbox; label: string; area: number; }
-  const all: G[] = [];
-  for (const el of glyphEls) {
-    const bbox = readBbox(el);
-    if (!bbox) continue;
-    const cls = (el.getAttribute('class') || '').toLowerCase().trim();
-    all.push({ cls, bbox, label: readLabel(el), area: bbox.w * bbox.h });
-  }
+  const placedSubs = placeSubGlyphs(model, byId, config.glyphFontSize);
+  const all = model.nodes
+    .map((g) => (g.bbox ? g : { ...g, bbox: placedSubs.get(g.id) ?? null }))
+    .filter((g): g is PlacedNode => !!g.bbox);
+  const portAt = new Map(model.nodes.flatMap((g) => (g.ports ?? []).map((p): [string, Point] => [p.id, p])));
+  const tree = glyphTree(all);
 
-  const compartments = all.filter((g) => g.cls === 'compartment').sort((a, b) => b.area - a.area);
-  const subGlyphs = all.filter((g) => SUBGLYPH_CLASSES.has(g.cls));
-  const mainGlyphs = all
-    .filter((g) => g.cls !== 'compartment' && !SUBGLYPH_CLASSES.has(g.cls))
-    .sort((a, b) => b.area - a.area); // containers (complexes) behind their contents
+  const impact = glyphImpacts(options, model, hitOf);
+  const overlay = buildOverlay(config, geneData, compoundData, { ...options, impact });
 
   // Bounds over glyphs + arc endpoints.
   let minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity;
@@ -235,10 +384,9 @@ export const renderSbgnToSvg = (sbgnXml: string, options: RenderOptions): string
     minX = Math.min(minX, g.bbox.x); minY = Math.min(minY, g.bbox.y);
     maxX = Math.max(maxX, g.bbox.x + g.bbox.w); maxY = Math.max(maxY, g.bbox.y + g.bbox.h);
   }
-  for (const a of arcEls) {
-    for (const ln of ['start', 'end']) {
-      const p = readPoint(firstChild(a, ln));
-      if (p) { minX = Math.min(minX, p.x); minY = Math.min(minY, p.y); maxX = Math.max(maxX, p.x); maxY = Math.max(maxY, p.y); }
+  for (const a of model.edges) {
+    for (const p of a.points.length ? [a.points[0], a.points[a.points.length - 1]] : []) {
+      minX = Math.min(minX, p.x); minY = Math.min(minY, p.y); maxX = Math.max(maxX, p.x); maxY = Math.max(maxY, p.y);
     }
   }
   if (!Number.isFinite(minX)) { minX = 0; minY = 0; maxX = 800; maxY = 600; }
@@ -250,80 +398,164 @@ export const renderSbgnToSvg = (sbgnXml: string, options: RenderOptions): string
 
   const sw = 1.2;
   const fontSize = config.glyphFontSize;
-  const parts: string[] = [`<rect x="${vbX}" y="${vbY}" width="${vbW}" height="${vbH}" fill="#f8fafc"/>`];
-
-  // Compartments (background).
-  for (const g of compartments) {
-    parts.push(`<g>${roundedRect(g.bbox, 'rgba(226,232,240,0.55)', '#94a3b8', 2, 14)}`);
-    if (g.label) {
-      parts.push(`<text x="${g.bbox.x + g.bbox.w / 2}" y="${g.bbox.y + g.bbox.h - 8}" text-anchor="middle" font-family="'Segoe UI', Helvetica, Arial, sans-serif" font-size="${fontSize + 2}" font-weight="700" fill="#64748b" opacity="0.8">${xmlEscape(g.label)}</text>`);
-    }
-    parts.push('</g>');
-  }
-
-  // Arcs.
-  for (const a of arcEls) parts.push(renderArc(a, config));
-
-  // Main glyphs.
-  for (const g of mainGlyphs) {
+  // The file's render information, unless the user turned it off.
+  const styleOf = (item: PathwayNode | PathwayEdge): RenderStyle | undefined => (config.mapStyles ? item.style : undefined);
+  const background = (config.mapStyles && model.background) || '#f8fafc';
+  const parts: string[] = [`<rect x="${vbX}" y="${vbY}" width="${vbW}" height="${vbH}" fill="${background}"/>`];
+
+  const compartmentSvg = (g: PlacedNode): string => {
+    const style = styleOf(g);
+    const font = { fontWeight: '700', ...style };
+    const label = g.label
+      ? `<text x="${g.bbox.x + g.bbox.w / 2}" y="${g.bbox.y + g.bbox.h - 8}" text-anchor="middle"${fontAttrs(font)} font-size="${style?.fontSize ?? fontSize + 2}" fill="${style?.fontColor ?? '#64748b'}" opacity="0.8">${xmlEscape(g.label)}</text>`
+      : '';
+    return `<g>${roundedRect(g.bbox, style?.fill ?? 'rgba(226,232,240,0.55)', style?.stroke ?? '#94a3b8', style?.strokeWidth ?? 2, 14)}${label}</g>`;
+  };
+
+  let cloneCount = 0;
+  const paints: GlyphPaint[] = [];
+  const glyphSvg = (g: PlacedNode): string => {
     const { bbox: b, cls, label } = g;
-    let fill = config.glyphFillColor;
+    const style = styleOf(g);
+    // The file's colors where it styles the glyph, the spec's otherwise.
+    const own = (color: string) => style?.fill ?? color;
+    const ink = style?.stroke ?? '#334155';
+    const lw = style?.strokeWidth ?? sw;
+    let fill = own(config.glyphFillColor);
     let idAttr = '', dataAttrs = '';
 
-    const tryGene = GENE_CLASSES.has(cls) || AMBIGUOUS_CLASSES.has(cls);
-    const tryCompound = COMPOUND_CLASSES.has(cls) || AMBIGUOUS_CLASSES.has(cls);
-    const hit = tryGene || tryCompound ? overlay.match(label, { gene: tryGene, compound: tryCompound }) : null;
+    const hit = hitOf(overlay, g);
     if (hit) {
       const a = entityAttrs(hit);
       idAttr = a.idAttr; dataAttrs = a.dataAttrs;
       if (hit.fill) fill = hit.fill;
     }
 
+    // Entity outline (heavier for significant hits under the 'border' encoding).
+    const st = overlay.stroke(hit, ink, lw);
+    if (hit) {
+      const solid = hit.fill && !hit.fill.startsWith('url(') ? hit.fill : null;
+      paints.push({ id: g.id, fill: solid, stroke: st.color, strokeWidth: st.width, hit });
+    }
     let shape = '';
-    if (GENE_CLASSES.has(cls)) {
-      shape = cls.startsWith('nucleic') ? bottomRoundedRect(b, fill, '#334155', sw) : roundedRect(b, fill, '#334155', sw);
-    } else if (COMPOUND_CLASSES.has(cls)) {
-      shape = stadium(b, fill, '#334155', sw);
-    } else if (cls === 'unspecified entity') {
-      shape = ellipse(b, fill, '#334155', sw);
+    if (GENE_CLASSES.has(cls) || COMPOUND_CLASSES.has(cls) || cls === 'unspecified entity') {
+      const outline = (bb: Bbox) => entityShape(cls, bb, fill, st.color, st.width);
+      shape = (cls.endsWith(' multimer') ? multimerShadow(b, outline) : '') + outline(b);
     } else if (cls === 'complex' || cls === 'complex multimer') {
-      shape = cutCornerRect(b, hit ? fill : 'rgba(203,213,225,0.45)', '#334155', sw);
-    } else if (cls === 'phenotype') {
-      shape = hexagon(b, '#fde68a', '#92400e', sw);
+      const outline = (bb: Bbox) => cutCornerRect(bb, hit ? fill : own('rgba(203,213,225,0.45)'), st.color, st.width);
+      shape = (cls === 'complex multimer' ? multimerShadow(b, outline) : '') + outline(b);
+    } else if (ACTIVITY_CLASSES.has(cls)) {
+      shape = plainRect(b, fill, st.color, st.width);
+    } else if (cls === 'entity') {
+      shape = roundedRect(b, fill, ink, lw);
+    } else if (cls === 'phenotype' || cls === 'observable') {
+      shape = hexagon(b, own('#fde68a'), style?.stroke ?? '#92400e', lw);
+    } else if (cls === 'perturbation' || cls === 'perturbing agent') {
+      shape = notchedHexagon(b, own('#ffffff'), ink, lw);
+    } else if (cls === 'outcome' || cls === 'interaction') {
+      shape = ellipse(b, own('#334155'), ink, lw);
+    } else if (cls === 'influence target' || cls === 'implicit xor') {
+      shape = ''; // where arcs meet; nothing of its own to draw
+    } else if (cls === 'annotation') {
+      shape = noteShape(b, own('#fefce8'), style?.stroke ?? '#a16207', lw);
+    } else if (cls === 'delay') {
+      shape = ellipse(b, own('#ffffff'), ink, lw);
     } else if (PROCESS_CLASSES.has(cls) || LOGIC_CLASSES.has(cls)) {
-      if (cls === 'association') shape = ellipse(b, '#334155', '#334155', sw);
-      else if (cls === 'dissociation') shape = ellipse(b, '#ffffff', '#334155', sw) + ellipse({ x: b.x + b.w * 0.25, y: b.y + b.h * 0.25, w: b.w * 0.5, h: b.h * 0.5 }, 'none', '#334155', sw);
-      else shape = `<rect x="${b.x}" y="${b.y}" width="${b.w}" height="${b.h}" fill="#ffffff" stroke="#334155" stroke-width="${sw}"/>`;
+      shape = portStubs(b, g.ports ?? [], ink, lw);
+      if (cls === 'association') shape += ellipse(b, own('#334155'), ink, lw);
+      else if (cls === 'dissociation') shape += ellipse(b, own('#ffffff'), ink, lw) + ellipse({ x: b.x + b.w * 0.25, y: b.y + b.h * 0.25, w: b.w * 0.5, h: b.h * 0.5 }, 'none', ink, lw);
+      else if (LOGIC_CLASSES.has(cls)) shape += ellipse(b, own('#ffffff'), ink, lw);
+      else shape += plainRect(b, own('#ffffff'), ink, lw) + (PROCESS_MARKS[cls] ? labelText(PROCESS_MARKS[cls], b, fontSize, '#334155') : '');
+      fill = own('#ffffff');
     } else if (cls === 'source and sink') {
-      shape = ellipse(b, '#ffffff', '#334155', sw) + `<line x1="${b.x}" y1="${b.y + b.h}" x2="${b.x + b.w}" y2="${b.y}" stroke="#334155" stroke-width="${sw}"/>`;
-    } else if (cls === 'tag') {
-      shape = roundedRect(b, fill, '#334155', sw, 3);
+      shape = ellipse(b, own('#ffffff'), ink, lw) + `<line x1="${b.x}" y1="${b.y + b.h}" x2="${b.x + b.w}" y2="${b.y}" stroke="${ink}" stroke-width="${lw}"/>`;
+    } else if (cls === 'submap') {
+      fill = own('#ffffff');
+      shape = plainRect(b, fill, ink, lw * 1.5);
+    } else if (cls === 'tag' || cls === 'terminal') {
+      fill = own('#ffffff');
+      shape = tagShape(b, g.orientation, fill, ink, lw);
     } else {
-      shape = roundedRect(b, fill, '#334155', sw);
+      shape = roundedRect(b, fill, st.color, st.width);
     }
-
-    const showLabel = !PROCESS_CLASSES.has(cls) || LOGIC_CLASSES.has(cls);
-    const text = showLabel ? labelText(LOGIC_CLASSES.has(cls) ? cls.toUpperCase() : label, b, fontSize, textOn(fill)) : '';
-    const cursor = idAttr ? ' style="cursor:pointer"' : '';
-    parts.push(`<g${idAttr}${dataAttrs}${cursor}>${shape}${text}</g>`);
-  }
-
-  // Sub-glyphs (state variables, units of information) on top.
-  for (const g of subGlyphs) {
+    if (g.clone !== undefined && CLONABLE_CLASSES.has(cls)) {
+      shape += cloneMarker(`sbgn-clone-${cloneCount++}`, cls, b, st.color, st.width, g.clone, fontSize);
+    }
+    shape += overlay.marker(hit, b.x + b.w, b.y);
+
+    const showLabel = (!PROCESS_CLASSES.has(cls) || LOGIC_CLASSES.has(cls)) && !UNLABELED_CLASSES.has(cls);
+    const gateText = cls === 'delay' ? 'τ' : cls.toUpperCase();
+    const text = showLabel ? labelText(LOGIC_CLASSES.has(cls) ? gateText : label, b, style?.fontSize ?? fontSize, style?.fontColor ?? textOn(fill), style) : '';
+    // A submap linked to another map in the file opens it when clicked (MainPanel).
+    const submapAttr = g.submap ? ` data-sbgn-submap="${xmlEscape(g.submap)}"` : '';
+    const cursor = idAttr || submapAttr ? ' style="cursor:pointer"' : '';
+    // The secondary 'opacity' channel fades the shape, not its label.
+    const fade = opacityAttr(overlay.fillOpacity(hit));
+    return `<g${idAttr}${dataAttrs}${submapAttr}${cursor}>${fade ? `<g${fade}>${shape}</g>` : shape}${text}</g>`;
+  };
+
+  // State variables, units of information, ER existence / location / values.
+  const subGlyphSvg = (g: PlacedNode): string => {
     const { bbox: b, cls, label } = g;
-    const small = Math.max(7, fontSize - 2);
+    const style = styleOf(g);
+    const paper = style?.fill ?? '#ffffff';
+    const ink = style?.stroke ?? '#475569';
+    const lw = style?.strokeWidth ?? 0.8;
+    const small = style?.fontSize ?? Math.max(7, fontSize - 2);
+    const text = label ? labelText(label, b, small, style?.fontColor ?? '#334155', style) : '';
     if (cls === 'state variable') {
-      parts.push(`<g>${stadium(b, '#ffffff', '#475569', 0.8)}${label ? labelText(label, b, small, '#334155') : ''}</g>`);
+      return `<g>${stadium(b, paper, ink, lw)}${text}</g>`;
+    } else if (cls === 'unit of information' && model.language === 'activity flow' && g.entity) {
+      return `<g>${entityShape(g.entity, b, paper, ink, lw, b.h / 4)}${text}</g>`;
+    } else if (cls === 'existence') {
+      // A circle with its right half filled: the entity exists.
+      const r = Math.min(b.w, b.h) / 2, cx = b.x + b.w / 2, cy = b.y + b.h / 2;
+      return `<g>${ellipse(b, paper, ink, lw)}<path d="M ${cx} ${cy - r} A ${r} ${r} 0 0 1 ${cx} ${cy + r} Z" fill="${ink}"/></g>`;
+    } else if (cls === 'location') {
+      const inner = { x: b.x + b.w * 0.25, y: b.y + b.h * 0.25, w: b.w * 0.5, h: b.h * 0.5 };
+      return `<g>${ellipse(b, paper, ink, lw)}${ellipse(inner, 'none', ink, lw)}</g>`;
+    } else if (cls === 'variable value') {
+      return `<g>${roundedRect(b, paper, ink, lw, 3)}${text}</g>`;
     } else {
-      parts.push(`<g><rect x="${b.x}" y="${b.y}" width="${b.w}" height="${b.h}" fill="#f1f5f9" stroke="#475569" stroke-width="0.8"/>${label ? labelText(label, b, small, '#334155') : ''}</g>`);
+      return `<g><rect x="${b.x}" y="${b.y}" width="${b.w}" height="${b.h}" fill="${style?.fill ?? '#f1f5f9'}" stroke="${ink}" stroke-width="${lw}"/>${text}</g>`;
     }
-  }
+  };
+
+  // A glyph with nested glyphs (a complex and its members, a submap and its
+  // terminals) is one group; so is each compartment, and the glyphs in it.
+  const group = (g: PlacedNode, inner: string) =>
+    `<g data-sbgn-id="${xmlEscape(g.id)}" data-sbgn-class="${xmlEscape(g.cls)}">${inner}</g>`;
+  const area = (g: PlacedNode) => g.bbox.w * g.bbox.h;
+  const byArea = (list: PlacedNode[] = []) => [...list].sort((a, b) => area(b) - area(a)); // largest first where siblings overlap
+  const subsOf = (g: PlacedNode) => (tree.nested.get(g.id) ?? []).filter((k) => SUBGLYPH_CLASSES.has(k.cls)).map(subGlyphSvg).join('');
+  const glyphGroup = (g: PlacedNode): string => {
+    const nested = (tree.nested.get(g.id) ?? []).filter((k) => !SUBGLYPH_CLASSES.has(k.cls));
+    const subs = subsOf(g);
+    if (!nested.length && !subs) return glyphSvg(g);
+    return group(g, glyphSvg(g) + byArea(nested).map(glyphGroup).join('') + subs);
+  };
+  const compartmentGroup = (c: PlacedNode): string =>
+    group(c, compartmentSvg(c) + subsOf(c) + byArea(tree.compartments.get(c.id)).map(compartmentGroup).join(''));
+  const contentsGroup = (id: string): string => {
+    const inner = byArea(tree.members.get(id)).map(glyphGroup).join('') +
+      (tree.compartments.get(id) ?? []).map((c) => contentsGroup(c.id)).join('');
+    return id && inner ? `<g data-sbgn-compartment="${xmlEscape(id)}">${inner}</g>` : inner;
+  };
+
+  // Compartments behind the arcs, their contents in front.
+  parts.push(byArea(tree.compartments.get('')).map(compartmentGroup).join(''));
+  for (const a of model.edges) parts.push(renderArc(a, config, portAt, styleOf(a)));
+  parts.push(contentsGroup(''));
+  parts.push(tree.loose.map(subGlyphSvg).join(''));
 
   if (overlay.hasData) parts.push(overlay.legendSvg(vbX + 16, maxY + pad + 4, 220));
+  options.onAudit?.(overlay.audit());
+  options.onLegend?.(overlay.legend());
+  options.onPaint?.(paints);
 
-  const mapName = doc.getElementsByTagNameNS('*', 'map')[0]?.getAttribute('name') || '';
   return `<svg xmlns="http://www.w3.org/2000/svg" viewBox="${vbX} ${vbY} ${vbW} ${vbH}" font-family="'Segoe UI', Helvetica, Arial, sans-serif">` +
-    (mapName ? `<title>${xmlEscape(mapName)}</title>` : '') +
+    (model.title ? `<title>${xmlEscape(model.title)}</title>` : '') +
+    overlay.defsSvg() +
     parts.join('') +
     `</svg>`;
 };
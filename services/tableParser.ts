@@ -0,0 +1,211 @@
+/**
+ * Dialect-detecting, quote-aware (RFC 4180) parser for uploaded gene / compound
+ * tables. Handles the inputs a naive `split(',')` gets wrong: quoted cells with
+ * embedded delimiters or newlines (GeneLab GENENAME, Excel exports), semicolon-
+ * delimited European CSVs with decimal commas, UTF-8 BOMs and CRLF endings.
+ *
+ * Rows that cannot be aligned with the header are skipped rather than guessed,
+ * and every skip is recorded in a ParseReport so the UI can explain it.
+ */
+
+export type Delimiter = ',' | '\t' | ';' | '|';
+
+export interface TableDialect {
+  delimiter: Delimiter;
+  /** Numeric cells use a comma as the decimal mark (e.g. "1,25"); normalized to "1.25". */
+  decimalComma: boolean;
+  hasBom: boolean;
+}
+
+export interface ParseIssue {
+  /** 1-based physical line number where the record starts. */
+  line: number;
+  reason: string;
+}
+
+export interface ParseReport {
+  dialect: TableDialect;
+  /** Data rows kept (excludes the header). */
+  rows: number;
+  columns: number;
+  skipped: ParseIssue[];
+}
+
+export interface ParsedTable {
+  headers: string[];
+  rows: string[][];
+  report: ParseReport;
+}
+
+const CANDIDATES: Delimiter[] = [',', '\t', ';', '|'];
+const SNIFF_LINES = 20;
+
+const DECIMAL_COMMA_CELL = /^[-+]?\d+,\d+(?:[eE][-+]?\d+)?$/;
+const DECIMAL_DOT_CELL = /^[-+]?\d*\.\d+(?:[eE][-+]?\d+)?$/;
+
+const stripBom = (text: string): { text: string; hasBom: boolean } =>
+  text.charCodeAt(0) === 0xfeff ? { text: text.slice(1), hasBom: true } : { text, hasBom: false };
+
+/** Count a delimiter outside double-quoted spans of one physical line. */
+const countOutsideQuotes = (line: string, delim: string): number => {
+  let n = 0, inQ = false;
+  for (let i = 0; i < line.length; i++) {
+    const ch = line[i];
+    if (ch === '"') inQ = !inQ;
+    else if (!inQ && ch === delim) n++;
+  }
+  return n;
+};
+
+/**
+ * Pick the delimiter whose per-line count is non-zero and most consistent over
+ * the first lines; ties go to the higher count, then to CANDIDATES order.
+ */
+export const detectDelimiter = (text: string): Delimiter => {
+  const sample = text.split(/\r\n|\n|\r/).filter((l) => l.trim() !== '').slice(0, SNIFF_LINES);
+  if (sample.length === 0) return ',';
+  let best: Delimiter = ',';
+  let bestScore = -Infinity;
+  for (const d of CANDIDATES) {
+    const counts = sample.map((l) => countOutsideQuotes(l, d));
+    const header = counts[0];
+    if (header === 0) continue;
+    const consistent = counts.filter((c) => c === header).length / counts.length;
+    const score = consistent * 1000 + header;
+    if (score > bestScore) { bestScore = score; best = d; }
+  }
+  return best;
+};
+
+/**
+ * Split text into records (arrays of cells) with RFC 4180 quoting: `""` is an
+ * escaped quote and delimiters / newlines inside quotes are literal.
+ */
+const tokenize = (text: string, delimiter: string): { records: { line: number; cells: string[] }[]; unterminatedAt: number | null } => {
+  const records: { line: number; cells: string[] }[] = [];
+  let cells: string[] = [];
+  let cur = '';
+  let inQ = false;
+  let line = 1;
+  let recordLine = 1;
+  let quoteStart = 0;
+
+  const endRecord = () => {
+    cells.push(cur);
+    records.push({ line: recordLine, cells });
+    cells = []; cur = '';
+  };
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (inQ) {
+      if (ch === '"') {
+        if (text[i + 1] === '"') { cur += '"'; i++; } else inQ = false;
+      } else {
+        if (ch === '\n' || (ch === '\r' && text[i + 1] !== '\n')) line++;
+        cur += ch;
+      }
+      continue;
+    }
+    if (ch === '"' && cur.trim() === '') { inQ = true; cur = ''; quoteStart = line; }
+    else if (ch === delimiter) { cells.push(cur); cur = ''; }
+    else if (ch === '\r' || ch === '\n') {
+      if (ch === '\r' && text[i + 1] === '\n') i++;
+      endRecord();
+      line++;
+      recordLine = line;
+    } else cur += ch;
+  }
+  if (cur !== '' || cells.length > 0) endRecord();
+  return { records, unterminatedAt: inQ ? quoteStart : null };
+};
+
+const detectDecimalComma = (rows: string[][], delimiter: Delimiter): boolean => {
+  if (delimiter === ',') return false;
+  let comma = 0, dot = 0;
+  for (const row of rows.slice(0, SNIFF_LINES * 5)) {
+    for (const cell of row) {
+      const c = cell.trim();
+      if (DECIMAL_COMMA_CELL.test(c)) comma++;
+      else if (DECIMAL_DOT_CELL.test(c)) dot++;
+    }
+  }
+  return comma > dot;
+};
+
+/** Split one physical line with the given delimiter (for streamed, line-at-a-time readers). */
+export const splitDelimitedLine = (line: string, delimiter: Delimiter = ','): string[] =>
+  tokenize(line, delimiter).records[0]?.cells ?? [''];
+
+/**
+ * Parse a CSV/TSV/SSV table. The first non-blank record is the header. Blank
+ * lines are ignored; rows whose cell count differs from the header, or whose
+ * first (identifier) cell is empty, are skipped and reported.
+ */
+export const parseTable = (raw: string): ParsedTable => {
+  const { text, hasBom } = stripBom(raw);
+  const delimiter = detectDelimiter(text);
+  const { records, unterminatedAt } = tokenize(text, delimiter);
+  const nonBlank = records.filter((r) => r.cells.some((c) => c.trim() !== ''));
+
+  const skipped: ParseIssue[] = [];
+  if (nonBlank.length === 0) {
+    return { headers: [], rows: [], report: { dialect: { delimiter, decimalComma: false, hasBom }, rows: 0, columns: 0, skipped } };
+  }
+
+  let headers = nonBlank[0].cells.map((h) => h.trim());
+  const body = nonBlank.slice(1);
+
+  // R's write.table(row.names = TRUE) omits the header cell above the row names,
+  // so every data row is exactly one cell wider than the header.
+  if (body.length > 0 && body.every((r) => r.cells.length === headers.length + 1)) {
+    headers = ['', ...headers];
+  }
+
+  const rows: string[][] = [];
+  for (const r of body) {
+    if (r.cells.length !== headers.length) {
+      skipped.push({ line: r.line, reason: `${r.cells.length} cells, expected ${headers.length}` });
+      continue;
+    }
+    const cells = r.cells.map((c) => c.trim());
+    if (!cells[0]) {
+      skipped.push({ line: r.line, reason: 'empty identifier' });
+      continue;
+    }
+    rows.push(cells);
+  }
+  if (unterminatedAt !== null) {
+    skipped.push({ line: unterminatedAt, reason: 'unterminated quoted cell' });
+  }
+
+  const decimalComma = detectDecimalComma(rows, delimiter);
+  if (decimalComma) {
+    for (const row of rows) {
+      for (let i = 0; i < row.length; i++) {
+        if (DECIMAL_COMMA_CELL.test(row[i])) row[i] = row[i].replace(',', '.');
+      }
+    }
+  }
+
+  return {
+    headers,
+    rows,
+    report: { dialect: { delimiter, decimalComma, hasBom }, rows: rows.length, columns: headers.length, skipped },
+  };
+};
+
+/** Quote a cell for comma-separated output when it needs it (RFC 4180). */
+export const csvCell = (cell: string): string =>
+  /[",\r\n]/.test(cell) ? `"${cell.replace(/"/g, '""')}"` : cell;
+
+const DELIMITER_NAMES: Record<Delimiter, string> = { ',': 'comma', '\t': 'tab', ';': 'semicolon', '|': 'pipe' };
+
+/** One-line human summary of a report, e.g. "1,204 rows · 3 columns · semicolon, decimal comma". */
+export const describeReport = (report: ParseReport): string => {
+  const d = report.dialect;
+  const bits = [DELIMITER_NAMES[d.delimiter]];
+  if (d.decimalComma) bits.push('decimal comma');
+  if (d.hasBom) bits.push('BOM');
+  return `${report.rows.toLocaleString()} row${report.rows === 1 ? '' : 's'} · ${report.columns} columns · ${bits.join(', ')}`;
+};
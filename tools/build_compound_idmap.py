@@ -0,0 +1,91 @@
+#!/usr/bin/env python3
+"""
+Build the offline metabolite crosswalk the web app uses to match uploaded
+compound ids (KEGG C-numbers, ChEBI, HMDB, PubChem CIDs or names) to the
+labels of SBGN "simple chemical" glyphs and KGML compound nodes. Writes
+public/data/idmap/compounds.json, one row per KEGG compound.
+
+Sources (merged on the KEGG compound id):
+  tools/data/compound_seed.csv   curated common metabolites (always read)
+  --kegg-list      https://rest.kegg.jp/list/compound        (names / synonyms)
+  --kegg-chebi     https://rest.kegg.jp/conv/chebi/compound  (ChEBI ids)
+  --chebi-accessions  ChEBI database_accession.tsv            (HMDB ids via ChEBI)
+
+Usage:
+  python tools/build_compound_idmap.py
+  python tools/build_compound_idmap.py --kegg-list list_compound.txt \
+      --kegg-chebi conv_chebi.txt --chebi-accessions database_accession.tsv
+
+Only the Python standard library is used.
+"""
+import argparse, csv, json, os
+
+ROOT = os.path.dirname(os.path.dirname(os.path.abspath(__file__)))
+SEED = os.path.join(ROOT, "tools", "data", "compound_seed.csv")
+OUT = os.path.join(ROOT, "public", "data", "idmap", "compounds.json")
+TYPES = ["KEGG", "ChEBI", "HMDB", "PubChem", "name"]
+
+
+def strip_prefix(s):
+    return s.split(":", 1)[1] if ":" in s else s
+
+
+def main():
+    ap = argparse.ArgumentParser()
+    ap.add_argument("--kegg-list")
+    ap.add_argument("--kegg-chebi")
+    ap.add_argument("--chebi-accessions")
+    a = ap.parse_args()
+
+    rows = {}
+
+    def add(kegg, kind, value):
+        value = (value or "").strip()
+        if value:
+            rows.setdefault(kegg, {t: [] for t in TYPES})
+            cell = rows[kegg][kind]
+            if value not in cell:
+                cell.append(value)
+
+    for rec in csv.DictReader(open(SEED, encoding="utf-8")):
+        add(rec["KEGG"], "KEGG", rec["KEGG"])
+        for t in TYPES[1:]:
+            for v in rec.get(t, "").split("|"):
+                add(rec["KEGG"], t, v)
+
+    if a.kegg_list:
+        for line in open(a.kegg_list, encoding="utf-8"):
+            kid, _, names = line.rstrip("\n").partition("\t")
+            kegg = strip_prefix(kid)
+            add(kegg, "KEGG", kegg)
+            for n in names.split(";"):
+                add(kegg, "name", n)
+
+    chebi_to_kegg = {}
+    if a.kegg_chebi:
+        for line in open(a.kegg_chebi, encoding="utf-8"):
+            kid, _, chebi = line.rstrip("\n").partition("\t")
+            kegg, chebi = strip_prefix(kid), strip_prefix(chebi)
+            if kegg in rows:
+                add(kegg, "ChEBI", chebi)
+                chebi_to_kegg.setdefault(chebi, kegg)
+    for kegg, row in rows.items():
+        for chebi in row["ChEBI"]:
+            chebi_to_kegg.setdefault(chebi, kegg)
+
+    if a.chebi_accessions:
+        for rec in csv.DictReader(open(a.chebi_accessions, encoding="utf-8"), delimiter="\t"):
+            kegg = chebi_to_kegg.get(rec.get("COMPOUND_ID", ""))
+            if kegg and rec.get("TYPE") == "HMDB accession":
+                add(kegg, "HMDB", rec.get("ACCESSION_NUMBER", ""))
+
+    compounds = [["|".join(rows[k][t]) for t in TYPES] for k in sorted(rows)]
+    os.makedirs(os.path.dirname(OUT), exist_ok=True)
+    with open(OUT, "w", encoding="utf-8") as f:
+        json.dump({"types": TYPES, "compounds": compounds}, f, separators=(",", ":"))
+        f.write("\n")
+    print(f"{len(compounds)} compounds -> {os.path.relpath(OUT, ROOT)}")
+
+
+if __name__ == "__main__":
+    main()
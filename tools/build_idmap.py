@@ -0,0 +1,211 @@
+#!/usr/bin/env python3
+"""
+Build the offline gene identifier crosswalk tables the web app uses to convert
+uploaded Ensembl / Entrez / UniProt / TAIR / KEGG ids to the symbols printed on
+SBGN glyphs (or the KEGG ids in KGML entries). One JSON file per organism in
+public/data/idmap/genes/, registered in public/data/idmap/genes/index.json.
+
+Sources (any combination; rows are merged on the KEGG/Entrez/locus id):
+  --gene-info   NCBI gene_info file for the organism (Symbol, GeneID, LocusTag,
+                Ensembl from dbXrefs), e.g.
+                https://ftp.ncbi.nlm.nih.gov/gene/DATA/GENE_INFO/Mammalia/Homo_sapiens.gene_info.gz
+  --uniprot     UniProt *_idmapping_selected.tab(.gz) for the organism (accession -> GeneID)
+  --kgml        KEGG KGML files; adds the first symbol of each gene box to its first id
+  --ensembl-genes  an Ensembl gene list (Ensembl gene id -> symbol): the Ideogram.js gene
+                cache for the organism, derived from Ensembl's GFF3 and released CC0, e.g.
+                node_modules/ideogram/dist/data/cache/genes/homo-sapiens-genes.tsv.gz
+                (npm pack ideogram); rows with the same Ensembl id are merged
+  --merge       an earlier table JSON whose rows are kept (ids no other source has)
+
+Usage:
+  python tools/build_idmap.py hsa --organism "Homo sapiens" --species 48887 9606 \
+      --gene-info Homo_sapiens.gene_info.gz --uniprot HUMAN_9606_idmapping_selected.tab.gz
+  python tools/build_idmap.py ath --organism "Arabidopsis thaliana" --species 3702 ARA \
+      --kegg-id locus --kgml ath*.xml \
+      --coverage "demo table: the genes on the bundled KEGG maps only, no Entrez or UniProt ids"
+  python tools/build_idmap.py mmu --organism "Mus musculus" --species 48892 10090 \
+      --ensembl-genes mus-musculus-genes.tsv.gz --partial-types Entrez UniProt KEGG \
+      --coverage "symbols and Ensembl ids only (Ensembl 102 genes); no Entrez, UniProt or KEGG ids"
+
+The bundled tables other than ath are built from the Ideogram.js gene caches
+(ideogram 1.53.0): genome-wide for symbols and Ensembl ids, while hsa keeps the
+Entrez / UniProt / KEGG ids of its 8 demo-map genes (--merge). ath is a demo
+table built from the shipped KGML files. Rebuild from gene_info / UniProt for
+genome-wide Entrez and UniProt columns.
+
+Only the Python standard library is used.
+"""
+import argparse, csv, gzip, json, os, re
+import xml.etree.ElementTree as ET
+
+ROOT = os.path.dirname(os.path.dirname(os.path.abspath(__file__)))
+OUT_DIR = os.path.join(ROOT, "public", "data", "idmap", "genes")
+INDEX = os.path.join(OUT_DIR, "index.json")
+TYPES = ["SYMBOL", "Entrez", "Ensembl", "UniProt", "TAIR", "KEGG"]
+LOCUS_RE = re.compile(r"^AT[1-5MC]G\d{5}$", re.I)
+# Ideogram.js gene caches drop the zero padding of Ensembl ids (ENSG + 11 digits).
+SLIM_ID_DIGITS = {"FBgn": 7, "WBGene": 8}
+
+
+def open_text(path):
+    return gzip.open(path, "rt", encoding="utf-8") if path.endswith(".gz") else open(path, encoding="utf-8")
+
+
+class Table:
+    """Rows keyed by their KEGG gene id; every cell is a set of ids."""
+
+    def __init__(self, org):
+        self.org = org
+        self.rows = {}
+
+    def row(self, key):
+        return self.rows.setdefault(key, {t: set() for t in TYPES})
+
+    def add(self, key, kind, value):
+        value = (value or "").strip()
+        if value and value != "-":
+            self.row(key)[kind].add(value)
+
+
+def read_gene_info(table, path, kegg_id):
+    with open_text(path) as f:
+        for rec in csv.DictReader(f, delimiter="\t"):
+            gid, locus = rec["GeneID"], rec.get("LocusTag", "-")
+            ident = locus if kegg_id == "locus" and locus != "-" else gid
+            key = f"{table.org}:{ident}"
+            table.add(key, "KEGG", key)
+            table.add(key, "Entrez", gid)
+            table.add(key, "SYMBOL", rec["Symbol"])
+            if LOCUS_RE.match(locus or ""):
+                table.add(key, "TAIR", locus.upper())
+            for xref in rec.get("dbXrefs", "").split("|"):
+                db, _, acc = xref.partition(":")
+                if db == "Ensembl":
+                    table.add(key, "Ensembl", acc)
+                elif db == "TAIR" or db == "Araport":
+                    table.add(key, "TAIR", acc.upper())
+
+
+def read_uniprot(table, path):
+    by_entrez = {}
+    for key, row in table.rows.items():
+        for gid in row["Entrez"]:
+            by_entrez.setdefault(gid, []).append(key)
+    with open_text(path) as f:
+        for line in f:
+            cols = line.rstrip("\n").split("\t")
+            if len(cols) < 3:
+                continue
+            for gid in cols[2].split(";"):
+                for key in by_entrez.get(gid.strip(), []):
+                    table.add(key, "UniProt", cols[0])
+
+
+def read_ensembl_genes(table, path):
+    by_ensembl = {acc: key for key, row in table.rows.items() for acc in row["Ensembl"]}
+    prefix = ""
+    with open_text(path) as f:
+        for line in f:
+            if line.startswith("## prefix:"):
+                prefix = line.split(":", 1)[1].strip()
+            if line.startswith("#") or not line.strip():
+                continue
+            cols = line.rstrip("\n").split("\t")
+            if len(cols) < 5:
+                continue
+            acc = prefix + cols[3].zfill(SLIM_ID_DIGITS.get(prefix, 11))
+            key = by_ensembl.get(acc, f"ensembl:{acc}")
+            table.add(key, "Ensembl", acc)
+            table.add(key, "SYMBOL", cols[4])
+
+
+def read_table(table, path):
+    with open_text(path) as f:
+        data = json.load(f)
+    for cells in data["genes"]:
+        row = dict(zip(data["types"], cells))
+        ids = [(t, v) for t in ("KEGG", "Ensembl", "SYMBOL") for v in row.get(t, "").split("|") if v]
+        if not ids:
+            continue
+        kind, first = ids[0]
+        key = first if kind == "KEGG" else f"{kind.lower()}:{first}"
+        for t, cell in row.items():
+            if t in TYPES:
+                for v in cell.split("|"):
+                    table.add(key, t, v)
+
+
+def read_kgml(table, paths):
+    for path in paths:
+        for entry in ET.parse(path).getroot().iter("entry"):
+            if entry.get("type") != "gene":
+                continue
+            ids = [i for i in entry.get("name", "").split() if i.startswith(f"{table.org}:")]
+            g = entry.find("graphics")
+            if not ids or g is None:
+                continue
+            # KGML only names the first gene of a box: "PAL1..." / "PAL1, ATPAL1...".
+            symbol = re.split(r"[,.]", g.get("name", ""), 1)[0].strip()
+            key = ids[0]
+            table.add(key, "KEGG", key)
+            locus = key.split(":", 1)[1]
+            if LOCUS_RE.match(locus):
+                table.add(key, "TAIR", locus.upper())
+                table.add(key, "Ensembl", locus.upper())  # Ensembl Plants gene ids are AGI loci
+            if symbol and symbol.upper() != locus.upper():
+                table.add(key, "SYMBOL", symbol)
+
+
+def main():
+    ap = argparse.ArgumentParser()
+    ap.add_argument("org", help="KEGG organism code, also the output file name (e.g. hsa, ath)")
+    ap.add_argument("--organism", required=True)
+    ap.add_argument("--species", nargs="*", default=[], help="other species ids that select this table (Reactome dbId, taxon, ...)")
+    ap.add_argument("--gene-info")
+    ap.add_argument("--uniprot")
+    ap.add_argument("--kgml", nargs="*", default=[])
+    ap.add_argument("--ensembl-genes")
+    ap.add_argument("--merge")
+    ap.add_argument("--kegg-id", choices=["entrez", "locus"], default="entrez",
+                    help="KEGG gene ids are Entrez GeneIDs for most organisms, locus tags for ath, sce, ...")
+    ap.add_argument("--coverage", help="what a table that is not genome-wide covers; shown with every conversion "
+                                       "(e.g. \"demo table: the genes on the bundled KEGG maps only\")")
+    ap.add_argument("--partial-types", nargs="*", choices=TYPES,
+                    help="the id types --coverage is about; conversions between the others are genome-wide")
+    a = ap.parse_args()
+
+    table = Table(a.org)
+    if a.merge:
+        read_table(table, a.merge)
+    if a.gene_info:
+        read_gene_info(table, a.gene_info, a.kegg_id)
+    if a.uniprot:
+        read_uniprot(table, a.uniprot)
+    if a.kgml:
+        read_kgml(table, a.kgml)
+    if a.ensembl_genes:
+        read_ensembl_genes(table, a.ensembl_genes)
+
+    genes = [["|".join(sorted(row[t])) for t in TYPES] for _, row in sorted(table.rows.items())]
+    os.makedirs(OUT_DIR, exist_ok=True)
+    with open(os.path.join(OUT_DIR, f"{a.org}.json"), "w", encoding="utf-8") as f:
+        out = {"organism": a.organism, "types": TYPES, "genes": genes}
+        if a.coverage:
+            out = {"organism": a.organism, "coverage": a.coverage, "types": TYPES, "genes": genes}
+            if a.partial_types:
+                out = {"organism": a.organism, "coverage": a.coverage, "partial": a.partial_types, "types": TYPES, "genes": genes}
+        json.dump(out, f, separators=(",", ":"))
+        f.write("\n")
+
+    index = json.load(open(INDEX, encoding="utf-8")) if os.path.exists(INDEX) else []
+    index = [e for e in index if e["file"] != a.org]
+    filled = [t for i, t in enumerate(TYPES) if any(g[i] for g in genes)]
+    index.append({"file": a.org, "organism": a.organism, "species": sorted({a.org, *a.species}), "types": filled})
+    with open(INDEX, "w", encoding="utf-8") as f:
+        json.dump(sorted(index, key=lambda e: e["file"]), f, indent=2)
+        f.write("\n")
+    print(f"{a.org}: {len(genes)} genes -> {os.path.relpath(OUT_DIR, ROOT)}/{a.org}.json")
+
+
+if __name__ == "__main__":
+    main()
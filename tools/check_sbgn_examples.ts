@@ -0,0 +1,136 @@
+/**
+ * Renders every bundled SBGN example map (public/data/sbgn-examples, as listed
+ * in its index.json) and checks the SVG carries the PD marks the glyphs call
+ * for: the clone band, the multimer's offset back copy, arcs drawn to the
+ * ports they name, the "\\" / "?" omitted / uncertain process marks, linked
+ * submaps, cardinality units and the perturbing agent's notched box. Each mark
+ * must also appear somewhere across the examples, so a fixture that stops
+ * covering one fails too.
+ *
+ * Usage: npm run check:sbgn   (exits 1 and lists the misses on failure)
+ */
+
+import { readFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { DOMParser } from 'linkedom';
+import { type VisualizationConfig } from '../types';
+import { type PathwayModel, type PathwayNode, type Point } from '../services/pathwayModel';
+import { parseSbgnMaps, GENE_CLASSES, COMPOUND_CLASSES, COMPLEX_CLASSES } from '../services/sbgnParser';
+import { renderSbgnToSvg } from '../services/sbgnRenderer';
+import { DEFAULT_SCALE_SETTINGS } from '../services/colorScales';
+
+// The parser reads markup with the browser's DOMParser.
+(globalThis as any).DOMParser = DOMParser;
+
+const EXAMPLES_DIR = fileURLToPath(new URL('../public/data/sbgn-examples', import.meta.url));
+
+const CONFIG: VisualizationConfig = {
+  pathwayDatabase: 'Custom SBGN File', dataType: 'norm_counts', pathwayId: '', geneIdType: 'SYMBOL', speciesId: '48887',
+  glyphFontSize: 10, glyphFillColor: '#38bdf8', arcLineWidth: 1, arcLineColor: '#94a3b8',
+  compoundDataType: 'abundance', compoundIdType: 'kegg', keggRenderMode: 'image',
+  significanceCutoff: 0.05, minAbsLog2FC: 0, significanceEncoding: 'border', duplicateAggregation: 'first',
+  labelFallback: true, matchingPolicy: 'token', memberAggregation: 'mean',
+  geneColorScale: DEFAULT_SCALE_SETTINGS, compoundColorScale: DEFAULT_SCALE_SETTINGS,
+  secondaryChannel: 'none', secondaryTransform: 'linear', overlayMode: 'values', mapStyles: true,
+};
+
+const FEATURES = ['clone band', 'multimer offset', 'port-resolved arc', 'omitted process mark', 'uncertain process mark', 'submap', 'cardinality unit', 'perturbing agent'] as const;
+type Feature = typeof FEATURES[number];
+
+interface Expectation {
+  feature: Feature;
+  /** The glyph or arc checked. */
+  id: string;
+  /** The markup the renderer must have emitted for it. */
+  pattern: RegExp;
+}
+
+const escape = (s: string | number) => String(s).replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+const rectAt = (x: number, y: number, w: number, h: number) =>
+  `<rect x="${escape(x)}" y="${escape(y)}" width="${escape(w)}" height="${escape(h)}"`;
+const tspan = (x: number, text: string) => `<tspan x="${escape(x)}" y="[^"]+">${escape(text)}</tspan>`;
+
+// The back copy of a multimer, drawn in its monomer's shape and offset down and right.
+const multimerBackCopy = (g: PathwayNode): string | null => {
+  if (!g.bbox) return null;
+  const { x, y, w, h } = g.bbox;
+  const d = Math.min(5, w / 8, h / 8);
+  if (COMPLEX_CLASSES.has(g.cls)) return `points="${escape(x + d + Math.min(12, w / 4, h / 4))},${escape(y + d)} `;
+  if (g.cls.startsWith('nucleic')) return `d="M ${escape(x + d)} ${escape(y + d)} L`;
+  if (GENE_CLASSES.has(g.cls) || COMPOUND_CLASSES.has(g.cls)) return rectAt(x + d, y + d, w, h);
+  return null;
+};
+
+// What each glyph and arc of a model should have put in its SVG.
+const expectationsFor = (model: PathwayModel): Expectation[] => {
+  const out: Expectation[] = [];
+  const portAt = new Map(model.nodes.flatMap((g) => (g.ports ?? []).map((p): [string, Point] => [p.id, p])));
+  for (const g of model.nodes) {
+    const b = g.bbox;
+    if (!b) continue;
+    const cx = b.x + b.w / 2;
+    if (g.clone !== undefined) {
+      out.push({ feature: 'clone band', id: g.id, pattern: new RegExp(`<clipPath id="sbgn-clone-\\d+">${rectAt(b.x, b.y + b.h * 0.7, b.w, b.h * 0.3)}/></clipPath>`) });
+    }
+    if (g.cls.endsWith(' multimer')) {
+      const back = multimerBackCopy(g);
+      if (back) out.push({ feature: 'multimer offset', id: g.id, pattern: new RegExp(back) });
+    }
+    if (g.cls === 'omitted process') out.push({ feature: 'omitted process mark', id: g.id, pattern: new RegExp(tspan(cx, '\\\\')) });
+    if (g.cls === 'uncertain process') out.push({ feature: 'uncertain process mark', id: g.id, pattern: new RegExp(tspan(cx, '?')) });
+    if (g.cls === 'submap') {
+      // Unlinked, it would draw but not open anything: that is a miss too.
+      const link = g.submap ? `data-sbgn-submap="${escape(g.submap)}"[^>]*>${rectAt(b.x, b.y, b.w, b.h)}` : 'a submap linked to another map';
+      out.push({ feature: 'submap', id: g.id, pattern: new RegExp(link) });
+    }
+    if (g.cls === 'cardinality' || (g.cls === 'unit of information' && /^N:\d+$/.test(g.label))) {
+      out.push({ feature: 'cardinality unit', id: g.id, pattern: new RegExp(`${rectAt(b.x, b.y, b.w, b.h)}[^>]*/><text[^>]*>${tspan(cx, g.label)}`) });
+    }
+    if (g.cls === 'perturbing agent') {
+      const c = Math.min(b.w * 0.2, b.h / 2);
+      const pts = [[b.x, b.y], [b.x + b.w, b.y], [b.x + b.w - c, b.y + b.h / 2]].map((p) => p.map(escape).join(',')).join(' ');
+      out.push({ feature: 'perturbing agent', id: g.id, pattern: new RegExp(`<polygon points="${pts} `) });
+    }
+  }
+  const glyphIds = new Set(model.nodes.map((g) => g.id));
+  for (const a of model.edges) {
+    if (!a.sourcePort && !a.targetPort) continue;
+    // The parser hands the arc to the glyph that owns the port; the line runs to the port itself.
+    if (!glyphIds.has(a.source) || !glyphIds.has(a.target)) {
+      out.push({ feature: 'port-resolved arc', id: a.id, pattern: /an arc resolved to the port's glyph/ });
+      continue;
+    }
+    const from = (a.sourcePort && portAt.get(a.sourcePort)) || a.points[0];
+    const to = (a.targetPort && portAt.get(a.targetPort)) || a.points[a.points.length - 1];
+    out.push({ feature: 'port-resolved arc', id: a.id, pattern: new RegExp(`<path d="M ${escape(from.x)} ${escape(from.y)}( L [^"]+)? L ${escape(to.x)} ${escape(to.y)}" fill="none"`) });
+  }
+  return out;
+};
+
+const index = JSON.parse(readFileSync(join(EXAMPLES_DIR, 'index.json'), 'utf-8')) as { examples: { file: string }[] };
+const seen = new Map<Feature, number>(FEATURES.map((f) => [f, 0]));
+const misses: string[] = [];
+
+for (const { file } of index.examples) {
+  const models = parseSbgnMaps(readFileSync(join(EXAMPLES_DIR, file), 'utf-8'));
+  for (const model of models) {
+    const svg = renderSbgnToSvg(model, { config: CONFIG, geneData: new Map(), compoundData: new Map() });
+    const checks = expectationsFor(model);
+    for (const e of checks) {
+      seen.set(e.feature, (seen.get(e.feature) ?? 0) + 1);
+      if (!e.pattern.test(svg)) misses.push(`${file} (${model.mapId}): ${e.feature} missing for ${e.id}`);
+    }
+    const counts = FEATURES.map((f) => [f, checks.filter((e) => e.feature === f).length] as const).filter(([, n]) => n > 0);
+    console.log(`${file} (${model.mapId}): ${counts.length ? counts.map(([f, n]) => `${n} ${f}`).join(', ') : 'no PD marks to check'}`);
+  }
+}
+
+for (const [feature, n] of seen) {
+  if (n === 0) misses.push(`no bundled example has a ${feature}`);
+}
+if (misses.length) {
+  console.error(`\n${misses.length} check(s) failed:\n  ${misses.join('\n  ')}`);
+  process.exit(1);
+}
+console.log('\nAll SBGN example marks rendered.');
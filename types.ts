@@ -5,6 +5,45 @@ export type PathwayDatabase = 'Reactome' | 'Plant Reactome' | 'KEGG' | 'MetaCyc'
 // KEGG can render either as a clean vector from KGML, or as a data overlay on
 // KEGG's official pathway image (pathview-style).
 export type KeggRenderMode = 'image' | 'vector';
+// How glyphs that pass the significance cutoffs are emphasized on the map.
+export type SignificanceEncoding = 'border' | 'marker' | 'none';
+// How several rows with the same identifier (probes, transcripts) are collapsed.
+export type DuplicateAggregation = 'first' | 'mean' | 'median' | 'maxAbs' | 'mostSignificant';
+// How glyph labels are compared with uploaded ids: whole label then its words
+// ('token'), whole label only ('exact'), ignoring db prefixes and isoform /
+// version suffixes ('isoform'), or like 'token' without case folding.
+export type MatchingPolicy = 'token' | 'exact' | 'isoform' | 'caseSensitive';
+// How the member genes of an SBGN complex or a multi-gene KEGG box color it.
+export type MemberAggregation = 'mean' | 'maxAbs' | 'stripes';
+// What a table's secondary column (padj, variance, …) drives on each glyph.
+export type SecondaryChannel = 'none' | 'borderWidth' | 'borderColor' | 'opacity' | 'badge';
+// Secondary values as uploaded, or −log10 (for p-values: larger = more significant).
+export type SecondaryTransform = 'linear' | 'negLog10';
+// What gene glyphs show: their measured values, or the perturbation that
+// propagates along the pathway's signed interactions (SPIA-like impact).
+export type OverlayMode = 'values' | 'impact';
+// Color ramp for a scale: the per-table default, a preset, or the user's stops.
+export type PaletteId = 'default' | 'puor' | 'brbg' | 'viridis' | 'cividis' | 'grays' | 'custom';
+// Where a scale's ends come from: the data range (±max |value| for fold
+// changes), fixed numbers, ±a fixed limit, or a quantile that clips outliers.
+export type ScaleDomain = 'data' | 'fixed' | 'symmetric' | 'quantile';
+
+/** Palette and domain of one color scale (genes or compounds). */
+export interface ScaleSettings {
+  palette: PaletteId;
+  /** Low → high colors used when `palette` is 'custom'. */
+  customStops: string[];
+  domain: ScaleDomain;
+  /** 'fixed' uses both; 'symmetric' uses `domainMax` as the ± limit. */
+  domainMin: number;
+  domainMax: number;
+  /** 'quantile': the upper end as a quantile of the values, e.g. 0.95; the lower end is 1 − this. */
+  quantile: number;
+  /** Flag glyphs whose value lies beyond the domain (their color is clamped). */
+  clampMarkers: boolean;
+  /** Categorical tables: fill per category label; unlisted categories get a preset color. */
+  categoryColors: Record<string, string>;
+}
 
 export interface VisualizationConfig {
   pathwayDatabase: PathwayDatabase;
@@ -19,6 +58,44 @@ export interface VisualizationConfig {
   compoundDataType: CompoundDataType;
   compoundIdType: string;
   keggRenderMode: KeggRenderMode;
+  /** Rows whose significance value (padj / p) is above this are "measured but not significant". */
+  significanceCutoff: number;
+  /** Fold-change data only: rows with |log2FC| below this are also not significant. */
+  minAbsLog2FC: number;
+  significanceEncoding: SignificanceEncoding;
+  duplicateAggregation: DuplicateAggregation;
+  /** Match on glyph labels when a glyph has no annotation ids, or none of them hit. */
+  labelFallback: boolean;
+  matchingPolicy: MatchingPolicy;
+  memberAggregation: MemberAggregation;
+  geneColorScale: ScaleSettings;
+  compoundColorScale: ScaleSettings;
+  secondaryChannel: SecondaryChannel;
+  secondaryTransform: SecondaryTransform;
+  overlayMode: OverlayMode;
+  /** Draw SBGN glyphs and arcs in the file's own render-information styles, where it has them. */
+  mapStyles: boolean;
+}
+
+/**
+ * Which uploaded columns feed the overlay, chosen in the Sidebar's column-mapping
+ * panel (pre-filled from header heuristics, remembered per header signature).
+ */
+export interface ColumnSpec {
+  idColumn: string;
+  /** One or more numeric columns; several are averaged unless `sliced`. */
+  valueColumns: string[];
+  /** Draw one vertical slice per value column (per sample / contrast) instead of averaging. */
+  sliced: boolean;
+  /** padj / p-value / FDR column, or null when the table has none. */
+  significanceColumn: string | null;
+  /** Column drawn through `secondaryChannel` alongside the fill, or null. */
+  secondaryColumn: string | null;
+  /**
+   * Value cells are category labels (up/down calls, cluster ids, present/absent)
+   * rather than numbers; several unsliced columns take the most frequent label.
+   */
+  categorical: boolean;
 }
 
 export interface Species {